@@ -1,34 +1,25 @@
 // app/api/analyze-feedback/route.ts
 import { NextResponse } from 'next/server';
-import OpenAI from 'openai';
+import { generateText } from 'ai';
+import { getLanguageModel } from '@/lib/ai';
+import { withAuth } from '@/lib/auth';
+import { withRateLimit } from '@/lib/rate-limit';
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY
-});
-
-export async function POST(request: Request) {
+export const POST = withAuth(withRateLimit('chat', async (request) => {
   try {
     const { messageContent, prompt } = await request.json();
 
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages: [
-        {
-          role: "system",
-          content: "You are an expert at analyzing conversational AI responses and providing constructive feedback for improvement."
-        },
-        {
-          role: "user",
-          content: prompt
-        }
-      ],
+    const { text } = await generateText({
+      model: getLanguageModel('summarize'),
+      system: "You are an expert at analyzing conversational AI responses and providing constructive feedback for improvement.",
+      prompt,
       temperature: 0.7,
-      max_tokens: 1000
+      maxTokens: 1000
     });
 
     return NextResponse.json({
       status: 'success',
-      analysis: completion.choices[0].message.content
+      analysis: text
     });
 
   } catch (error: any) {
@@ -38,4 +29,4 @@ export async function POST(request: Request) {
       message: error.message
     }, { status: 500 });
   }
-}
+}));
@@ -0,0 +1,51 @@
+// app/api/auth/login/route.ts
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authenticate, createSession, setSessionCookie } from '@/lib/auth';
+
+const loginSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(1)
+});
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { email, password } = loginSchema.parse(body);
+
+    const user = await authenticate(email, password);
+    if (!user) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Invalid email or password'
+      }, { status: 401 });
+    }
+
+    const session = await createSession(user.id);
+
+    const response = NextResponse.json({
+      status: 'success',
+      user,
+      token: session.token,
+      expiresAt: session.expiresAt.toISOString()
+    });
+    setSessionCookie(response, session);
+
+    return response;
+  } catch (error) {
+    console.error('Error in POST /api/auth/login:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Invalid request format',
+        details: error.errors
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      status: 'error',
+      message: 'Failed to sign in'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,23 @@
+// app/api/auth/logout/route.ts
+import { NextResponse } from 'next/server';
+import { clearSessionCookie, deleteSession, getRequestToken } from '@/lib/auth';
+
+export async function POST(request: Request) {
+  try {
+    const token = getRequestToken(request);
+    if (token) {
+      await deleteSession(token);
+    }
+
+    const response = NextResponse.json({ status: 'success', message: 'Signed out' });
+    clearSessionCookie(response);
+
+    return response;
+  } catch (error) {
+    console.error('Error in POST /api/auth/logout:', error);
+    return NextResponse.json({
+      status: 'error',
+      message: 'Failed to sign out'
+    }, { status: 500 });
+  }
+}
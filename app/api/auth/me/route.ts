@@ -0,0 +1,7 @@
+// app/api/auth/me/route.ts
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+
+export const GET = withAuth(async (request, user) => {
+  return NextResponse.json({ status: 'success', user });
+});
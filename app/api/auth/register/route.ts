@@ -0,0 +1,52 @@
+// app/api/auth/register/route.ts
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createSession, createUser, setSessionCookie } from '@/lib/auth';
+
+const registerSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(8, 'Password must be at least 8 characters'),
+  name: z.string().trim().max(100).optional()
+});
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { email, password, name } = registerSchema.parse(body);
+
+    const user = await createUser(email, password, name);
+    const session = await createSession(user.id);
+
+    const response = NextResponse.json({
+      status: 'success',
+      user,
+      token: session.token,
+      expiresAt: session.expiresAt.toISOString()
+    }, { status: 201 });
+    setSessionCookie(response, session);
+
+    return response;
+  } catch (error: any) {
+    console.error('Error in POST /api/auth/register:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Invalid request format',
+        details: error.errors
+      }, { status: 400 });
+    }
+
+    if (error.code === '23505') {
+      return NextResponse.json({
+        status: 'error',
+        message: 'An account with this email already exists'
+      }, { status: 409 });
+    }
+
+    return NextResponse.json({
+      status: 'error',
+      message: 'Failed to create account'
+    }, { status: 500 });
+  }
+}
@@ -1,7 +1,12 @@
 // app/api/calculator/route.ts
 import { NextResponse } from 'next/server';
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import { generateText, streamText, type CoreMessage } from 'ai';
 import { z } from 'zod';
+import { generateJson, getLanguageModel } from '@/lib/ai';
+import { withAuth } from '@/lib/auth';
+import { createMeal, mealFromAnalysis, thumbnailSchema } from '@/lib/meals';
+import { FOOD_ANALYSIS_JSON_PROMPT, FoodAnalysis, foodAnalysisSchema } from '@/lib/nutrition';
+import { withRateLimit } from '@/lib/rate-limit';
 
 // Analysis prompt for food image processing
 const ANALYSIS_PROMPT = `Analyze this food image and provide a comprehensive nutritional analysis:
@@ -71,11 +76,6 @@ Category: No Known Concern
 Alert: No meaningful interactions or concerns with this meal and medication. 
 `;
 
-// Initialize Gemini Pro Vision
-
-const genAI = new GoogleGenerativeAI(process.env.GOOGLE_API_KEY || '');
-const model = genAI.getGenerativeModel({ model: "gemini-1.5-flash-latest" });
-
 // Request validation schema
 const requestSchema = z.object({
   messages: z.array(
@@ -104,6 +104,7 @@ const requestSchema = z.object({
 const analysisRequestSchema = z.object({
   type: z.literal('analysis_request'),
   image: z.string(),
+  thumbnail: thumbnailSchema.optional(),
   medications: z.array(
     z.object({
       name: z.string(),
@@ -115,6 +116,8 @@ const analysisRequestSchema = z.object({
   ).optional()
 });
 
+type AnalysisMedication = NonNullable<z.infer<typeof analysisRequestSchema>['medications']>[number];
+
 function extractImageData(base64Url: string) {
   // Remove data URL prefix if present
   const base64Data = base64Url.replace(/^data:image\/\w+;base64,/, '');
@@ -122,7 +125,75 @@ function extractImageData(base64Url: string) {
   return new Uint8Array(Buffer.from(base64Data, 'base64'));
 }
 
-export async function POST(request: Request) {
+function imageMessage(prompt: string, image: Uint8Array): CoreMessage {
+  return {
+    role: 'user',
+    content: [
+      { type: 'text', text: prompt },
+      { type: 'image', image, mimeType: 'image/jpeg' }
+    ]
+  };
+}
+
+// Streamed vision model text; provider errors are rethrown instead of ending the stream quietly
+async function* streamVisionText(messages: CoreMessage[]) {
+  const { fullStream } = streamText({ model: getLanguageModel('vision'), messages });
+  for await (const part of fullStream) {
+    if (part.type === 'text-delta') yield part.textDelta;
+    if (part.type === 'error') throw part.error;
+  }
+}
+
+// Structured breakdown validated against foodAnalysisSchema; null when the model output does not fit
+async function analyzeStructured(image: Uint8Array): Promise<FoodAnalysis | null> {
+  try {
+    const result = await generateJson('vision', {
+      messages: [imageMessage(FOOD_ANALYSIS_JSON_PROMPT, image)]
+    });
+
+    const parsed = foodAnalysisSchema.safeParse(result);
+    if (!parsed.success) {
+      console.error('Structured food analysis did not match schema:', parsed.error.errors);
+      return null;
+    }
+    return parsed.data;
+  } catch (error) {
+    console.error('Error in structured food analysis:', error);
+    return null;
+  }
+}
+
+// Every structured analysis goes into the user's meal diary; a failed save does not fail the analysis
+async function saveMeal(userId: string, structured: FoodAnalysis | null, thumbnail?: string) {
+  if (!structured) return null;
+
+  try {
+    const meal = await createMeal(userId, { ...mealFromAnalysis(structured, 'calculator'), thumbnail });
+    return meal.id;
+  } catch (error) {
+    console.error('Error saving meal to diary:', error);
+    return null;
+  }
+}
+
+// Follow-up request asking for food-medication interactions based on the analysis text
+function buildMedicationAlertRequest(fullAnalysisText: string, medications: AnalysisMedication[]): CoreMessage[] {
+  // Format medications for the prompt
+  const medicationsText = medications.map(med => 
+    `- ${med.name} (${med.dosage}, ${med.frequency}, taken: ${med.timeOfDay.join(', ')})${med.notes ? ` - Notes: ${med.notes}` : ''}`
+  ).join('\n');
+  
+  // Prepare the medication alert prompt
+  const alertPrompt = MEDICATION_ALERT_PROMPT.replace('{{medications}}', medicationsText);
+
+  return [
+    { role: 'user', content: fullAnalysisText },
+    { role: 'assistant', content: fullAnalysisText },
+    { role: 'user', content: alertPrompt }
+  ];
+}
+
+export const POST = withAuth(withRateLimit('image', async (request, user) => {
   try {
     const body = await request.json();
     const validatedData = requestSchema.parse(body);
@@ -149,67 +220,92 @@ export async function POST(request: Request) {
     // Extract and prepare the image data
     const imageBytes = extractImageData(imageData);
 
-    // Generate food analysis content
-    const result = await model.generateContent({
-      contents: [{
-        role: "user",
-        parts: [
-          { text: ANALYSIS_PROMPT },
-          {
-            inlineData: {
-              mimeType: "image/jpeg",
-              data: Buffer.from(imageBytes).toString('base64')
+    const analysisMessages = [imageMessage(ANALYSIS_PROMPT, imageBytes)];
+
+    // Clients that accept SSE get the analysis token by token, then the structured data and medication alert
+    if (request.headers.get('Accept')?.includes('text/event-stream')) {
+      const structuredPromise = analyzeStructured(imageBytes);
+      const encoder = new TextEncoder();
+      const send = (controller: ReadableStreamDefaultController, event: { type: string; content: unknown }) =>
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+
+      const stream = new ReadableStream({
+        async start(controller) {
+          try {
+            let fullAnalysisText = '';
+            for await (const text of streamVisionText(analysisMessages)) {
+              fullAnalysisText += text;
+              send(controller, { type: 'analysis', content: text });
+            }
+
+            const structured = await structuredPromise;
+            if (structured) {
+              send(controller, { type: 'structured', content: structured });
+              const mealId = await saveMeal(user.id, structured, analysisRequest.thumbnail);
+              if (mealId) {
+                send(controller, { type: 'meal', content: { id: mealId } });
+              }
+            }
+
+            if (medications.length > 0) {
+              send(controller, { type: 'separator', content: 'MEDICATION_ALERT_START' });
+              for await (const text of streamVisionText(buildMedicationAlertRequest(fullAnalysisText, medications))) {
+                send(controller, { type: 'medication_alert', content: text });
+              }
+              send(controller, { type: 'separator', content: 'MEDICATION_ALERT_END' });
             }
+
+            controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+          } catch (error) {
+            console.error('Error streaming calculator analysis:', error);
+            send(controller, {
+              type: 'error',
+              content: error instanceof Error ? error.message : 'An unknown error occurred'
+            });
+          } finally {
+            controller.close();
           }
-        ]
-      }]
-    });
+        }
+      });
+
+      return new Response(stream, {
+        headers: {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          'Connection': 'keep-alive'
+        }
+      });
+    }
+
+    // Generate the prose analysis and the structured breakdown in parallel
+    const [result, structured] = await Promise.all([
+      generateText({ model: getLanguageModel('vision'), messages: analysisMessages }),
+      analyzeStructured(imageBytes)
+    ]);
 
     // Get the full food analysis text
-    const fullAnalysisText = result.response.text();
+    const fullAnalysisText = result.text;
     
     // Prepare response object
     const responseData = {
+      status: 'success',
       analysis: fullAnalysisText,
+      category: structured?.category ?? null,
+      confidence: structured?.confidence ?? null,
+      itemsIdentified: structured?.itemsIdentified ?? [],
+      servingSize: structured?.servingSize ?? null,
+      nutrition: structured?.nutrition ?? null,
+      mealId: await saveMeal(user.id, structured, analysisRequest.thumbnail),
       medication_alert: null as string | null
     };
 
     // Check if we need to generate medication alerts
-    if (medications && medications.length > 0) {
-      // Format medications for the prompt
-      const medicationsText = medications.map(med => 
-        `- ${med.name} (${med.dosage}, ${med.frequency}, taken: ${med.timeOfDay.join(', ')})${med.notes ? ` - Notes: ${med.notes}` : ''}`
-      ).join('\n');
-      
-      // Prepare the medication alert prompt
-      const alertPrompt = MEDICATION_ALERT_PROMPT.replace('{{medications}}', medicationsText);
-      
-      // Generate medication alert
-      const alertResult = await model.generateContent({
-        contents: [
-          {
-            role: "user",
-            parts: [
-              { text: fullAnalysisText }
-            ]
-          },
-          {
-            role: "assistant",
-            parts: [
-              { text: fullAnalysisText }
-            ]
-          },
-          {
-            role: "user",
-            parts: [
-              { text: alertPrompt }
-            ]
-          }
-        ]
+    if (medications.length > 0) {
+      const alertResult = await generateText({
+        model: getLanguageModel('vision'),
+        messages: buildMedicationAlertRequest(fullAnalysisText, medications)
       });
-      
-      const medicationAlertText = alertResult.response.text();
-      responseData.medication_alert = medicationAlertText;
+      responseData.medication_alert = alertResult.text;
     }
 
     // Return the complete response
@@ -232,16 +328,5 @@ export async function POST(request: Request) {
       timestamp: new Date().toISOString()
     }, { status: 500 });
   }
-}
+}));
 
-// Support OPTIONS for CORS preflight
-export async function OPTIONS(request: Request) {
-  return new NextResponse(null, {
-    status: 204,
-    headers: {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type',
-    },
-  });
-}
@@ -1,10 +1,16 @@
 // app/api/chat/route.ts
-import { openai } from '@ai-sdk/openai';
-import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
-import { streamText } from 'ai';
+import { createDataStreamResponse, formatDataStreamPart, generateText, streamText } from 'ai';
 import { NextResponse } from 'next/server';
 import { z } from 'zod';
-import OpenAI from 'openai';
+import { generateJson, getLanguageModel } from '@/lib/ai';
+import { withAuth } from '@/lib/auth';
+import { validateCitations } from '@/lib/citations';
+import { describeLabelExcerpts, labelCitations, retrieveLabelExcerpts, type LabelExcerpt } from '@/lib/drug-labels';
+import { describeMemories, searchMemories, storeMemory } from '@/lib/memory';
+import type { SearchResult } from '@/lib/perplexity';
+import { withRateLimit } from '@/lib/rate-limit';
+import { describeTitrationPlans, listTitrationPlans } from '@/lib/titration';
+import { detectRedFlags, emergencyGuidance, recordTriageEvent, type TriageCategory } from '@/lib/triage';
 
 export const maxDuration = 60;
 
@@ -13,19 +19,13 @@ enum MessageType {
   GREETING = 'GREETING',
   GLP1 = 'GLP1',
   GENERAL_MEDICATION = 'GENERAL_MEDICATION',
-  UNRELATED = 'UNRELATED'
+  UNRELATED = 'UNRELATED',
+  URGENT = 'URGENT'
 }
 
-// Initialize OpenAI client for relevance checking
-const openaiClient = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY
-});
-
-// Initialize Perplexity client
-const perplexity = createOpenAICompatible({
-  name: 'perplexity',
-  apiKey: process.env.PPLX_API_KEY,
-  baseURL: 'https://api.perplexity.ai/',
+const rewriteSchema = z.object({
+  rewritten_query: z.string().min(1),
+  title: z.string().min(1)
 });
 
 // Request validation schema
@@ -38,7 +38,8 @@ const requestSchema = z.object({
   ),
   data: z.object({
     persona: z.enum(['general_med', 'glp1']),
-    includeHistory: z.boolean().default(true)
+    includeHistory: z.boolean().default(true),
+    includeMemory: z.boolean().default(true)
   })
 });
 
@@ -193,33 +194,20 @@ Query: "can i drink alcohol while taking glp1"
     "title": "GLP-1 and Alcohol Interaction"}`;
 
 // Function to rewrite query
-async function rewriteQuery(query: string): Promise<{ rewritten_query: string; title: string }> {
+// previousQuery lets follow-ups like "what about the dose?" keep their subject
+async function rewriteQuery(query: string, previousQuery?: string): Promise<{ rewritten_query: string; title: string }> {
   try {
-    const response = await openaiClient.chat.completions.create({
-      model: "gpt-4o-mini",
+    const result = await generateJson('classify', {
+      system: REWRITE_PROMPT,
       messages: [
-        { role: "system", content: REWRITE_PROMPT },
-        { role: "user", content: query }
+        { role: 'user', content: previousQuery ? `Previous question: ${previousQuery}\nQuery: ${query}` : query }
       ],
       temperature: 0.7,
-      max_tokens: 150
+      maxTokens: 150
     });
 
-    const content = response.choices[0].message?.content;
-    
-    // Check if content exists
-    if (!content) {
-      throw new Error("No content in response");
-    }
-
-    const result = JSON.parse(content);
-
     // Validate the result has required fields
-    if (!result.rewritten_query || !result.title) {
-      throw new Error("Invalid response format");
-    }
-
-    return result;
+    return rewriteSchema.parse(result);
   } catch (error) {
     console.error('Error in rewrite_query:', error);
     return {
@@ -232,31 +220,26 @@ async function rewriteQuery(query: string): Promise<{ rewritten_query: string; t
 // Direct relevance checking function using OpenAI
 async function checkMessageRelevance(message: string): Promise<MessageType> {
   try {
-    const response = await openaiClient.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages: [
-        {
-          role: "system",
-          content: "You are a message classifier. Respond only with GREETING, GLP1, GENERAL_MEDICATION, or UNRELATED."
-        },
-        {
-          role: "user",
-          content: `Given the following message, determine if it is:
-            1. A greeting or farewell (e.g., "hello", "thanks", "goodbye")
-            2. A GLP-1 medication related query
-            3. A general medication related query
-            4. An unrelated query
+    const response = await generateText({
+      model: getLanguageModel('classify'),
+      system: "You are a message classifier. Respond only with URGENT, GREETING, GLP1, GENERAL_MEDICATION, or UNRELATED.",
+      prompt: `Given the following message, determine if it is:
+            1. Urgent: describes symptoms or a situation that may need emergency care now (e.g., severe abdominal pain, signs of low blood sugar, an overdose, trouble breathing, thoughts of self-harm)
+            2. A greeting or farewell (e.g., "hello", "thanks", "goodbye")
+            3. A GLP-1 medication related query
+            4. A general medication related query
+            5. An unrelated query
             Message: ${message}
-            Response (GREETING, GLP1, GENERAL_MEDICATION, or UNRELATED):`
-        }
-      ],
+            Response (URGENT, GREETING, GLP1, GENERAL_MEDICATION, or UNRELATED):`,
       temperature: 0,
-      max_tokens: 10,
+      maxTokens: 10,
     });
 
-    const messageType = response.choices[0].message?.content?.trim().toUpperCase() || 'UNRELATED';
+    const messageType = response.text.trim().toUpperCase() || 'UNRELATED';
     
     switch (messageType) {
+      case 'URGENT':
+        return MessageType.URGENT;
       case 'GREETING':
         return MessageType.GREETING;
       case 'GLP1':
@@ -272,7 +255,27 @@ async function checkMessageRelevance(message: string): Promise<MessageType> {
   }
 }
 
-export async function POST(request: Request) {
+// Fixed emergency guidance in place of a model answer; the event is recorded for clinical review
+async function urgentResponse(userId: string, category: TriageCategory, detectedBy: 'rules' | 'model', message: string, persona: string) {
+  console.log('- Urgent message:', category, `(detected by ${detectedBy})`);
+
+  try {
+    await recordTriageEvent(userId, { category, detectedBy, message, persona });
+  } catch (error) {
+    // Never hold back the guidance because the audit write failed
+    console.error('Error recording triage event:', error);
+  }
+
+  return createDataStreamResponse({
+    execute: (dataStream) => {
+      dataStream.writeData({ type: 'triage', category });
+      dataStream.write(formatDataStreamPart('text', emergencyGuidance(category)));
+      dataStream.write(formatDataStreamPart('finish_message', { finishReason: 'stop' }));
+    }
+  });
+}
+
+export const POST = withAuth(withRateLimit('chat', async (request, user) => {
   try {
     const body = await request.json();
     
@@ -285,16 +288,34 @@ export async function POST(request: Request) {
     
     // Get the last user message
     const lastUserMessage = messages[messages.length - 1].content;
-    
-    // Message type logging
-    const messageType = await checkMessageRelevance(lastUserMessage);
+    const userTurns = messages.filter(m => m.role === 'user');
+    const isFirstTurn = userTurns.length === 1;
+
+    // Red flags skip the models entirely so the guidance never waits on, or depends on, a provider
+    const redFlag = detectRedFlags(lastUserMessage);
+    if (redFlag) {
+      return urgentResponse(user.id, redFlag, 'rules', lastUserMessage, data.persona);
+    }
+
+    // Classify and rewrite in parallel; the rewrite is ignored for greetings
+    const [messageType, rewrite] = await Promise.all([
+      checkMessageRelevance(lastUserMessage),
+      rewriteQuery(lastUserMessage, userTurns[userTurns.length - 2]?.content)
+    ]);
+    if (messageType === MessageType.URGENT) {
+      return urgentResponse(user.id, 'emergency', 'model', lastUserMessage, data.persona);
+    }
+    const query = messageType === MessageType.GREETING ? lastUserMessage : rewrite.rewritten_query;
+    // Only the opening turn names the conversation
+    const chatTitle = isFirstTurn && messageType !== MessageType.GREETING ? rewrite.title.slice(0, 120) : null;
     console.log('\n2. Message Classification:');
     console.log('- Message type:', messageType);
     console.log('- Selected persona:', data.persona);
+    console.log('- Rewritten query:', query);
 
     // Prepare system prompt based on PERSONA FIRST, then message type
     let systemPrompt: string;
-    let usePerplexity = false;
+    let useAnswerModel = false;
 
     // First check if it's a greeting
     if (messageType === MessageType.GREETING) {
@@ -304,7 +325,7 @@ export async function POST(request: Request) {
     // Then respect the persona choice
     else if (data.persona === 'glp1') {
       systemPrompt = SYSTEM_PROMPTS.glp1;
-      usePerplexity = true;
+      useAnswerModel = true;
       console.log('- Selected prompt: GLP1 (based on persona)');
       
       // If the message is unrelated to medications, we'll still use GLP1 prompt
@@ -312,7 +333,7 @@ export async function POST(request: Request) {
     } 
     else if (data.persona === 'general_med') {
       systemPrompt = SYSTEM_PROMPTS.general_med;
-      usePerplexity = true;
+      useAnswerModel = true;
       console.log('- Selected prompt: GENERAL_MED (based on persona)');
       
       // If the message is unrelated to medications, we'll still use GENERAL_MED prompt
@@ -324,9 +345,50 @@ export async function POST(request: Request) {
       console.log('- Selected prompt: DEFAULT');
     }
 
+    // Give the assistant the user's current GLP-1 dose step when they have an active plan
+    if (messageType !== MessageType.GREETING) {
+      try {
+        const titrationContext = describeTitrationPlans(await listTitrationPlans(user.id, { activeOnly: true }));
+        if (titrationContext) {
+          systemPrompt += `\n\nUSER'S GLP-1 TITRATION PLAN (from their saved schedule; use when relevant):\n${titrationContext}`;
+        }
+      } catch (error) {
+        console.error('Error loading titration context:', error);
+      }
+    }
+
+    // Remind the assistant of related questions this user asked before, then remember this one
+    if (data.includeMemory && messageType !== MessageType.GREETING && messageType !== MessageType.UNRELATED) {
+      try {
+        const memoryContext = describeMemories(await searchMemories(user.id, query));
+        if (memoryContext) {
+          systemPrompt += `\n\nWHAT THIS PATIENT ASKED BEFORE (summaries of related past questions; use for continuity, do not repeat them back):\n${memoryContext}`;
+        }
+      } catch (error) {
+        console.error('Error loading memory context:', error);
+      }
+
+      storeMemory(user.id, lastUserMessage).catch((error) => {
+        console.error('Error storing memory:', error);
+      });
+    }
+
+    // Ground general medication answers in the FDA label of any drug the question names
+    let labelExcerpts: LabelExcerpt[] = [];
+    if (data.persona === 'general_med' && useAnswerModel && messageType !== MessageType.UNRELATED) {
+      try {
+        labelExcerpts = await retrieveLabelExcerpts(query);
+        if (labelExcerpts.length > 0) {
+          systemPrompt += `\n\nFDA LABEL EXCERPTS (official prescribing information; prefer these over web results for indications, dosing, warnings, side effects and interactions, and cite each one you use by its label marker, e.g. [L1], without renumbering it):\n${describeLabelExcerpts(labelExcerpts)}`;
+        }
+      } catch (error) {
+        console.error('Error loading FDA label context:', error);
+      }
+    }
+
     // Final configuration logging
     console.log('\n3. Final Configuration:');
-    console.log('- Using Perplexity:', usePerplexity);
+    console.log('- Using answer model:', useAnswerModel);
     console.log('- Final persona:', data.persona);
     console.log('- System prompt length:', systemPrompt.length);
     console.log('=== END REQUEST PROCESSING ===\n');
@@ -337,13 +399,18 @@ export async function POST(request: Request) {
         role: 'system' as const,
         content: systemPrompt
       },
-      ...(data.includeHistory ? messages : [messages[messages.length - 1]])
+      ...(data.includeHistory ? messages.slice(0, -1) : []),
+      // The model answers the rewritten question
+      { role: 'user' as const, content: query }
     ];
 
-    // Create streaming response
-    const result = usePerplexity ? 
+    // Pages the answer provider actually searched, when it reports them
+    let searchResults: SearchResult[] = [];
+
+    // Create streaming response; greetings get a quick reply from the small classification model
+    const result = useAnswerModel ? 
       streamText({
-        model: perplexity(process.env.PPLX_MODEL || ''),
+        model: getLanguageModel('answer', { onSearchResults: (results) => { searchResults = results; } }),
         messages: apiMessages.map(msg => ({
           ...msg,
           content: msg.content.replace(/<\/?think>/g, '') // Clean think tags from messages
@@ -352,7 +419,7 @@ export async function POST(request: Request) {
         maxTokens: 2000
       }) :
       streamText({
-        model: openai('gpt-4o-mini'),
+        model: getLanguageModel('classify'),
         messages: apiMessages.map(msg => ({
           ...msg,
           content: msg.content.replace(/<\/?think>/g, '') // Clean think tags from messages
@@ -361,8 +428,38 @@ export async function POST(request: Request) {
         maxTokens: 1000
       });
 
-    // Convert to Response and add metadata in headers
-    const streamResponse = result.toDataStreamResponse();
+    // Convert to Response; the title is also sent as stream data for clients that cannot read headers
+    const streamResponse = createDataStreamResponse({
+      execute: async (dataStream) => {
+        if (chatTitle) {
+          dataStream.writeData({ type: 'title', title: chatTitle });
+        }
+        if (!useAnswerModel) {
+          result.mergeIntoDataStream(dataStream);
+          return;
+        }
+
+        // Answers finish with their checked sources attached, so the finish part is sent after the annotation
+        result.mergeIntoDataStream(dataStream, { experimental_sendFinish: false });
+        const report = validateCitations(await result.text, {
+          retrieved: searchResults.map((source, index) => ({ ref: String(index + 1), ...source })),
+          labels: labelCitations(labelExcerpts)
+        });
+        if (report.unsupported.length > 0 || report.rejected.length > 0) {
+          console.log('- Dropped citations:', {
+            unsupported: report.unsupported,
+            rejected: report.rejected.map(source => source.url)
+          });
+        }
+        dataStream.writeMessageAnnotation({
+          type: 'sources',
+          // Spread into plain objects, which the JSON annotation type accepts where interfaces are not
+          sources: report.sources.map(source => ({ ...source })),
+          unsupported: report.unsupported
+        });
+        dataStream.write(formatDataStreamPart('finish_message', { finishReason: await result.finishReason }));
+      }
+    });
     const responseWithMetadata = new Response(
       new ReadableStream({
         async start(controller) {
@@ -389,7 +486,8 @@ export async function POST(request: Request) {
       {
         headers: {
           ...Object.fromEntries(streamResponse.headers),
-          'X-Chat-Title': systemPrompt.length > 10 ? systemPrompt.slice(0, 10) + '...' : systemPrompt,
+          // Encoded because header values must be ASCII-safe
+          ...(chatTitle ? { 'X-Chat-Title': encodeURIComponent(chatTitle) } : {}),
           'Content-Type': 'text/event-stream',
           'Cache-Control': 'no-cache',
           'Connection': 'keep-alive',
@@ -411,4 +509,4 @@ export async function POST(request: Request) {
       details: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 });
   }
-}
+}));
@@ -0,0 +1,49 @@
+// app/api/conversations/[id]/messages/route.ts
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withAuth } from '@/lib/auth';
+import { appendMessages, appendMessagesSchema } from '@/lib/conversations';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const idSchema = z.string().uuid();
+
+export const POST = withAuth<RouteContext>(async (request, user, { params }) => {
+  try {
+    const { id } = await params;
+    if (!idSchema.safeParse(id).success) {
+      return NextResponse.json(
+        { status: 'error', message: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const { messages } = appendMessagesSchema.parse(body);
+
+    const conversation = await appendMessages(user.id, id, messages);
+    if (!conversation) {
+      return NextResponse.json(
+        { status: 'error', message: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ status: 'success', conversation }, { status: 201 });
+  } catch (error) {
+    console.error('Error in POST /api/conversations/[id]/messages:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Invalid request format',
+        details: error.errors
+      }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { status: 'error', message: 'Failed to save messages' },
+      { status: 500 }
+    );
+  }
+});
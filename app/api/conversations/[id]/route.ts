@@ -0,0 +1,98 @@
+// app/api/conversations/[id]/route.ts
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withAuth } from '@/lib/auth';
+import {
+  conversationUpdateSchema,
+  deleteConversation,
+  getConversation,
+  updateConversation
+} from '@/lib/conversations';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const idSchema = z.string().uuid();
+
+export const GET = withAuth<RouteContext>(async (request, user, { params }) => {
+  try {
+    const { id } = await params;
+    const conversation = idSchema.safeParse(id).success ? await getConversation(user.id, id) : null;
+
+    if (!conversation) {
+      return NextResponse.json(
+        { status: 'error', message: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ status: 'success', conversation });
+  } catch (error) {
+    console.error('Error in GET /api/conversations/[id]:', error);
+    return NextResponse.json(
+      { status: 'error', message: 'Failed to load conversation' },
+      { status: 500 }
+    );
+  }
+});
+
+export const PATCH = withAuth<RouteContext>(async (request, user, { params }) => {
+  try {
+    const { id } = await params;
+    if (!idSchema.safeParse(id).success) {
+      return NextResponse.json(
+        { status: 'error', message: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const changes = conversationUpdateSchema.parse(body);
+
+    const conversation = await updateConversation(user.id, id, changes);
+    if (!conversation) {
+      return NextResponse.json(
+        { status: 'error', message: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ status: 'success', conversation });
+  } catch (error) {
+    console.error('Error in PATCH /api/conversations/[id]:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Invalid request format',
+        details: error.errors
+      }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { status: 'error', message: 'Failed to update conversation' },
+      { status: 500 }
+    );
+  }
+});
+
+export const DELETE = withAuth<RouteContext>(async (request, user, { params }) => {
+  try {
+    const { id } = await params;
+    const deleted = idSchema.safeParse(id).success && await deleteConversation(user.id, id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { status: 'error', message: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ status: 'success', message: 'Conversation deleted' });
+  } catch (error) {
+    console.error('Error in DELETE /api/conversations/[id]:', error);
+    return NextResponse.json(
+      { status: 'error', message: 'Failed to delete conversation' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,45 @@
+// app/api/conversations/route.ts
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withAuth } from '@/lib/auth';
+import { conversationSchema, createConversation, listConversations } from '@/lib/conversations';
+
+export const GET = withAuth(async (request, user) => {
+  try {
+    const conversations = await listConversations(user.id);
+
+    return NextResponse.json({ status: 'success', conversations });
+  } catch (error) {
+    console.error('Error in GET /api/conversations:', error);
+    return NextResponse.json(
+      { status: 'error', message: 'Failed to load conversations' },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = withAuth(async (request, user) => {
+  try {
+    const body = await request.json();
+    const input = conversationSchema.parse(body);
+
+    const conversation = await createConversation(user.id, input);
+
+    return NextResponse.json({ status: 'success', conversation }, { status: 201 });
+  } catch (error) {
+    console.error('Error in POST /api/conversations:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Invalid request format',
+        details: error.errors
+      }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { status: 'error', message: 'Failed to create conversation' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,70 @@
+// app/api/doses/adherence/route.ts
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withAuth } from '@/lib/auth';
+import { computeAdherence, listDoseLogs } from '@/lib/doses';
+import { listMedications } from '@/lib/medications';
+import { generateDoseEvents } from '@/lib/schedule';
+
+const querySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(30),
+  offset: z.coerce.number().int().min(-840).max(840).default(0)
+});
+
+export const GET = withAuth(async (request, user) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { days, offset } = querySchema.parse({
+      days: searchParams.get('days') ?? undefined,
+      offset: searchParams.get('offset') ?? undefined
+    });
+
+    const to = new Date();
+    const from = new Date(to.getTime() - days * 24 * 60 * 60 * 1000);
+
+    const [medications, logs] = await Promise.all([
+      listMedications(user.id),
+      listDoseLogs(user.id, { from, to, margin: true })
+    ]);
+
+    const medicationAdherence = computeAdherence(generateDoseEvents(medications, from, to, offset), logs, to);
+
+    // Totals across all medications
+    const expected = medicationAdherence.reduce((sum, m) => sum + m.expected, 0);
+    const taken = medicationAdherence.reduce((sum, m) => sum + m.taken, 0);
+    const missedBySlot: Record<string, number> = {};
+    for (const m of medicationAdherence) {
+      for (const [slot, count] of Object.entries(m.missedBySlot)) {
+        missedBySlot[slot] = (missedBySlot[slot] || 0) + count;
+      }
+    }
+
+    return NextResponse.json({
+      status: 'success',
+      from: from.toISOString(),
+      to: to.toISOString(),
+      overall: {
+        expected,
+        taken,
+        adherenceRate: expected > 0 ? Math.round((taken / expected) * 1000) / 10 : null,
+        missedBySlot
+      },
+      medications: medicationAdherence
+    });
+  } catch (error) {
+    console.error('Error in GET /api/doses/adherence:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Invalid request format',
+        details: error.errors
+      }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { status: 'error', message: 'Failed to compute adherence' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,86 @@
+// app/api/doses/route.ts
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withAuth } from '@/lib/auth';
+import { DOSE_ACTIONS, listDoseLogs, logDose } from '@/lib/doses';
+
+const historySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  medicationId: z.string().uuid().optional()
+});
+
+const doseActionSchema = z.object({
+  medicationId: z.string().uuid(),
+  scheduledAt: z.coerce.date(),
+  action: z.enum(DOSE_ACTIONS),
+  takenAt: z.coerce.date().optional(),
+  snoozeMinutes: z.number().int().min(5).max(240).optional(),
+  note: z.string().max(500).optional()
+});
+
+export const GET = withAuth(async (request, user) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = historySchema.parse({
+      from: searchParams.get('from') ?? undefined,
+      to: searchParams.get('to') ?? undefined,
+      medicationId: searchParams.get('medicationId') ?? undefined
+    });
+
+    // Default to the last 30 days
+    const to = query.to ?? new Date();
+    const from = query.from ?? new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+    const doses = await listDoseLogs(user.id, { from, to, medicationId: query.medicationId });
+
+    return NextResponse.json({ status: 'success', doses });
+  } catch (error) {
+    console.error('Error in GET /api/doses:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Invalid request format',
+        details: error.errors
+      }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { status: 'error', message: 'Failed to load dose history' },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = withAuth(async (request, user) => {
+  try {
+    const body = await request.json();
+    const input = doseActionSchema.parse(body);
+
+    const dose = await logDose(user.id, input);
+    if (!dose) {
+      return NextResponse.json(
+        { status: 'error', message: 'Medication not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ status: 'success', dose });
+  } catch (error) {
+    console.error('Error in POST /api/doses:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Invalid request format',
+        details: error.errors
+      }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { status: 'error', message: 'Failed to log dose' },
+      { status: 500 }
+    );
+  }
+});
@@ -1,17 +1,10 @@
 import { NextResponse } from 'next/server';
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { z } from 'zod';
-
-// Initialize Gemini Pro Vision
-const genAI = new GoogleGenerativeAI(process.env.GOOGLE_API_KEY || '');
-const model = genAI.getGenerativeModel({ model: "gemini-1.5-flash-latest" });
-
-// CORS headers configuration
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Methods': 'POST, OPTIONS',
-  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-};
+import { generateText, type CoreMessage } from 'ai';
+import { generateJson, getLanguageModel } from '@/lib/ai';
+import { withAuth } from '@/lib/auth';
+import { createMeal, mealFromAnalysis, thumbnailSchema } from '@/lib/meals';
+import { MEAL_INTAKE_JSON_PROMPT, mealIntakeSchema } from '@/lib/nutrition';
+import { withRateLimit } from '@/lib/rate-limit';
 
 // System prompt for food analysis with user-friendly format
 const FOOD_ANALYSIS_PROMPT = `You are a helpful assistant that summarizes meal analysis results in a friendly, user-focused tone. Your goal is to avoid technical jargon and make the summary feel natural and easy to understand.
@@ -47,45 +40,69 @@ Present your response in this exact format:
 • Overall: [positive, encouraging summary of nutritional balance]`;
 
 
-export async function OPTIONS() {
-  return NextResponse.json({}, { headers: corsHeaders });
+// Prompt followed by the before and after photos
+function photoMessages(prompt: string, beforeImage: Uint8Array, afterImage: Uint8Array): CoreMessage[] {
+  return [{
+    role: 'user',
+    content: [
+      { type: 'text', text: prompt },
+      { type: 'image', image: beforeImage, mimeType: 'image/jpeg' },
+      { type: 'image', image: afterImage, mimeType: 'image/jpeg' }
+    ]
+  }];
+}
+
+// Portion eaten and the full-plate breakdown, saved to the meal diary; null when the photos don't validate
+async function logMealIntake(userId: string, beforeImageData: Uint8Array, afterImageData: Uint8Array, thumbnail?: string) {
+  try {
+    const result = await generateJson('vision', {
+      messages: photoMessages(MEAL_INTAKE_JSON_PROMPT, beforeImageData, afterImageData)
+    });
+    const parsed = mealIntakeSchema.safeParse(result);
+    if (!parsed.success) {
+      console.error('Meal intake analysis did not match schema:', parsed.error.errors);
+      return null;
+    }
+    if (!parsed.data.sameMeal) return null;
+
+    const meal = await createMeal(userId, {
+      ...mealFromAnalysis(parsed.data.meal, 'before_after'),
+      portionConsumed: parsed.data.portionConsumed,
+      thumbnail
+    });
+    return meal;
+  } catch (error) {
+    console.error('Error logging meal intake:', error);
+    return null;
+  }
 }
 
-export async function POST(request: Request) {
+export const POST = withAuth(withRateLimit('image', async (request, user) => {
   try {
     const contentType = request.headers.get('content-type') || '';
     
-    let beforeImageData, afterImageData;
+    let beforeImageData: Uint8Array, afterImageData: Uint8Array;
+    let thumbnail: string | undefined;
     
     if (contentType.includes('multipart/form-data')) {
       // Handle form data (web uploads)
       const formData = await request.formData();
       const beforeImage = formData.get('beforeImage') as File;
       const afterImage = formData.get('afterImage') as File;
+      const thumbnailField = formData.get('thumbnail');
+      thumbnail = typeof thumbnailField === 'string' && thumbnailSchema.safeParse(thumbnailField).success
+        ? thumbnailField
+        : undefined;
 
       if (!beforeImage || !afterImage) {
         return NextResponse.json(
           { success: false, error: 'Both before and after images are required' },
-          { status: 400, headers: corsHeaders }
+          { status: 400 }
         );
       }
 
-      const beforeBuffer = Buffer.from(await beforeImage.arrayBuffer());
-      const afterBuffer = Buffer.from(await afterImage.arrayBuffer());
-
-      beforeImageData = {
-        inlineData: {
-          data: beforeBuffer.toString('base64'),
-          mimeType: "image/jpeg"
-        }
-      };
-
-      afterImageData = {
-        inlineData: {
-          data: afterBuffer.toString('base64'),
-          mimeType: "image/jpeg"
-        }
-      };
+      beforeImageData = new Uint8Array(await beforeImage.arrayBuffer());
+      afterImageData = new Uint8Array(await afterImage.arrayBuffer());
     } else {
       // Handle JSON payload (mobile app)
       const body = await request.json();
@@ -93,40 +110,33 @@ export async function POST(request: Request) {
       if (!body.beforeImage || !body.afterImage) {
         return NextResponse.json(
           { success: false, error: 'Both before and after images are required' },
-          { status: 400, headers: corsHeaders }
+          { status: 400 }
         );
       }
 
+      thumbnail = thumbnailSchema.safeParse(body.thumbnail).success ? body.thumbnail : undefined;
+
       // Expect base64 strings from mobile
-      beforeImageData = {
-        inlineData: {
-          data: body.beforeImage,
-          mimeType: "image/jpeg"
-        }
-      };
-
-      afterImageData = {
-        inlineData: {
-          data: body.afterImage,
-          mimeType: "image/jpeg"
-        }
-      };
+      beforeImageData = new Uint8Array(Buffer.from(body.beforeImage, 'base64'));
+      afterImageData = new Uint8Array(Buffer.from(body.afterImage, 'base64'));
     }
 
-    // Call Gemini for analysis
-    const result = await model.generateContent([
-      FOOD_ANALYSIS_PROMPT,
-      beforeImageData,
-      afterImageData
+    // Call the vision model for the summary and the diary entry in parallel
+    const [result, meal] = await Promise.all([
+      generateText({
+        model: getLanguageModel('vision'),
+        messages: photoMessages(FOOD_ANALYSIS_PROMPT, beforeImageData, afterImageData)
+      }),
+      logMealIntake(user.id, beforeImageData, afterImageData, thumbnail)
     ]);
 
-    const response = await result.response;
-    const analysisText = response.text();
+    const analysisText = result.text;
     
     return NextResponse.json({
       success: true,
-      analysis: analysisText
-    }, { headers: corsHeaders });
+      analysis: analysisText,
+      meal
+    });
   } catch (error) {
     console.error('Error in food analysis:', error);
     return NextResponse.json(
@@ -134,7 +144,7 @@ export async function POST(request: Request) {
         success: false, 
         error: error instanceof Error ? error.message : 'An error occurred during food analysis' 
       },
-      { status: 500, headers: corsHeaders }
+      { status: 500 }
     );
   }
-}
+}));
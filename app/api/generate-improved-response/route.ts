@@ -1,37 +1,28 @@
 import { NextResponse } from 'next/server';
-import OpenAI from 'openai';
+import { generateText } from 'ai';
+import { getLanguageModel } from '@/lib/ai';
+import { withAuth } from '@/lib/auth';
+import { withRateLimit } from '@/lib/rate-limit';
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY
-});
-
-export async function POST(request: Request) {
+export const POST = withAuth(withRateLimit('chat', async (request) => {
     try {
       const { originalMessage, analysis } = await request.json();
   
-      const completion = await openai.chat.completions.create({
-        model: "gpt-4o-mini",
-        messages: [
-          {
-            role: "system",
-            content: "You are a medical AI assistant specializing in providing clear, accurate, and helpful responses about GLP-1 medications. Your task is to generate an improved version of a previous response based on feedback analysis."
-          },
-          {
-            role: "user",
-            content: `Original response: "${originalMessage}"
+      const { text } = await generateText({
+        model: getLanguageModel('summarize'),
+        system: "You are a medical AI assistant specializing in providing clear, accurate, and helpful responses about GLP-1 medications. Your task is to generate an improved version of a previous response based on feedback analysis.",
+        prompt: `Original response: "${originalMessage}"
             
   Analysis of issues: "${analysis}"
   
-  Please provide an improved version of this response that addresses the identified issues while maintaining accuracy and helpfulness.`
-          }
-        ],
+  Please provide an improved version of this response that addresses the identified issues while maintaining accuracy and helpfulness.`,
         temperature: 0.7,
-        max_tokens: 1000
+        maxTokens: 1000
       });
   
       return NextResponse.json({
         status: 'success',
-        response: completion.choices[0].message.content
+        response: text
       });
   
     } catch (error: any) {
@@ -41,4 +32,4 @@ export async function POST(request: Request) {
         message: error.message
       }, { status: 500 });
     }
-  }
\ No newline at end of file
+  }));
\ No newline at end of file
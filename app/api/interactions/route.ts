@@ -0,0 +1,173 @@
+// app/api/interactions/route.ts
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { generateJson } from '@/lib/ai';
+import { withAuth } from '@/lib/auth';
+import { listMedications, medicationSchema } from '@/lib/medications';
+import {
+  collectPairEvidence,
+  evidenceFinding,
+  INTERACTION_CATEGORIES,
+  INTERACTION_SEVERITIES,
+  loadLabelContexts,
+  type InteractionFinding,
+  type LabelContext,
+  type MedicationPair
+} from '@/lib/interactions';
+import { withRateLimit } from '@/lib/rate-limit';
+
+// Characters of each label's drug_interactions section passed to the model
+const MAX_LABEL_CONTEXT = 3000;
+// 66 pairs at most, so a full list still fits in a handful of model calls
+const MAX_MEDICATIONS = 12;
+// Pairs summarized per model call; more than this and the JSON can be cut off at maxTokens
+const PAIRS_PER_REQUEST = 6;
+
+const requestSchema = z.object({
+  medications: z.array(medicationSchema).max(MAX_MEDICATIONS).optional()
+});
+
+const summarySchema = z.object({
+  findings: z.array(
+    z.object({
+      drugs: z.tuple([z.string(), z.string()]),
+      category: z.enum(INTERACTION_CATEGORIES),
+      severity: z.enum(INTERACTION_SEVERITIES),
+      alert: z.string(),
+      recommendation: z.string().optional()
+    })
+  )
+});
+
+const INTERACTION_PROMPT = `You review a patient's medication list for drug–drug interactions using excerpts from the official FDA drug labels.
+For EVERY pair of medications listed, return one finding.
+
+Categorize findings using the following:
+Category: ["Direct Interaction", "Efficacy Consideration", "Nutritional Synergy", "No Known Concern"]
+Severity: ["Low", "Moderate", "High"]
+Alert: A two-line summary explaining either the concern or helpful tip
+Recommendation: Optional tip about timing, monitoring, or what to discuss with a doctor or pharmacist
+
+Guidance:
+Base findings on the label excerpts. If the labels say nothing about a pair, use general pharmacology knowledge cautiously and prefer "No Known Concern" with Low severity when no meaningful interaction is known.
+Do not tell the patient to stop a medication; recommend talking to their prescriber or pharmacist instead.
+Speak like a supportive health coach and avoid over-medicalizing.
+
+Respond only with JSON in this exact shape:
+{
+  "findings": [
+    { "drugs": ["Drug A", "Drug B"], "category": "...", "severity": "...", "alert": "...", "recommendation": "..." }
+  ]
+}`;
+
+function formatLabelContext(contexts: LabelContext[], pairs: MedicationPair[]) {
+  const names = new Set(pairs.flatMap(({ drugs }) => drugs));
+  const medicationsText = contexts.filter(({ medication }) => names.has(medication.name)).map(({ medication, interactionsText }) =>
+    `### ${medication.name} (${medication.dosage}, ${medication.frequency})
+Label drug interactions section:
+${interactionsText ? interactionsText.slice(0, MAX_LABEL_CONTEXT) : 'No FDA label interaction section found.'}`
+  ).join('\n\n');
+
+  const pairsText = pairs.map(({ drugs, evidence }) =>
+    `- ${drugs[0]} + ${drugs[1]}: ${evidence.length > 0
+      ? evidence.map(e => `"${e.excerpt}" (${e.label} label)`).join(' ')
+      : 'no direct mention in either label'}`
+  ).join('\n');
+
+  return `Medications:\n\n${medicationsText}\n\nPairs to review:\n${pairsText}`;
+}
+
+function pairKey(drugs: string[]) {
+  return drugs.map(d => d.toLowerCase()).sort().join('|');
+}
+
+// Model findings for one batch of pairs; pairs it leaves out or gets wrong fall back to the label evidence
+async function summarizePairs(contexts: LabelContext[], pairs: MedicationPair[]): Promise<InteractionFinding[]> {
+  let summary: z.infer<typeof summarySchema> | null = null;
+  try {
+    const content = await generateJson('summarize', {
+      system: INTERACTION_PROMPT,
+      messages: [{ role: 'user', content: formatLabelContext(contexts, pairs) }],
+      temperature: 0.2,
+      maxTokens: 1500
+    });
+    const parsed = summarySchema.safeParse(content);
+    if (parsed.success) {
+      summary = parsed.data;
+    } else {
+      console.error('Invalid interaction summary format:', parsed.error.errors);
+    }
+  } catch (error) {
+    console.error('Error summarizing medication interactions:', error);
+  }
+
+  // One finding per pair, with the label excerpts that support it
+  return pairs.map((pair) => {
+    const match = summary?.findings.find(f => pairKey(f.drugs) === pairKey(pair.drugs));
+    if (!match) return evidenceFinding(pair);
+
+    return {
+      drugs: pair.drugs,
+      category: match.category,
+      severity: match.severity,
+      alert: match.alert,
+      recommendation: match.recommendation,
+      evidence: pair.evidence
+    };
+  });
+}
+
+export const POST = withAuth(withRateLimit('chat', async (request, user) => {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { medications: requested } = requestSchema.parse(body);
+
+    // Default to the user's saved medication list
+    const medications = requested ?? await listMedications(user.id);
+
+    if (medications.length > MAX_MEDICATIONS) {
+      return NextResponse.json({
+        status: 'error',
+        message: `Interactions can be checked for up to ${MAX_MEDICATIONS} medications at a time`
+      }, { status: 400 });
+    }
+
+    if (medications.length < 2) {
+      return NextResponse.json({
+        status: 'success',
+        message: 'At least two medications are needed to check interactions',
+        findings: []
+      });
+    }
+
+    const contexts = await loadLabelContexts(medications);
+    const pairs = collectPairEvidence(contexts);
+
+    const batches: MedicationPair[][] = [];
+    for (let i = 0; i < pairs.length; i += PAIRS_PER_REQUEST) {
+      batches.push(pairs.slice(i, i + PAIRS_PER_REQUEST));
+    }
+    const findings = (await Promise.all(batches.map(batch => summarizePairs(contexts, batch)))).flat();
+
+    return NextResponse.json({
+      status: 'success',
+      findings,
+      checkedAt: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error in POST /api/interactions:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Invalid request format',
+        details: error.errors
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      status: 'error',
+      message: 'Failed to check medication interactions'
+    }, { status: 500 });
+  }
+}));
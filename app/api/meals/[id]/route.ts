@@ -0,0 +1,71 @@
+// app/api/meals/[id]/route.ts
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withAuth } from '@/lib/auth';
+import { deleteMeal, mealUpdateSchema, updateMeal } from '@/lib/meals';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const idSchema = z.string().uuid();
+
+export const PATCH = withAuth<RouteContext>(async (request, user, { params }) => {
+  try {
+    const { id } = await params;
+    if (!idSchema.safeParse(id).success) {
+      return NextResponse.json(
+        { status: 'error', message: 'Meal not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const changes = mealUpdateSchema.parse(body);
+
+    const meal = await updateMeal(user.id, id, changes);
+    if (!meal) {
+      return NextResponse.json(
+        { status: 'error', message: 'Meal not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ status: 'success', meal });
+  } catch (error) {
+    console.error('Error in PATCH /api/meals/[id]:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Invalid request format',
+        details: error.errors
+      }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { status: 'error', message: 'Failed to update meal' },
+      { status: 500 }
+    );
+  }
+});
+
+export const DELETE = withAuth<RouteContext>(async (request, user, { params }) => {
+  try {
+    const { id } = await params;
+    const deleted = idSchema.safeParse(id).success && await deleteMeal(user.id, id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { status: 'error', message: 'Meal not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ status: 'success', message: 'Meal deleted' });
+  } catch (error) {
+    console.error('Error in DELETE /api/meals/[id]:', error);
+    return NextResponse.json(
+      { status: 'error', message: 'Failed to delete meal' },
+      { status: 500 }
+    );
+  }
+});
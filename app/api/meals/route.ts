@@ -0,0 +1,73 @@
+// app/api/meals/route.ts
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withAuth } from '@/lib/auth';
+import { createMeal, listMeals, mealSchema, summarizeMeals } from '@/lib/meals';
+
+const querySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  // Same sign convention as Date.getTimezoneOffset()
+  offset: z.coerce.number().int().min(-840).max(840).default(0)
+});
+
+export const GET = withAuth(async (request, user) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = querySchema.parse({
+      from: searchParams.get('from') ?? undefined,
+      to: searchParams.get('to') ?? undefined,
+      offset: searchParams.get('offset') ?? undefined
+    });
+
+    // Default to the last 7 days
+    const to = query.to ?? new Date();
+    const from = query.from ?? new Date(to.getTime() - 7 * 24 * 60 * 60 * 1000);
+
+    const meals = await listMeals(user.id, { from, to });
+    const { daily, weekly } = summarizeMeals(meals, query.offset);
+
+    return NextResponse.json({ status: 'success', meals, daily, weekly });
+  } catch (error) {
+    console.error('Error in GET /api/meals:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Invalid request format',
+        details: error.errors
+      }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { status: 'error', message: 'Failed to load meals' },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = withAuth(async (request, user) => {
+  try {
+    const body = await request.json();
+    const input = mealSchema.parse(body);
+
+    const meal = await createMeal(user.id, input);
+
+    return NextResponse.json({ status: 'success', meal }, { status: 201 });
+  } catch (error) {
+    console.error('Error in POST /api/meals:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Invalid request format',
+        details: error.errors
+      }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { status: 'error', message: 'Failed to save meal' },
+      { status: 500 }
+    );
+  }
+});
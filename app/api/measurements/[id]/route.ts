@@ -0,0 +1,31 @@
+// app/api/measurements/[id]/route.ts
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withAuth } from '@/lib/auth';
+import { deleteMeasurement } from '@/lib/measurements';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const idSchema = z.string().uuid();
+
+export const DELETE = withAuth<RouteContext>(async (request, user, { params }) => {
+  try {
+    const { id } = await params;
+    const deleted = idSchema.safeParse(id).success && await deleteMeasurement(user.id, id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { status: 'error', message: 'Measurement not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ status: 'success', message: 'Measurement deleted' });
+  } catch (error) {
+    console.error('Error in DELETE /api/measurements/[id]:', error);
+    return NextResponse.json(
+      { status: 'error', message: 'Failed to delete measurement' },
+      { status: 500 }
+    );
+  }
+});
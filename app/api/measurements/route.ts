@@ -0,0 +1,73 @@
+// app/api/measurements/route.ts
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withAuth } from '@/lib/auth';
+import {
+  createMeasurement,
+  listMeasurements,
+  measurementSchema,
+  METRIC_KIND_IDS,
+  METRIC_KINDS
+} from '@/lib/measurements';
+
+const querySchema = z.object({
+  kind: z.enum(METRIC_KIND_IDS).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional()
+});
+
+export const GET = withAuth(async (request, user) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = querySchema.parse({
+      kind: searchParams.get('kind') ?? undefined,
+      from: searchParams.get('from') ?? undefined,
+      to: searchParams.get('to') ?? undefined
+    });
+
+    const measurements = await listMeasurements(user.id, query);
+
+    return NextResponse.json({ status: 'success', measurements, kinds: METRIC_KINDS });
+  } catch (error) {
+    console.error('Error in GET /api/measurements:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Invalid request format',
+        details: error.errors
+      }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { status: 'error', message: 'Failed to load measurements' },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = withAuth(async (request, user) => {
+  try {
+    const body = await request.json();
+    const input = measurementSchema.parse(body);
+
+    const measurement = await createMeasurement(user.id, input);
+
+    return NextResponse.json({ status: 'success', measurement }, { status: 201 });
+  } catch (error) {
+    console.error('Error in POST /api/measurements:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Invalid request format',
+        details: error.errors
+      }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { status: 'error', message: 'Failed to save measurement' },
+      { status: 500 }
+    );
+  }
+});
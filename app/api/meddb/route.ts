@@ -1,18 +1,9 @@
 import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { searchDrugCatalog } from '@/lib/drug-catalog';
 
-// Use the environment variable instead
-const FDA_API_KEY = process.env.FDA_API_KEY;
-
-export async function GET(request: Request) {
+export const GET = withAuth(async (request) => {
   try {
-    if (!FDA_API_KEY) {
-      return NextResponse.json({
-        success: false,
-        message: 'FDA API key is not configured',
-        suggestions: []
-      }, { status: 500 });
-    }
-
     // Get the search query
     const { searchParams } = new URL(request.url);
     const query = searchParams.get('q');
@@ -25,15 +16,11 @@ export async function GET(request: Request) {
       });
     }
 
-    // Construct the FDA API URL
-    const fdaUrl = `https://api.fda.gov/drug/label.json?api_key=${FDA_API_KEY}&search=(openfda.brand_name:${encodeURIComponent(query)}*)+OR+(openfda.generic_name:${encodeURIComponent(query)}*)&limit=20`;
-
-    // Make the request to FDA API
-    const response = await fetch(fdaUrl);
-    const data = await response.json();
+    // Search the local label cache, which asks openFDA on misses
+    const results = await searchDrugCatalog(query, 20);
 
     // Check if we have results
-    if (!data.results || !Array.isArray(data.results)) {
+    if (results.length === 0) {
       return NextResponse.json({
         success: false,
         message: 'No results found',
@@ -41,23 +28,20 @@ export async function GET(request: Request) {
       });
     }
 
-    // Process the results
-    const suggestions = data.results
-      .filter((result: any) => result.openfda)
-      .map((result: any) => {
-        const brandName = result.openfda?.brand_name?.[0] || '';
-        const genericName = result.openfda?.generic_name?.[0] || '';
-        const strength = result.active_ingredient?.[0] || '';
-
-        return {
-          name: brandName || genericName,
-          strength: strength
-        };
-      })
-      .filter((suggestion: any) => 
-        suggestion.name && 
-        suggestion.name.toLowerCase().includes(query.toLowerCase())
-      );
+    // Process the results; many manufacturers share a name and strength, so those are listed once.
+    // Results are already ranked, and near misses stay in so typos still find the medication
+    const seen = new Set<string>();
+    const suggestions = results
+      .map(result => ({
+        name: result.brandName || result.genericName || '',
+        strength: result.strength || ''
+      }))
+      .filter((suggestion) => {
+        const key = `${suggestion.name.toLowerCase()}|${suggestion.strength.toLowerCase()}`;
+        if (!suggestion.name || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
 
     // Return the processed results
     return NextResponse.json({
@@ -78,17 +62,4 @@ export async function GET(request: Request) {
       suggestions: []
     }, { status: 500 });
   }
-}
-
-export async function OPTIONS(request: Request) {
-  return new NextResponse(null, {
-    status: 204,
-    headers: {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, OPTIONS',
-      'Access-Control-Allow-Headers': '*',
-      'Access-Control-Max-Age': '86400'
-    }
-  });
-}
-
+});
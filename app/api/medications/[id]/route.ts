@@ -0,0 +1,71 @@
+// app/api/medications/[id]/route.ts
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withAuth } from '@/lib/auth';
+import { deleteMedication, medicationSchema, updateMedication } from '@/lib/medications';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const idSchema = z.string().uuid();
+
+export const PATCH = withAuth<RouteContext>(async (request, user, { params }) => {
+  try {
+    const { id } = await params;
+    if (!idSchema.safeParse(id).success) {
+      return NextResponse.json(
+        { status: 'error', message: 'Medication not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const changes = medicationSchema.partial().parse(body);
+
+    const medication = await updateMedication(user.id, id, changes);
+    if (!medication) {
+      return NextResponse.json(
+        { status: 'error', message: 'Medication not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ status: 'success', medication });
+  } catch (error) {
+    console.error('Error in PATCH /api/medications/[id]:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Invalid request format',
+        details: error.errors
+      }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { status: 'error', message: 'Failed to update medication' },
+      { status: 500 }
+    );
+  }
+});
+
+export const DELETE = withAuth<RouteContext>(async (request, user, { params }) => {
+  try {
+    const { id } = await params;
+    const deleted = idSchema.safeParse(id).success && await deleteMedication(user.id, id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { status: 'error', message: 'Medication not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ status: 'success', message: 'Medication deleted' });
+  } catch (error) {
+    console.error('Error in DELETE /api/medications/[id]:', error);
+    return NextResponse.json(
+      { status: 'error', message: 'Failed to delete medication' },
+      { status: 500 }
+    );
+  }
+});
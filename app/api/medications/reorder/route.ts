@@ -0,0 +1,35 @@
+// app/api/medications/reorder/route.ts
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withAuth } from '@/lib/auth';
+import { reorderMedications } from '@/lib/medications';
+
+const reorderSchema = z.object({
+  ids: z.array(z.string().uuid()).min(1)
+});
+
+export const PUT = withAuth(async (request, user) => {
+  try {
+    const body = await request.json();
+    const { ids } = reorderSchema.parse(body);
+
+    const medications = await reorderMedications(user.id, ids);
+
+    return NextResponse.json({ status: 'success', medications });
+  } catch (error) {
+    console.error('Error in PUT /api/medications/reorder:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Invalid request format',
+        details: error.errors
+      }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { status: 'error', message: 'Failed to reorder medications' },
+      { status: 500 }
+    );
+  }
+});
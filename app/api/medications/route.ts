@@ -0,0 +1,45 @@
+// app/api/medications/route.ts
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withAuth } from '@/lib/auth';
+import { createMedication, listMedications, medicationSchema } from '@/lib/medications';
+
+export const GET = withAuth(async (request, user) => {
+  try {
+    const medications = await listMedications(user.id);
+
+    return NextResponse.json({ status: 'success', medications });
+  } catch (error) {
+    console.error('Error in GET /api/medications:', error);
+    return NextResponse.json(
+      { status: 'error', message: 'Failed to load medications' },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = withAuth(async (request, user) => {
+  try {
+    const body = await request.json();
+    const input = medicationSchema.parse(body);
+
+    const medication = await createMedication(user.id, input);
+
+    return NextResponse.json({ status: 'success', medication }, { status: 201 });
+  } catch (error) {
+    console.error('Error in POST /api/medications:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Invalid request format',
+        details: error.errors
+      }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { status: 'error', message: 'Failed to save medication' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,31 @@
+// app/api/memory/[id]/route.ts
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withAuth } from '@/lib/auth';
+import { deleteMemories } from '@/lib/memory';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const idSchema = z.string().uuid();
+
+export const DELETE = withAuth<RouteContext>(async (request, user, { params }) => {
+  try {
+    const { id } = await params;
+    const deleted = idSchema.safeParse(id).success && (await deleteMemories(user.id, [id])).length > 0;
+
+    if (!deleted) {
+      return NextResponse.json(
+        { status: 'error', message: 'Memory not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ status: 'success', message: 'Memory deleted' });
+  } catch (error) {
+    console.error('Error in DELETE /api/memory/[id]:', error);
+    return NextResponse.json(
+      { status: 'error', message: 'Failed to delete memory' },
+      { status: 500 }
+    );
+  }
+});
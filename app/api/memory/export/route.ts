@@ -0,0 +1,25 @@
+// app/api/memory/export/route.ts
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { exportMemories } from '@/lib/memory';
+
+export const GET = withAuth(async (request, user) => {
+  try {
+    const memories = await exportMemories(user.id);
+    const exportedAt = new Date().toISOString();
+
+    return new Response(JSON.stringify({ exportedAt, memories }, null, 2), {
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="chat-memory-${exportedAt.slice(0, 10)}.json"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error) {
+    console.error('Error in GET /api/memory/export:', error);
+    return NextResponse.json(
+      { status: 'error', message: 'Failed to export memories' },
+      { status: 500 }
+    );
+  }
+});
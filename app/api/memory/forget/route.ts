@@ -0,0 +1,23 @@
+// app/api/memory/forget/route.ts
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { forgetAllMemories } from '@/lib/memory';
+
+// Deletes every memory stored for the signed-in user
+export const POST = withAuth(async (request, user) => {
+  try {
+    const deletedCount = await forgetAllMemories(user.id);
+
+    return NextResponse.json({
+      status: 'success',
+      deletedCount,
+      message: 'All memories deleted'
+    });
+  } catch (error) {
+    console.error('Error in POST /api/memory/forget:', error);
+    return NextResponse.json(
+      { status: 'error', message: 'Failed to delete memories' },
+      { status: 500 }
+    );
+  }
+});
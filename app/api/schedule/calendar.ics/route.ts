@@ -0,0 +1,30 @@
+// app/api/schedule/calendar.ics/route.ts
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { listMedications } from '@/lib/medications';
+import { buildICalendar } from '@/lib/schedule';
+
+export const GET = withAuth(async (request, user) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const offset = parseInt(searchParams.get('offset') || '0', 10);
+
+    const medications = await listMedications(user.id);
+    // Calendar apps keep requesting a subscribed URL, so a bad offset is clamped to real time zones instead of rejected
+    const calendar = buildICalendar(medications, Number.isFinite(offset) ? Math.min(Math.max(offset, -840), 840) : 0);
+
+    return new Response(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'attachment; filename="medication-reminders.ics"',
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error) {
+    console.error('Error in GET /api/schedule/calendar.ics:', error);
+    return NextResponse.json(
+      { status: 'error', message: 'Failed to export calendar' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,73 @@
+// app/api/schedule/route.ts
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withAuth } from '@/lib/auth';
+import { listDoseLogs, matchDoseLogs } from '@/lib/doses';
+import { listMedications } from '@/lib/medications';
+import { generateDoseEvents, parseFrequency } from '@/lib/schedule';
+
+const querySchema = z.object({
+  days: z.coerce.number().int().min(1).max(90).default(7),
+  // Hours of already-due doses to include so they can still be logged
+  past: z.coerce.number().int().min(0).max(48).default(0),
+  // Same sign convention as Date.getTimezoneOffset()
+  offset: z.coerce.number().int().min(-840).max(840).default(0)
+});
+
+export const GET = withAuth(async (request, user) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { days, past, offset } = querySchema.parse({
+      days: searchParams.get('days') ?? undefined,
+      past: searchParams.get('past') ?? undefined,
+      offset: searchParams.get('offset') ?? undefined
+    });
+
+    const now = Date.now();
+    const from = new Date(now - past * 60 * 60 * 1000);
+    const to = new Date(now + days * 24 * 60 * 60 * 1000);
+
+    const [medications, logs] = await Promise.all([
+      listMedications(user.id),
+      listDoseLogs(user.id, { from, to, margin: true })
+    ]);
+    const events = generateDoseEvents(medications, from, to, offset);
+    const logsByDose = matchDoseLogs(events, logs);
+
+    const doses = events.map(dose => {
+      const log = logsByDose.get(dose);
+      return {
+        ...dose,
+        scheduledAt: dose.scheduledAt.toISOString(),
+        status: log?.status ?? null,
+        snoozedUntil: log?.snoozedUntil ?? null
+      };
+    });
+
+    return NextResponse.json({
+      status: 'success',
+      from: from.toISOString(),
+      to: to.toISOString(),
+      doses,
+      // Medications whose frequency could not be read, so the page can ask for a clearer one
+      unrecognized: medications
+        .filter(medication => parseFrequency(medication.frequency).kind === 'unrecognized')
+        .map(({ id, name, frequency }) => ({ id, name, frequency }))
+    });
+  } catch (error) {
+    console.error('Error in GET /api/schedule:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Invalid request format',
+        details: error.errors
+      }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { status: 'error', message: 'Failed to build dose schedule' },
+      { status: 500 }
+    );
+  }
+});
@@ -1,15 +1,19 @@
 // app/api/stt/route.ts
-import { OpenAI } from 'openai';
-import { NextRequest } from 'next/server';
+import { transcribeAudio } from '@/lib/ai';
+import { withAuth } from '@/lib/auth';
+import { withRateLimit } from '@/lib/rate-limit';
 
-if (!process.env.OPENAI_API_KEY) {
-  throw new Error('OPENAI_API_KEY is not set in environment variables');
+// Counted against the daily audio quota; recordings are compressed speech at roughly 32 kbps
+async function recordingSeconds(request: Request) {
+  try {
+    const audio = (await request.clone().formData()).get('audio');
+    return audio instanceof File ? Math.max(1, Math.ceil(audio.size / 4000)) : 1;
+  } catch {
+    return 1;
+  }
 }
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(withRateLimit('audio', async (request) => {
   try {
     const formData = await request.formData();
     const audioFile = formData.get('audio') as File;
@@ -21,20 +25,16 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    // Create a proper audio file for OpenAI
+    // Create a proper audio file for the transcription API
     const audioBlob = new Blob([await audioFile.arrayBuffer()], { type: 'audio/mp3' });
     const file = new File([audioBlob], 'audio.mp3', { type: 'audio/mp3' });
 
-    // Transcribe using OpenAI Whisper
-    const transcription = await openai.audio.transcriptions.create({
-      file,
-      model: 'whisper-1',
+    const text = await transcribeAudio(file, {
       language: 'en',
-      response_format: 'json',
       prompt: 'Please transcribe this audio in English only'
     });
 
-    return new Response(JSON.stringify({ text: transcription.text }), {
+    return new Response(JSON.stringify({ text }), {
       headers: { 'Content-Type': 'application/json' },
     });
   } catch (error) {
@@ -47,7 +47,7 @@ export async function POST(request: NextRequest) {
       headers: { 'Content-Type': 'application/json' },
     });
   }
-}
+}, { cost: recordingSeconds }));
 
 export const config = {
   api: {
@@ -0,0 +1,71 @@
+// app/api/titration/[id]/route.ts
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withAuth } from '@/lib/auth';
+import { deleteTitrationPlan, titrationUpdateSchema, updateTitrationPlan } from '@/lib/titration';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const idSchema = z.string().uuid();
+
+export const PATCH = withAuth<RouteContext>(async (request, user, { params }) => {
+  try {
+    const { id } = await params;
+    if (!idSchema.safeParse(id).success) {
+      return NextResponse.json(
+        { status: 'error', message: 'Titration plan not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const changes = titrationUpdateSchema.parse(body);
+
+    const plan = await updateTitrationPlan(user.id, id, changes);
+    if (!plan) {
+      return NextResponse.json(
+        { status: 'error', message: 'Titration plan not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ status: 'success', plan });
+  } catch (error) {
+    console.error('Error in PATCH /api/titration/[id]:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Invalid request format',
+        details: error.errors
+      }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { status: 'error', message: 'Failed to update titration plan' },
+      { status: 500 }
+    );
+  }
+});
+
+export const DELETE = withAuth<RouteContext>(async (request, user, { params }) => {
+  try {
+    const { id } = await params;
+    const deleted = idSchema.safeParse(id).success && await deleteTitrationPlan(user.id, id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { status: 'error', message: 'Titration plan not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ status: 'success', message: 'Titration plan deleted' });
+  } catch (error) {
+    console.error('Error in DELETE /api/titration/[id]:', error);
+    return NextResponse.json(
+      { status: 'error', message: 'Failed to delete titration plan' },
+      { status: 500 }
+    );
+  }
+});
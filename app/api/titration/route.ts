@@ -0,0 +1,56 @@
+// app/api/titration/route.ts
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withAuth } from '@/lib/auth';
+import {
+  createTitrationPlan,
+  GLP1_PRODUCTS,
+  listTitrationPlans,
+  titrationPlanSchema
+} from '@/lib/titration';
+
+export const GET = withAuth(async (request, user) => {
+  try {
+    const plans = await listTitrationPlans(user.id);
+
+    return NextResponse.json({ status: 'success', plans, products: GLP1_PRODUCTS });
+  } catch (error) {
+    console.error('Error in GET /api/titration:', error);
+    return NextResponse.json(
+      { status: 'error', message: 'Failed to load titration plans' },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = withAuth(async (request, user) => {
+  try {
+    const body = await request.json();
+    const input = titrationPlanSchema.parse(body);
+
+    const plan = await createTitrationPlan(user.id, input);
+    if (!plan) {
+      return NextResponse.json(
+        { status: 'error', message: 'Medication not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ status: 'success', plan }, { status: 201 });
+  } catch (error) {
+    console.error('Error in POST /api/titration:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        status: 'error',
+        message: 'Invalid request format',
+        details: error.errors
+      }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { status: 'error', message: 'Failed to create titration plan' },
+      { status: 500 }
+    );
+  }
+});
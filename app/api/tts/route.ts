@@ -1,43 +1,26 @@
 // app/api/tts/route.ts
-import { ElevenLabsClient } from 'elevenlabs';
+import { synthesizeSpeech } from '@/lib/ai';
+import { withAuth } from '@/lib/auth';
+import { withRateLimit } from '@/lib/rate-limit';
 
-async function streamToBuffer(stream: NodeJS.ReadableStream): Promise<Buffer> {
-  const chunks: Buffer[] = [];
+// Counted against the daily audio quota at roughly 15 characters of text per second of speech
+async function speechSeconds(req: Request) {
   try {
-    for await (const chunk of stream) {
-      chunks.push(Buffer.from(chunk));
-    }
-    return Buffer.concat(chunks);
-  } catch (error) {
-    console.error('Error converting stream to buffer:', error);
-    throw error;
+    const { text } = await req.clone().json();
+    return Math.max(1, Math.ceil(String(text ?? '').length / 15));
+  } catch {
+    return 1;
   }
 }
 
-export async function POST(req: Request) {
+export const POST = withAuth(withRateLimit('audio', async (req) => {
   try {
-    if (!process.env.ELEVENLABS_API_KEY) {
-      throw new Error('ELEVENLABS_API_KEY is not configured');
-    }
-
-    const elevenLabs = new ElevenLabsClient({
-      apiKey: process.env.ELEVENLABS_API_KEY,
-    });
-
     const { text } = await req.json();
-    const audioStream = await elevenLabs.textToSpeech.convertAsStream(
-      "JBFqnCBsd6RMkjVDRZzb",
-      {
-        text,
-        model_id: "eleven_multilingual_v2",
-      }
-    );
-    
-    const buffer = await streamToBuffer(audioStream);
-    
-    return new Response(buffer, {
+    const { audio, contentType } = await synthesizeSpeech(text);
+
+    return new Response(audio, {
       headers: {
-        'Content-Type': 'audio/mpeg',
+        'Content-Type': contentType,
       },
     });
   } catch (error) {
@@ -47,4 +30,4 @@ export async function POST(req: Request) {
       headers: { 'Content-Type': 'application/json' },
     });
   }
-}
+}, { cost: speechSeconds }));
@@ -4,13 +4,17 @@ import React from 'react'
 import { useState, useEffect, useRef } from 'react'
 import { useChat } from 'ai/react'
 import Image from 'next/image'
+import Link from 'next/link'
 import { Header } from "@/components/Header"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { RefreshCw, AlertTriangle } from "lucide-react"
 import { Alert, AlertDescription } from "@/components/ui/alert"
+import type { NutritionalInfo } from "@/lib/nutrition"
+import { createThumbnail } from "@/lib/thumbnail"
 
 interface Medication {
+  id?: string;
   name: string;
   dosage: string;
   frequency: string;
@@ -23,6 +27,8 @@ interface AnalysisResult {
   category: string;
   confidence: number;
   analysis: string;
+  itemsIdentified?: string[];
+  nutrition?: NutritionalInfo | null;
   sources?: string;
   timestamp: string;
   id: string;
@@ -91,48 +97,6 @@ interface AnalysisRequestBody {
   };
 }
 
-// Interface for nutritional information
-interface NutritionalInfo {
-  name: string;
-  calories: {
-    value: number;
-    unit: string; // kcal
-  };
-  macronutrients: {
-    carbohydrates: { value: number; unit: string; }; // g
-    proteins: { value: number; unit: string; }; // g
-    fats: { value: number; unit: string; }; // g
-    fiber: { value: number; unit: string; }; // g
-    water: { value: number; unit: string; }; // ml
-  };
-  micronutrients: {
-    vitamins: {
-      vitaminA: { value: number; unit: string; }; // IU or mcg
-      vitaminB1: { value: number; unit: string; }; // mg
-      vitaminB2: { value: number; unit: string; }; // mg
-      vitaminB3: { value: number; unit: string; }; // mg
-      vitaminB5: { value: number; unit: string; }; // mg
-      vitaminB6: { value: number; unit: string; }; // mg
-      vitaminB12: { value: number; unit: string; }; // mcg
-      vitaminC: { value: number; unit: string; }; // mg
-      vitaminD: { value: number; unit: string; }; // IU
-      vitaminE: { value: number; unit: string; }; // mg
-      vitaminK: { value: number; unit: string; }; // mcg
-    };
-    minerals: {
-      calcium: { value: number; unit: string; }; // mg
-      iron: { value: number; unit: string; }; // mg
-      zinc: { value: number; unit: string; }; // mg
-      magnesium: { value: number; unit: string; }; // mg
-      potassium: { value: number; unit: string; }; // mg
-      sodium: { value: number; unit: string; }; // mg
-      phosphorus: { value: number; unit: string; }; // mg
-      iodine: { value: number; unit: string; }; // mcg
-      selenium: { value: number; unit: string; }; // mcg
-    };
-  };
-}
-
 const MessageContent = ({ content }: { content: string }) => {
   // Transform the content to add bold and bullet points
   const formattedContent = content.split('\n').map(line => {
@@ -279,6 +243,8 @@ export default function Calculator() {
   const [isLoading, setIsLoading] = useState(false);
   const [analysisResults, setAnalysisResults] = useState<AnalysisResult[]>([]);
   const [medicationAlert, setMedicationAlert] = useState<MedicationAlert | null>(null);
+  const [streamingAnalysis, setStreamingAnalysis] = useState('');
+  const [savedToDiary, setSavedToDiary] = useState(false);
   const [medications, setMedications] = useState<Medication[]>([]);
 
   // Load stored data after mount
@@ -296,16 +262,23 @@ export default function Calculator() {
         setAnalysisResults(JSON.parse(storedResults));
       }
       
-      // Load medications from storage
-      const storedMeds = localStorage.getItem('medications');
-      if (storedMeds) {
-        setMedications(JSON.parse(storedMeds));
-      }
     } catch (e) {
       console.error('Error loading stored calculator data:', e);
     }
   }, [calculatorId]);
 
+  // Load the saved medication list from the user's account
+  useEffect(() => {
+    fetch('/api/medications')
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => {
+        if (data?.medications) {
+          setMedications(data.medications);
+        }
+      })
+      .catch(e => console.error('Error loading medications:', e));
+  }, []);
+
   // Move localStorage cleanup to useEffect
   useEffect(() => {
     if (!calculatorId) return;
@@ -361,14 +334,19 @@ export default function Calculator() {
     setError(null);
     setIsLoading(true);
     setMedicationAlert(null);
+    setStreamingAnalysis('');
+    setSavedToDiary(false);
   
     try {
+      // The diary entry gets a small preview; the analysis still works without one
+      const thumbnail = await createThumbnail(selectedImage).catch(() => undefined);
       const requestBody = {
         messages: [{
           role: 'user' as const,
           content: JSON.stringify({
             type: 'analysis_request',
             image: selectedImage,
+            thumbnail,
             medications: medications.length > 0 ? medications : undefined
           }),
           id: generateId()
@@ -378,7 +356,8 @@ export default function Calculator() {
       const response = await fetch('/api/calculator', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json'
+          'Content-Type': 'application/json',
+          'Accept': 'text/event-stream'
         },
         body: JSON.stringify(requestBody)
       });
@@ -387,46 +366,69 @@ export default function Calculator() {
         throw new Error(`Failed to analyze image: ${response.statusText}`);
       }
   
-      if (!response.body) {
-        throw new Error('No response body received');
-      }
-  
-      const reader = response.body.getReader();
       let analysisText = '';
       let medicationAlertText = '';
-      let collectingMedicationAlert = false;
+      // Structured fields from the JSON body or the "structured" stream event; the prose is parsed below as a fallback
+      let structured: Partial<{ category: string; confidence: number; itemsIdentified: string[]; nutrition: NutritionalInfo }> = {};
+
+      if (response.headers.get('Content-Type')?.includes('application/json')) {
+        const json = await response.json();
+        analysisText = json.analysis || '';
+        medicationAlertText = json.medication_alert || '';
+        structured = json;
+        setSavedToDiary(Boolean(json.mealId));
+      } else {
+        if (!response.body) {
+          throw new Error('No response body received');
+        }
   
-      while (true) {
-        const { done, value } = await reader.read();
-        
-        if (done) break;
-        
-        const chunk = new TextDecoder().decode(value);
-        const lines = chunk.split('\n');
-        
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.slice(5).trim();
-            if (data && data !== '[DONE]') {
-              try {
-                const parsed = JSON.parse(data);
-                
-                if (parsed.type === 'separator') {
-                  if (parsed.content.includes('MEDICATION_ALERT_START')) {
-                    collectingMedicationAlert = true;
-                  } else if (parsed.content.includes('MEDICATION_ALERT_END')) {
-                    collectingMedicationAlert = false;
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let collectingMedicationAlert = false;
+        // Events can be split across reads, so keep the trailing partial line for the next chunk
+        let buffer = '';
+  
+        while (true) {
+          const { done, value } = await reader.read();
+          
+          if (done) break;
+          
+          buffer += decoder.decode(value, { stream: true });
+          const lines = buffer.split('\n');
+          buffer = lines.pop() || '';
+          
+          for (const line of lines) {
+            if (line.startsWith('data: ')) {
+              const data = line.slice(5).trim();
+              if (data && data !== '[DONE]') {
+                try {
+                  const parsed = JSON.parse(data);
+                  
+                  if (parsed.type === 'separator') {
+                    if (parsed.content.includes('MEDICATION_ALERT_START')) {
+                      collectingMedicationAlert = true;
+                    } else if (parsed.content.includes('MEDICATION_ALERT_END')) {
+                      collectingMedicationAlert = false;
+                    }
+                  } else if (parsed.type === 'error') {
+                    throw new Error(parsed.content || 'Failed to analyze image');
+                  } else if (parsed.type === 'structured' && parsed.content) {
+                    structured = parsed.content;
+                  } else if (parsed.type === 'meal') {
+                    setSavedToDiary(true);
+                  } else if (parsed.type === 'medication_alert' && parsed.content) {
+                    medicationAlertText += parsed.content;
+                  } else if (parsed.type === 'analysis' && parsed.content) {
+                    analysisText += parsed.content;
+                    setStreamingAnalysis(analysisText);
+                  } else if (parsed.content) {
+                    // For backward compatibility with previous API format
+                    analysisText += parsed.content;
                   }
-                } else if (parsed.type === 'medication_alert' && parsed.content) {
-                  medicationAlertText += parsed.content;
-                } else if (parsed.type === 'analysis' && parsed.content) {
-                  analysisText += parsed.content;
-                } else if (parsed.content) {
-                  // For backward compatibility with previous API format
-                  analysisText += parsed.content;
+                } catch (e) {
+                  if (!(e instanceof SyntaxError)) throw e;
+                  console.error('Error parsing chunk:', e);
                 }
-              } catch (e) {
-                console.error('Error parsing chunk:', e);
               }
             }
           }
@@ -438,13 +440,17 @@ export default function Calculator() {
       const analysisResult: AnalysisResult = {
         id: generateId(),
         status: 'completed',
-        category: analysisData.category || 'Unknown',
-        confidence: analysisData.confidence || 0,
+        // Prefer the validated structured fields over the ones parsed from prose
+        category: structured.category ? `Category: ${structured.category}` : analysisData.category || 'Unknown',
+        confidence: structured.confidence ?? analysisData.confidence ?? 0,
         analysis: analysisData.analysis || 'No analysis available',
+        itemsIdentified: structured.itemsIdentified || [],
+        nutrition: structured.nutrition || null,
         timestamp: new Date().toISOString()
       };
   
       setAnalysisResults(prev => [...prev, analysisResult]);
+      setStreamingAnalysis('');
       
       // If we received medication alert data, parse and display it
       if (medicationAlertText) {
@@ -460,6 +466,7 @@ export default function Calculator() {
       setError(error instanceof Error ? error.message : 'Failed to analyze image. Please try again.');
     } finally {
       setIsLoading(false);
+      setStreamingAnalysis('');
     }
   };
 
@@ -537,7 +544,7 @@ export default function Calculator() {
 
         <div className="relative min-h-screen flex flex-col">
           <div className="flex-1 flex items-center justify-center p-4 relative z-20">
-            <Card className={`h-[90vh] sm:h-[80vh] ${analysisResults.length > 0 ? 'w-[95%]' : 'w-[600px]'} mx-auto bg-white/80 backdrop-blur-sm`}>
+            <Card className={`h-[90vh] sm:h-[80vh] ${analysisResults.length > 0 || streamingAnalysis ? 'w-[95%]' : 'w-[600px]'} mx-auto bg-white/80 backdrop-blur-sm`}>
               <CardHeader>
                 <CardTitle className="text-xl sm:text-2xl font-bold text-[#FE3301] text-center">
                   Meal Analyzer
@@ -549,7 +556,7 @@ export default function Calculator() {
                 )}
               </CardHeader>
               <CardContent className="h-[calc(100%-4rem)] sm:h-[calc(100%-5rem)] overflow-hidden">
-                <div className={`h-full ${analysisResults.length > 0 ? 'grid grid-cols-1 lg:grid-cols-2 gap-6' : 'flex flex-col items-center justify-center'}`}>
+                <div className={`h-full ${analysisResults.length > 0 || streamingAnalysis ? 'grid grid-cols-1 lg:grid-cols-2 gap-6' : 'flex flex-col items-center justify-center'}`}>
                   {/* Left Column - Image Upload and Preview */}
                   <div className="flex flex-col items-center gap-6 w-full max-w-[300px] mx-auto">
                     <div className="flex justify-center w-full">
@@ -604,7 +611,7 @@ export default function Calculator() {
                   </div>
 
                   {/* Right Column - Analysis Results */}
-                  {(error || analysisResults.length > 0) && (
+                  {(error || analysisResults.length > 0 || streamingAnalysis) && (
                     <div className="h-full overflow-y-auto">
                       {error && (
                         <div className="p-4 bg-red-50 text-red-700 rounded-lg border border-red-200 animate-fadeIn">
@@ -635,13 +642,35 @@ export default function Calculator() {
                         </Alert>
                       )}
                       
+                      {savedToDiary && (
+                        <p className="text-sm text-gray-600 mb-4">
+                          Saved to your <Link href="/diary" className="text-[#FE3301] underline">food diary</Link>.
+                        </p>
+                      )}
+
+                      {streamingAnalysis && (
+                        <div className="mb-4 text-gray-700">
+                          <MessageContent content={parseAnalysisFromMessage(streamingAnalysis).analysis} />
+                        </div>
+                      )}
+
                       {analysisResults.map((result, index) => (
                         <div key={index} className="mb-4">
                           <div className="font-semibold">{result.category}</div>
                           <div className="text-sm text-gray-600 mb-2">
                             Confidence: {result.confidence ? `${result.confidence}%` : 'N/A'}
                           </div>
+                          {result.itemsIdentified && result.itemsIdentified.length > 0 && (
+                            <div className="flex flex-wrap gap-2 mb-3">
+                              {result.itemsIdentified.map(item => (
+                                <span key={item} className="text-xs rounded-full bg-[#FE3301]/10 text-[#FE3301] px-3 py-1">
+                                  {item}
+                                </span>
+                              ))}
+                            </div>
+                          )}
                           <MessageContent content={result.analysis} />
+                          {result.nutrition && <NutritionalBreakdown nutritionalInfo={result.nutrition} />}
                         </div>
                       ))}
                     </div>
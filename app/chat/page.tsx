@@ -5,10 +5,12 @@ import { useRef, useState, useEffect } from 'react';
 import { Header } from "@/components/Header";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { MessageCircle, Send, ThumbsUp, ThumbsDown, Activity, Pill, Plus, Check, RefreshCw, Volume2, Mic } from "lucide-react";
+import { MessageCircle, Send, ThumbsUp, ThumbsDown, Activity, Pill, Plus, Check, RefreshCw, Volume2, Mic, Brain, History } from "lucide-react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ConversationSidebar, ConversationSummary } from "@/components/ConversationSidebar";
 import toast from 'react-hot-toast';
 import ReactMarkdown from 'react-markdown';
+import { isSourceLine, validateCitations, type Citation } from '@/lib/citations';
 
 const debug = {
   log: (message: string, data?: any) => {
@@ -42,21 +44,26 @@ const personaConfig: PersonaConfig = {
 
 interface MessageContentProps {
   content: string;
+  // Checked by the chat route and saved with the answer; answers saved before sources were kept are checked here instead
+  sources?: Citation[];
 }
 
-const MessageContent = ({ content }: MessageContentProps) => {
-  // Store citations and titles map
-  const citations = new Map<string, string>();
+// The validated source list the chat route attaches to an answer
+function messageSources(annotations: unknown[] | undefined): Citation[] | undefined {
+  const annotation = annotations?.find(
+    (a): a is { type: 'sources'; sources: Citation[] } => (a as { type?: string } | null)?.type === 'sources'
+  );
+  return annotation?.sources;
+}
+
+const MessageContent = ({ content, sources }: MessageContentProps) => {
+  // Only sources on allowed sites are linked; other numbers stay plain text
+  const citedSources = sources ?? validateCitations(content).sources;
+  const citations = new Map(citedSources.map(source => [source.ref, source.url]));
   const titles = new Map<string, string>();
   
-  // Extract citations and titles with improved regex
+  // Extract titles with improved regex
   content.split('\n').forEach(line => {
-    // Match citation format: [1]: https://example.com
-    const citationMatch = line.match(/\[(\d+)\]:\s*(https?:\/\/\S+)/);
-    if (citationMatch) {
-      citations.set(citationMatch[1], citationMatch[2].trim());
-    }
-    
     // Match title format: [Title]: https://example.com
     const titleMatch = line.match(/\[((?!\d+\])[^\]]+)\]:\s*(https?:\/\/\S+)/);
     if (titleMatch) {
@@ -66,9 +73,11 @@ const MessageContent = ({ content }: MessageContentProps) => {
 
   // Process the content to replace citations and titles
   const processContent = (text: string) => {
-    // Remove citation/title definition lines
+    // Remove citation/title definition lines and the model's own source list, which is rendered below
     const lines = text.split('\n').filter(line => 
-      !line.match(/\[.*?\]:\s*https?:\/\/\S+/)
+      !line.match(/\[.*?\]:\s*https?:\/\/\S+/) &&
+      !isSourceLine(line) &&
+      !(citedSources.length > 0 && /^\s*[#*]*\s*sources:?\s*\**\s*$/i.test(line))
     );
 
     // Process each line
@@ -77,8 +86,8 @@ const MessageContent = ({ content }: MessageContentProps) => {
       
       // Replace citations with markdown links
       citations.forEach((url, num) => {
-        // Match [1] or [1,2] or [1,2,3] patterns
-        const regex = new RegExp(`\\[(\\d+(?:,\\s*\\d+)*)\\]`, 'g');
+        // Match [1] or [1,2] or [1,2,3] patterns, and label excerpts such as [L1]
+        const regex = new RegExp(`\\[(L?\\d+(?:,\\s*L?\\d+)*)\\]`, 'g');
         processed = processed.replace(regex, (match, nums) => {
           // Handle multiple citations
           const numbers = nums.split(',').map((n: string) => n.trim());
@@ -124,7 +133,7 @@ const MessageContent = ({ content }: MessageContentProps) => {
         components={{
           a: ({ node, children, href, ...props }) => {
             const text = Array.isArray(children) ? children.join('') : children?.toString() || '';
-            const isCitation = /^\d+$/.test(text); // Check if it's a citation number
+            const isCitation = /^L?\d+$/.test(text); // Check if it's a citation number
             
             return (
               <a 
@@ -145,6 +154,29 @@ const MessageContent = ({ content }: MessageContentProps) => {
       >
         {processedContent}
       </ReactMarkdown>
+      {citedSources.length > 0 && (
+        <div className="not-prose mt-4 border-t border-gray-100 pt-3">
+          <div className="text-xs font-semibold text-gray-900 mb-1">Sources</div>
+          <ol className="space-y-1 text-xs">
+            {citedSources.map(source => (
+              <li key={source.ref} className="text-gray-600">
+                <span className="text-[#FE3301] mr-1">[{source.ref}]</span>
+                <a
+                  href={source.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-[#FE3301] hover:text-[#FE3301]/80 hover:underline"
+                >
+                  {source.title}
+                </a>
+                {source.snippet && (
+                  <p className="text-gray-500 mt-0.5 line-clamp-2">{source.snippet}</p>
+                )}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
     </div>
   );
 };
@@ -178,113 +210,58 @@ const handleTextToSpeech = async (text: string) => {
   }
 };
 
-// Move all localStorage operations to a client-side utility
-const ChatStorage = {
+const DEFAULT_TITLE = 'Medication Assistant Discussion';
+
+// Conversations are stored server-side; only the open one is remembered locally
+const ConversationStorage = {
   getId: () => {
-    if (typeof window === 'undefined') return '';
+    if (typeof window === 'undefined') return null;
     try {
-      return localStorage.getItem('currentChatId') || '';
+      return localStorage.getItem('currentConversationId');
     } catch (e) {
-      return '';
+      return null;
     }
   },
-  
-  setId: (id: string) => {
-    if (typeof window === 'undefined') return;
-    try {
-      localStorage.setItem('currentChatId', id);
-    } catch (e) {
-      console.error('Error setting chat ID:', e);
-    }
-  },
-  
-  getMessages: (chatId: string) => {
-    if (typeof window === 'undefined') return [];
-    try {
-      const stored = localStorage.getItem(`chat-messages-${chatId}`);
-      return stored ? JSON.parse(stored) : [];
-    } catch (e) {
-      console.error('Error loading chat messages:', e);
-      return [];
-    }
-  },
-  
-  cleanup: (currentId: string) => {
+
+  setId: (id: string | null) => {
     if (typeof window === 'undefined') return;
     try {
-      const keys = Object.keys(localStorage);
-      keys.forEach(key => {
-        if (key.startsWith('chat-') && !key.includes(currentId)) {
-          localStorage.removeItem(key);
-        }
-      });
-    } catch (e) {
-      console.error('Error cleaning up storage:', e);
-    }
-  }
-};
-
-const handleNewChat = () => {
-  if (typeof window === 'undefined') return;
-  try {
-    const keys = Object.keys(localStorage);
-    keys.forEach(key => {
-      if (key.startsWith('chat-')) {
-        localStorage.removeItem(key);
+      if (id) {
+        localStorage.setItem('currentConversationId', id);
+      } else {
+        localStorage.removeItem('currentConversationId');
       }
-    });
-    window.location.reload();
-  } catch (e) {
-    console.error('Error creating new chat:', e);
-    toast.error('Failed to create new chat');
-  }
-};
-
-// Update persona change handler to maintain session
-const handlePersonaChange = async (
-  newPersona: string, 
-  chatId: string, 
-  setSelectedPersona: Function,
-  setMessages: Function
-) => {
-  try {
-    if (!newPersona || !['general_med', 'glp1'].includes(newPersona)) {
-      throw new Error('Invalid persona selected');
+    } catch (e) {
+      console.error('Error saving conversation ID:', e);
     }
-    
-    localStorage.setItem(`chat-persona-${chatId}`, newPersona);
-    setSelectedPersona(newPersona);
-    // Remove message clearing
-    // Keep existing messages in localStorage
-  } catch (e) {
-    console.error('Error changing persona:', e);
-    toast.error('Failed to switch persona');
   }
 };
 
 export default function Chat() {
-  // Initialize state with empty values
-  const [chatId, setChatId] = useState('');
-  
-  // Initialize chat after mount
-  useEffect(() => {
-    const storedId = ChatStorage.getId();
-    const newId = storedId || `chat-${Date.now()}`;
-    setChatId(newId);
-    ChatStorage.setId(newId);
-    ChatStorage.cleanup(newId);
-  }, []);
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [conversationsLoading, setConversationsLoading] = useState(true);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [showSidebar, setShowSidebar] = useState(false);
+  // Number of messages in the current chat that are already saved server-side
+  const persistedCountRef = useRef(0);
+  const conversationIdRef = useRef<string | null>(null);
+  // Saves run one at a time so a second exchange never creates a duplicate conversation
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
+  // Bumped whenever another conversation is opened, so late saves land in the right one
+  const sessionRef = useRef(0);
+  const pendingTitleRef = useRef<string | null>(null);
 
   const [selectedPersona, setSelectedPersona] = useState<string>('general_med');
+  const [includeMemory, setIncludeMemory] = useState(true);
 
   const { messages, input, handleInputChange, handleSubmit, isLoading, error, reload, setMessages } = useChat({
     api: '/api/chat',
-    id: chatId,
     initialMessages: [],
     body: {
       data: {
         persona: selectedPersona || 'general_med',
-        includeHistory: true
+        includeHistory: true,
+        includeMemory
       }
     },
     onResponse: (response) => {
@@ -294,15 +271,15 @@ export default function Chat() {
         headers: Object.fromEntries(response.headers.entries())
       });
       
+      // Only sent on the opening turn; becomes the new conversation's title
       const chatTitle = response.headers.get('X-Chat-Title');
       if (chatTitle) {
-        setTitle(chatTitle);
-        localStorage.setItem(`chat-title-${chatId}`, chatTitle);
+        pendingTitleRef.current = decodeURIComponent(chatTitle);
+        setTitle(pendingTitleRef.current);
       }
     },
     onFinish: (message) => {
       debug.log('Chat completion finished', { message });
-      localStorage.setItem(`chat-messages-${chatId}`, JSON.stringify(messages));
       scrollToBottom('smooth');
     },
     onError: (error) => {
@@ -313,14 +290,7 @@ export default function Chat() {
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const chatContainerRef = useRef<HTMLDivElement>(null);
-  const [title, setTitle] = useState(() => {
-    if (typeof window === 'undefined') return 'Medication Assistant Discussion';
-    try {
-      return localStorage.getItem(`chat-title-${chatId}`) || 'Medication Assistant Discussion';
-    } catch (e) {
-      return 'Medication Assistant Discussion';
-    }
-  });
+  const [title, setTitle] = useState(DEFAULT_TITLE);
   const [showDetailedFeedback, setShowDetailedFeedback] = useState<string | null>(null);
   const [isNearBottom, setIsNearBottom] = useState(true);
   const [userScrolled, setUserScrolled] = useState(false);
@@ -383,16 +353,165 @@ export default function Chat() {
     }
   }, [messages.length]);
 
-  useEffect(() => {
-    if (typeof window === 'undefined') return;
+  const loadConversations = () => {
+    return fetch('/api/conversations')
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => setConversations(data?.conversations || []))
+      .catch(error => debug.error('Error loading conversations', error));
+  };
+
+  const openConversation = async (id: string) => {
+    if (isLoading) return;
     try {
-      if (title) {
-        localStorage.setItem(`chat-title-${chatId}`, title);
+      const res = await fetch(`/api/conversations/${id}`);
+      if (!res.ok) {
+        throw new Error('Failed to load conversation');
       }
-    } catch (e) {
-      console.error('Error saving chat title:', e);
+      const { conversation } = await res.json();
+
+      setMessages(conversation.messages.map((m: { id: string; role: 'user' | 'assistant'; content: string; sources?: Citation[]; createdAt: string }) => ({
+        id: m.id,
+        role: m.role,
+        content: m.content,
+        // Restored as the annotation the chat route sent, so the answer renders the same sources as when it streamed
+        annotations: m.sources ? [{ type: 'sources', sources: m.sources.map(source => ({ ...source })) }] : undefined,
+        createdAt: new Date(m.createdAt)
+      })));
+      persistedCountRef.current = conversation.messages.length;
+      sessionRef.current++;
+      conversationIdRef.current = conversation.id;
+      setConversationId(conversation.id);
+      ConversationStorage.setId(conversation.id);
+      setTitle(conversation.title);
+      setSelectedPersona(conversation.persona);
+      setShowSidebar(false);
+    } catch (error) {
+      debug.error('Error opening conversation', error);
+      ConversationStorage.setId(null);
+      toast.error('Failed to open conversation');
+    }
+  };
+
+  const startNewChat = () => {
+    if (isLoading) return;
+    setMessages([]);
+    persistedCountRef.current = 0;
+    sessionRef.current++;
+    conversationIdRef.current = null;
+    setConversationId(null);
+    ConversationStorage.setId(null);
+    setTitle(DEFAULT_TITLE);
+    setShowSidebar(false);
+  };
+
+  const renameConversation = async (id: string, newTitle: string) => {
+    try {
+      const res = await fetch(`/api/conversations/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title: newTitle })
+      });
+      if (!res.ok) {
+        throw new Error('Failed to rename conversation');
+      }
+      setConversations(prev => prev.map(c => (c.id === id ? { ...c, title: newTitle } : c)));
+      if (id === conversationId) {
+        setTitle(newTitle);
+      }
+    } catch (error) {
+      debug.error('Error renaming conversation', error);
+      toast.error('Failed to rename conversation');
     }
-  }, [title, chatId]);
+  };
+
+  const deleteConversation = async (id: string) => {
+    try {
+      const res = await fetch(`/api/conversations/${id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        throw new Error('Failed to delete conversation');
+      }
+      setConversations(prev => prev.filter(c => c.id !== id));
+      if (id === conversationId) {
+        startNewChat();
+      }
+    } catch (error) {
+      debug.error('Error deleting conversation', error);
+      toast.error('Failed to delete conversation');
+    }
+  };
+
+  const changePersona = (newPersona: string) => {
+    if (!['general_med', 'glp1'].includes(newPersona)) {
+      toast.error('Failed to switch persona');
+      return;
+    }
+    setSelectedPersona(newPersona);
+
+    if (conversationId) {
+      fetch(`/api/conversations/${conversationId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ persona: newPersona })
+      }).catch(error => debug.error('Error saving persona', error));
+    }
+  };
+
+  // Reopen the last conversation, or start fresh if it no longer exists
+  useEffect(() => {
+    loadConversations().finally(() => setConversationsLoading(false));
+    const storedId = ConversationStorage.getId();
+    if (storedId) {
+      openConversation(storedId);
+    }
+  }, []);
+
+  // Save each completed exchange; the first one creates the conversation
+  useEffect(() => {
+    if (isLoading) return;
+    const unsaved = messages
+      .slice(persistedCountRef.current)
+      .filter(m => m.role === 'user' || m.role === 'assistant');
+    if (unsaved.length === 0 || unsaved[unsaved.length - 1].role !== 'assistant') return;
+
+    persistedCountRef.current = messages.length;
+    const payload = unsaved.map(m => ({ role: m.role, content: m.content, sources: messageSources(m.annotations) }));
+    const persona = selectedPersona;
+    const session = sessionRef.current;
+    const knownId = conversationIdRef.current;
+    const generatedTitle = pendingTitleRef.current;
+    pendingTitleRef.current = null;
+
+    saveQueueRef.current = saveQueueRef.current.then(async () => {
+      // The first exchange's save may still be creating the conversation when this one is queued
+      const existingId = knownId ?? (sessionRef.current === session ? conversationIdRef.current : null);
+      const res = existingId
+        ? await fetch(`/api/conversations/${existingId}/messages`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ messages: payload })
+          })
+        : await fetch('/api/conversations', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ persona, messages: payload, title: generatedTitle || undefined })
+          });
+      if (!res.ok) {
+        throw new Error('Failed to save conversation');
+      }
+
+      const { conversation } = await res.json();
+      if (!existingId && sessionRef.current === session) {
+        conversationIdRef.current = conversation.id;
+        setConversationId(conversation.id);
+        ConversationStorage.setId(conversation.id);
+        setTitle(conversation.title);
+      }
+      await loadConversations();
+    }).catch(error => {
+      debug.error('Error saving conversation', error);
+      toast.error('Failed to save this conversation');
+    });
+  }, [isLoading, messages]);
 
   const handleFeedback = async (messageId: string, value: number) => {
     debug.log('Submitting feedback', { messageId, value });
@@ -439,7 +558,8 @@ export default function Chat() {
       await handleSubmit(e, {
         data: {
           persona: selectedPersona,
-          includeHistory: true
+          includeHistory: true,
+          includeMemory
         }
       });
     } catch (error) {
@@ -531,257 +651,307 @@ export default function Chat() {
           <h1 className="text-3xl font-bold text-center text-[#FE3301]">
             Medication Assistant
           </h1>
+          <Button
+            variant="ghost"
+            onClick={() => setShowSidebar(v => !v)}
+            className="md:hidden text-gray-700"
+          >
+            <History className="h-5 w-5 mr-2" />
+            {showSidebar ? 'Back to chat' : 'History'}
+          </Button>
         </div>
-        
-        <Card className="max-w-4xl mx-auto bg-white/80 backdrop-blur-sm shadow-lg h-[calc(100%-4rem)] overflow-hidden">
-          <CardHeader className="border-b">
-            <CardTitle className="flex items-center gap-2 text-[#FE3301]">
-              <MessageCircle className="h-6 w-6" />
-              {title}
-            </CardTitle>
-          </CardHeader>
-          <CardContent className="p-4 sm:p-6 flex flex-col h-[calc(100%-4rem)] relative overflow-hidden">
-            <div 
-              ref={chatContainerRef}
-              className="flex-1 overflow-y-auto mb-4 chat-container scroll-smooth"
-              style={{ 
-                scrollBehavior: 'smooth',
-                minHeight: '200px'
-              }}
-              onScroll={handleScroll}
-            >
-              <div className="flex flex-col space-y-4 transition-all duration-300">
-                {messages.length === 0 && !isLoading && (
-                  <div className="text-center text-gray-500 mt-8">
-                    <p>Start a conversation by typing a message below.</p>
-                  </div>
-                )}
-                
-                {messages.map((message) => (
-                  <div 
-                    key={message.id} 
-                    className="message-wrapper transition-all duration-200"
-                  >
-                    <div className="text-sm text-gray-600 mb-1">
-                      {message.role === 'user' ? 'You' : 'AI Assistant'}
-                    </div>
-                    <div className={`rounded-lg p-4 transition-all duration-200 ${
-                      message.role === 'user' 
-                        ? 'bg-gradient-to-r from-[#FFE5E0] to-[#FFE9E5] border border-[#FE330125]' 
-                        : 'bg-white border border-gray-100'
-                    }`}>
-                      <MessageContent content={message.content} />
+
+        <div className="max-w-6xl mx-auto flex gap-4 h-[calc(100%-4rem)]">
+          <Card className={`${showSidebar ? 'block' : 'hidden'} md:block w-full md:w-64 shrink-0 bg-white/80 backdrop-blur-sm shadow-lg overflow-hidden`}>
+            <CardContent className="p-3 h-full">
+              <ConversationSidebar
+                conversations={conversations}
+                activeId={conversationId}
+                isLoading={conversationsLoading}
+                onSelect={openConversation}
+                onNew={startNewChat}
+                onRename={renameConversation}
+                onDelete={deleteConversation}
+              />
+            </CardContent>
+          </Card>
+
+          <Card className={`${showSidebar ? 'hidden' : 'block'} md:block flex-1 min-w-0 bg-white/80 backdrop-blur-sm shadow-lg h-full overflow-hidden`}>
+            <CardHeader className="border-b">
+              <CardTitle className="flex items-center gap-2 text-[#FE3301]">
+                <MessageCircle className="h-6 w-6" />
+                {title}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="p-4 sm:p-6 flex flex-col h-[calc(100%-4rem)] relative overflow-hidden">
+              <div 
+                ref={chatContainerRef}
+                className="flex-1 overflow-y-auto mb-4 chat-container scroll-smooth"
+                style={{ 
+                  scrollBehavior: 'smooth',
+                  minHeight: '200px'
+                }}
+                onScroll={handleScroll}
+              >
+                <div className="flex flex-col space-y-4 transition-all duration-300">
+                  {messages.length === 0 && !isLoading && (
+                    <div className="text-center text-gray-500 mt-8">
+                      <p>Start a conversation by typing a message below.</p>
                     </div>
-                    <div className="flex items-center justify-between mt-1 mb-2">
-                      <div className="text-xs text-gray-500">
-                        {new Date().toLocaleTimeString()}
+                  )}
+                  
+                  {messages.map((message) => (
+                    <div 
+                      key={message.id} 
+                      className="message-wrapper transition-all duration-200"
+                    >
+                      <div className="text-sm text-gray-600 mb-1">
+                        {message.role === 'user' ? 'You' : 'AI Assistant'}
+                      </div>
+                      <div className={`rounded-lg p-4 transition-all duration-200 ${
+                        message.role === 'user' 
+                          ? 'bg-gradient-to-r from-[#FFE5E0] to-[#FFE9E5] border border-[#FE330125]' 
+                          : 'bg-white border border-gray-100'
+                      }`}>
+                        <MessageContent content={message.content} sources={messageSources(message.annotations)} />
                       </div>
-                      {message.role === 'assistant' && (
-                        <div className="flex gap-2">
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => handleFeedback(message.id, 1)}
-                            className="p-2 hover:bg-green-100"
-                          >
-                            <ThumbsUp className="h-4 w-4 text-gray-500" />
-                          </Button>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => handleFeedback(message.id, 0)}
-                            className="p-2 hover:bg-red-100"
-                          >
-                            <ThumbsDown className="h-4 w-4 text-gray-500" />
-                          </Button>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => handleTextToSpeech(message.content)}
-                            className="p-2 hover:bg-blue-100"
-                          >
-                            <Volume2 className="h-4 w-4 text-gray-500" />
-                          </Button>
+                      <div className="flex items-center justify-between mt-1 mb-2">
+                        <div className="text-xs text-gray-500">
+                          {new Date().toLocaleTimeString()}
                         </div>
-                      )}
+                        {message.role === 'assistant' && (
+                          <div className="flex gap-2">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleFeedback(message.id, 1)}
+                              className="p-2 hover:bg-green-100"
+                            >
+                              <ThumbsUp className="h-4 w-4 text-gray-500" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleFeedback(message.id, 0)}
+                              className="p-2 hover:bg-red-100"
+                            >
+                              <ThumbsDown className="h-4 w-4 text-gray-500" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleTextToSpeech(message.content)}
+                              className="p-2 hover:bg-blue-100"
+                            >
+                              <Volume2 className="h-4 w-4 text-gray-500" />
+                            </Button>
+                          </div>
+                        )}
+                      </div>
                     </div>
-                  </div>
-                ))}
-
-                {isLoading && (
-                  <div className="bg-white border border-gray-100 rounded-lg p-4 mb-4 transition-all duration-200">
-                    <div className="flex space-x-2 justify-center items-center h-6">
-                      <span className="sr-only">Loading...</span>
-                      <div className="h-2 w-2 bg-[#FE3301] rounded-full animate-bounce"></div>
-                      <div className="h-2 w-2 bg-[#FE3301] rounded-full animate-bounce [animation-delay:-0.15s]"></div>
-                      <div className="h-2 w-2 bg-[#FE3301] rounded-full animate-bounce [animation-delay:-0.3s]"></div>
+                  ))}
+
+                  {isLoading && (
+                    <div className="bg-white border border-gray-100 rounded-lg p-4 mb-4 transition-all duration-200">
+                      <div className="flex space-x-2 justify-center items-center h-6">
+                        <span className="sr-only">Loading...</span>
+                        <div className="h-2 w-2 bg-[#FE3301] rounded-full animate-bounce"></div>
+                        <div className="h-2 w-2 bg-[#FE3301] rounded-full animate-bounce [animation-delay:-0.15s]"></div>
+                        <div className="h-2 w-2 bg-[#FE3301] rounded-full animate-bounce [animation-delay:-0.3s]"></div>
+                      </div>
                     </div>
-                  </div>
-                )}
-                <div ref={messagesEndRef} className="h-px" />
+                  )}
+                  <div ref={messagesEndRef} className="h-px" />
+                </div>
               </div>
-            </div>
 
-            {!isNearBottom && !isLoading && (
-              <button
-                onClick={() => scrollToBottom('smooth')}
-                className="absolute bottom-20 right-4 bg-white shadow-lg rounded-full p-2 hover:bg-gray-100 transition-opacity duration-200"
-              >
-                <MessageCircle className="h-4 w-4" />
-              </button>
-            )}
-
-            <form onSubmit={customHandleSubmit} className="flex gap-3 mt-auto bg-white p-4 rounded-lg border border-gray-100 shadow-sm">
-              {/* Desktop View - Always visible, hidden on mobile */}
-              <div className="hidden sm:flex flex-1 items-center gap-3">
-                <div className="flex items-center space-x-2">
-                  <Button
-                    type="button"
-                    onClick={handleNewChat}
-                    className="h-10 px-3 bg-gray-50 hover:bg-gray-100 text-gray-700 rounded-md transition-colors flex items-center gap-2"
-                  >
-                    <Plus className="h-4 w-4" />
-                    <span className="text-sm font-medium">New</span>
-                  </Button>
-
-                  <Select 
-                    value={selectedPersona} 
-                    onValueChange={(value) => handlePersonaChange(value, chatId, setSelectedPersona, setMessages)}
-                    defaultValue="general_med"
-                  >
-                    <SelectTrigger className="h-10 w-10 p-0 border-none bg-gray-50 hover:bg-gray-100 rounded-md flex items-center justify-center transition-colors">
-                      {selectedPersona ? (
-                        <div style={{ color: personaConfig[selectedPersona].color }}>
-                          {personaConfig[selectedPersona].icon}
-                        </div>
-                      ) : (
-                        <Activity className="h-4 w-4 text-gray-400" />
-                      )} 
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="general_med">General Medical</SelectItem>
-                      <SelectItem value="glp1">GLP-1</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
+              {!isNearBottom && !isLoading && (
+                <button
+                  onClick={() => scrollToBottom('smooth')}
+                  className="absolute bottom-20 right-4 bg-white shadow-lg rounded-full p-2 hover:bg-gray-100 transition-opacity duration-200"
+                >
+                  <MessageCircle className="h-4 w-4" />
+                </button>
+              )}
+
+              <form onSubmit={customHandleSubmit} className="flex gap-3 mt-auto bg-white p-4 rounded-lg border border-gray-100 shadow-sm">
+                {/* Desktop View - Always visible, hidden on mobile */}
+                <div className="hidden sm:flex flex-1 items-center gap-3">
+                  <div className="flex items-center space-x-2">
+                    <Button
+                      type="button"
+                      onClick={startNewChat}
+                      className="h-10 px-3 bg-gray-50 hover:bg-gray-100 text-gray-700 rounded-md transition-colors flex items-center gap-2"
+                    >
+                      <Plus className="h-4 w-4" />
+                      <span className="text-sm font-medium">New</span>
+                    </Button>
+
+                    <Select 
+                      value={selectedPersona} 
+                      onValueChange={changePersona}
+                      defaultValue="general_med"
+                    >
+                      <SelectTrigger className="h-10 w-10 p-0 border-none bg-gray-50 hover:bg-gray-100 rounded-md flex items-center justify-center transition-colors">
+                        {selectedPersona ? (
+                          <div style={{ color: personaConfig[selectedPersona].color }}>
+                            {personaConfig[selectedPersona].icon}
+                          </div>
+                        ) : (
+                          <Activity className="h-4 w-4 text-gray-400" />
+                        )} 
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="general_med">General Medical</SelectItem>
+                        <SelectItem value="glp1">GLP-1</SelectItem>
+                      </SelectContent>
+                    </Select>
+
+                    <Button
+                      type="button"
+                      onClick={() => setIncludeMemory(v => !v)}
+                      title={includeMemory ? 'Using your past questions (click to turn off)' : 'Past questions not used (click to turn on)'}
+                      className={`h-10 w-10 p-0 rounded-md flex items-center justify-center transition-colors ${
+                        includeMemory
+                          ? 'bg-[#FE3301]/10 hover:bg-[#FE3301]/20 text-[#FE3301]'
+                          : 'bg-gray-50 hover:bg-gray-100 text-gray-400'
+                      }`}
+                    >
+                      <Brain className="h-4 w-4" />
+                    </Button>
+                  </div>
 
-                <div className="flex-1">
-                  <textarea
-                    value={input}
-                    onChange={handleInputChange}
-                    onKeyDown={(e) => {
-                      if (e.key === 'Enter' && !e.shiftKey) {
-                        e.preventDefault();
-                        customHandleSubmit(e);
-                      }
-                    }}
-                    placeholder="Type your message..."
-                    className="w-full min-h-[40px] max-h-[120px] bg-gray-50 rounded-md px-4 py-2 focus:outline-none focus:ring-2 focus:ring-[#FE3301]/20 resize-none border border-gray-200 focus:border-[#FE3301] text-sm placeholder:text-gray-500"
-                    style={{
-                      scrollbarWidth: 'none',
-                      msOverflowStyle: 'none'
-                    }}
-                  />
-                </div>
+                  <div className="flex-1">
+                    <textarea
+                      value={input}
+                      onChange={handleInputChange}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter' && !e.shiftKey) {
+                          e.preventDefault();
+                          customHandleSubmit(e);
+                        }
+                      }}
+                      placeholder="Type your message..."
+                      className="w-full min-h-[40px] max-h-[120px] bg-gray-50 rounded-md px-4 py-2 focus:outline-none focus:ring-2 focus:ring-[#FE3301]/20 resize-none border border-gray-200 focus:border-[#FE3301] text-sm placeholder:text-gray-500"
+                      style={{
+                        scrollbarWidth: 'none',
+                        msOverflowStyle: 'none'
+                      }}
+                    />
+                  </div>
 
-                <div className="flex items-center space-x-2">
-                  <Button
-                    type="button"
-                    onClick={handleSpeechToText}
-                    className={`h-10 w-10 rounded-md flex items-center justify-center transition-colors ${
-                      isRecording 
-                        ? 'bg-red-500 hover:bg-red-600 text-white' 
-                        : 'bg-gray-50 hover:bg-gray-100 text-gray-700'
-                    }`}
-                  >
-                    <Mic className="h-4 w-4" />
-                  </Button>
-
-                  <Button 
-                    type="submit" 
-                    disabled={isLoading}
-                    className="bg-[#FE3301] text-white hover:bg-[#FE3301]/90 h-10 w-10 rounded-md flex items-center justify-center transition-colors"
-                  >
-                    <Send className="h-4 w-4" />
-                  </Button>
+                  <div className="flex items-center space-x-2">
+                    <Button
+                      type="button"
+                      onClick={handleSpeechToText}
+                      className={`h-10 w-10 rounded-md flex items-center justify-center transition-colors ${
+                        isRecording 
+                          ? 'bg-red-500 hover:bg-red-600 text-white' 
+                          : 'bg-gray-50 hover:bg-gray-100 text-gray-700'
+                      }`}
+                    >
+                      <Mic className="h-4 w-4" />
+                    </Button>
+
+                    <Button 
+                      type="submit" 
+                      disabled={isLoading}
+                      className="bg-[#FE3301] text-white hover:bg-[#FE3301]/90 h-10 w-10 rounded-md flex items-center justify-center transition-colors"
+                    >
+                      <Send className="h-4 w-4" />
+                    </Button>
+                  </div>
                 </div>
-              </div>
 
-              {/* Mobile View - Hidden on desktop */}
-              <div className="flex flex-col gap-2 w-full sm:hidden">
-                <div className="flex items-center gap-2 px-2">
-                  <Button
-                    type="button"
-                    onClick={handleNewChat}
-                    className="h-9 px-2.5 bg-gray-50 hover:bg-gray-100 text-gray-700 rounded-md transition-colors flex items-center gap-1.5"
-                  >
-                    <Plus className="h-3.5 w-3.5" />
-                    <span className="text-xs font-medium">New</span>
-                  </Button>
-
-                  <Select 
-                    value={selectedPersona} 
-                    onValueChange={(value) => handlePersonaChange(value, chatId, setSelectedPersona, setMessages)}
-                    defaultValue="general_med"
-                  >
-                    <SelectTrigger className="h-9 w-9 p-0 border-none bg-gray-50 hover:bg-gray-100 rounded-md flex items-center justify-center transition-colors">
-                      {selectedPersona ? (
-                        <div style={{ color: personaConfig[selectedPersona].color }}>
-                          {personaConfig[selectedPersona].icon}
-                        </div>
-                      ) : (
-                        <Activity className="h-3.5 w-3.5 text-gray-400" />
-                      )} 
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="general_med">General Medical</SelectItem>
-                      <SelectItem value="glp1">GLP-1</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
+                {/* Mobile View - Hidden on desktop */}
+                <div className="flex flex-col gap-2 w-full sm:hidden">
+                  <div className="flex items-center gap-2 px-2">
+                    <Button
+                      type="button"
+                      onClick={startNewChat}
+                      className="h-9 px-2.5 bg-gray-50 hover:bg-gray-100 text-gray-700 rounded-md transition-colors flex items-center gap-1.5"
+                    >
+                      <Plus className="h-3.5 w-3.5" />
+                      <span className="text-xs font-medium">New</span>
+                    </Button>
+
+                    <Select 
+                      value={selectedPersona} 
+                      onValueChange={changePersona}
+                      defaultValue="general_med"
+                    >
+                      <SelectTrigger className="h-9 w-9 p-0 border-none bg-gray-50 hover:bg-gray-100 rounded-md flex items-center justify-center transition-colors">
+                        {selectedPersona ? (
+                          <div style={{ color: personaConfig[selectedPersona].color }}>
+                            {personaConfig[selectedPersona].icon}
+                          </div>
+                        ) : (
+                          <Activity className="h-3.5 w-3.5 text-gray-400" />
+                        )} 
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="general_med">General Medical</SelectItem>
+                        <SelectItem value="glp1">GLP-1</SelectItem>
+                      </SelectContent>
+                    </Select>
+
+                    <Button
+                      type="button"
+                      onClick={() => setIncludeMemory(v => !v)}
+                      title={includeMemory ? 'Using your past questions (click to turn off)' : 'Past questions not used (click to turn on)'}
+                      className={`h-9 w-9 p-0 rounded-md flex items-center justify-center transition-colors ${
+                        includeMemory
+                          ? 'bg-[#FE3301]/10 hover:bg-[#FE3301]/20 text-[#FE3301]'
+                          : 'bg-gray-50 hover:bg-gray-100 text-gray-400'
+                      }`}
+                    >
+                      <Brain className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
 
-                <div className="flex items-center gap-2 px-2">
-                  <textarea
-                    value={input}
-                    onChange={handleInputChange}
-                    onKeyDown={(e) => {
-                      if (e.key === 'Enter' && !e.shiftKey) {
-                        e.preventDefault();
-                        customHandleSubmit(e);
-                      }
-                    }}
-                    placeholder="Type your message..."
-                    className="flex-1 min-h-[36px] max-h-[120px] bg-gray-50 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-[#FE3301]/20 resize-none border border-gray-200 focus:border-[#FE3301] text-sm placeholder:text-gray-500"
-                    style={{
-                      scrollbarWidth: 'none',
-                      msOverflowStyle: 'none'
-                    }}
-                  />
-                  
-                  <Button
-                    type="button"
-                    onClick={handleSpeechToText}
-                    className={`h-9 w-9 rounded-md flex items-center justify-center transition-colors ${
-                      isRecording 
-                        ? 'bg-red-500 hover:bg-red-600 text-white' 
-                        : 'bg-gray-50 hover:bg-gray-100 text-gray-700'
-                    }`}
-                  >
-                    <Mic className="h-3.5 w-3.5" />
-                  </Button>
-
-                  <Button 
-                    type="submit" 
-                    disabled={isLoading}
-                    className="bg-[#FE3301] text-white hover:bg-[#FE3301]/90 h-9 w-9 rounded-md flex items-center justify-center transition-colors"
-                  >
-                    <Send className="h-3.5 w-3.5" />
-                  </Button>
+                  <div className="flex items-center gap-2 px-2">
+                    <textarea
+                      value={input}
+                      onChange={handleInputChange}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter' && !e.shiftKey) {
+                          e.preventDefault();
+                          customHandleSubmit(e);
+                        }
+                      }}
+                      placeholder="Type your message..."
+                      className="flex-1 min-h-[36px] max-h-[120px] bg-gray-50 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-[#FE3301]/20 resize-none border border-gray-200 focus:border-[#FE3301] text-sm placeholder:text-gray-500"
+                      style={{
+                        scrollbarWidth: 'none',
+                        msOverflowStyle: 'none'
+                      }}
+                    />
+                    
+                    <Button
+                      type="button"
+                      onClick={handleSpeechToText}
+                      className={`h-9 w-9 rounded-md flex items-center justify-center transition-colors ${
+                        isRecording 
+                          ? 'bg-red-500 hover:bg-red-600 text-white' 
+                          : 'bg-gray-50 hover:bg-gray-100 text-gray-700'
+                      }`}
+                    >
+                      <Mic className="h-3.5 w-3.5" />
+                    </Button>
+
+                    <Button 
+                      type="submit" 
+                      disabled={isLoading}
+                      className="bg-[#FE3301] text-white hover:bg-[#FE3301]/90 h-9 w-9 rounded-md flex items-center justify-center transition-colors"
+                    >
+                      <Send className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
                 </div>
-              </div>
-            </form>
-          </CardContent>
-        </Card>
+              </form>
+            </CardContent>
+          </Card>
+        </div>
       </main>
 
       <style jsx global>{`
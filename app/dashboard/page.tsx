@@ -0,0 +1,314 @@
+"use client"
+
+import { useEffect, useState } from 'react';
+import { Header } from "@/components/Header";
+import { TrendChart, TrendAnnotation } from "@/components/TrendChart";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Plus, Trash2 } from "lucide-react";
+import toast from 'react-hot-toast';
+
+interface MetricKindDefinition {
+  label: string;
+  units: string[];
+  hasSecondaryValue?: boolean;
+}
+
+interface Measurement {
+  id: string;
+  kind: string;
+  value: number;
+  secondaryValue: number | null;
+  unit: string;
+  measuredAt: string;
+  notes: string | null;
+}
+
+interface Medication {
+  name: string;
+  createdAt: string;
+}
+
+interface TitrationPlan {
+  productName: string;
+  startDate: string;
+  currentStep: number;
+  stepStartedOn: string;
+  currentDose: string;
+  steps: { dose: string }[];
+}
+
+const RANGES = [
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: '6 months', days: 182 },
+  { label: '1 year', days: 365 }
+];
+
+function toLocalInputValue(date: Date) {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+}
+
+export default function DashboardPage() {
+  const [kinds, setKinds] = useState<Record<string, MetricKindDefinition>>({});
+  const [kind, setKind] = useState('weight');
+  const [rangeDays, setRangeDays] = useState(90);
+  const [measurements, setMeasurements] = useState<Measurement[]>([]);
+  const [annotations, setAnnotations] = useState<TrendAnnotation[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [form, setForm] = useState({ value: '', secondaryValue: '', unit: '', measuredAt: toLocalInputValue(new Date()) });
+
+  const to = new Date();
+  const from = new Date(to.getTime() - rangeDays * 24 * 60 * 60 * 1000);
+  const definition = kinds[kind];
+
+  const loadMeasurements = () => {
+    const since = new Date(Date.now() - rangeDays * 24 * 60 * 60 * 1000);
+    return fetch(`/api/measurements?kind=${kind}&from=${encodeURIComponent(since.toISOString())}`)
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => {
+        setMeasurements(data?.measurements || []);
+        if (data?.kinds) setKinds(data.kinds);
+      })
+      .catch(error => console.error('Error loading measurements:', error));
+  };
+
+  useEffect(() => {
+    loadMeasurements();
+  }, [kind, rangeDays]);
+
+  // Medication starts and titration steps are drawn as markers on every chart
+  useEffect(() => {
+    Promise.all([
+      fetch('/api/medications').then(res => (res.ok ? res.json() : null)),
+      fetch('/api/titration').then(res => (res.ok ? res.json() : null))
+    ])
+      .then(([medData, titrationData]) => {
+        const medications: Medication[] = medData?.medications || [];
+        const plans: TitrationPlan[] = titrationData?.plans || [];
+
+        setAnnotations([
+          ...medications.map(med => ({ date: med.createdAt, label: `Started ${med.name}` })),
+          ...plans.flatMap(plan => [
+            { date: `${plan.startDate}T00:00:00`, label: `${plan.productName} ${plan.steps[0].dose}` },
+            ...(plan.currentStep > 0
+              ? [{ date: `${plan.stepStartedOn}T00:00:00`, label: `${plan.productName} ${plan.currentDose}` }]
+              : [])
+          ])
+        ]);
+      })
+      .catch(error => console.error('Error loading medication events:', error));
+  }, []);
+
+  useEffect(() => {
+    setForm(prev => ({ ...prev, unit: definition?.units[0] || '' }));
+  }, [kind, definition]);
+
+  const handleSave = async () => {
+    if (!form.value || (definition?.hasSecondaryValue && !form.secondaryValue)) {
+      toast.error('Please enter a value');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const res = await fetch('/api/measurements', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          kind,
+          value: parseFloat(form.value),
+          secondaryValue: form.secondaryValue ? parseFloat(form.secondaryValue) : undefined,
+          unit: form.unit || undefined,
+          measuredAt: new Date(form.measuredAt).toISOString()
+        })
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.details?.[0]?.message || data.message || 'Failed to save measurement');
+      }
+
+      await loadMeasurements();
+      setForm(prev => ({ ...prev, value: '', secondaryValue: '', measuredAt: toLocalInputValue(new Date()) }));
+      setShowForm(false);
+      toast.success('Measurement saved');
+    } catch (error) {
+      console.error('Error saving measurement:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save measurement');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const res = await fetch(`/api/measurements/${id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        throw new Error('Failed to delete measurement');
+      }
+      setMeasurements(prev => prev.filter(m => m.id !== id));
+    } catch (error) {
+      console.error('Error deleting measurement:', error);
+      toast.error('Failed to delete measurement');
+    }
+  };
+
+  const first = measurements[0];
+  const latest = measurements[measurements.length - 1];
+  const change = first && latest && first !== latest ? Math.round((latest.value - first.value) * 10) / 10 : null;
+  const formatReading = (m: Measurement) =>
+    `${m.value}${m.secondaryValue !== null ? `/${m.secondaryValue}` : ''} ${m.unit}`;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-t from-[#FFF5F2] via-[#FFF9F7] to-white">
+      <Header />
+      <main className="container mx-auto px-4 py-8">
+        <div className="flex justify-between items-center mb-8">
+          <h1 className="text-3xl font-bold text-[#FE3301]">
+            Health Dashboard
+          </h1>
+          <Button
+            onClick={() => setShowForm(v => !v)}
+            className="bg-[#FE3301] text-white hover:bg-[#FE3301]/90"
+          >
+            <Plus className="h-5 w-5 mr-2" />
+            Log Measurement
+          </Button>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-4">
+          {Object.entries(kinds).map(([id, k]) => (
+            <Button
+              key={id}
+              variant={id === kind ? 'default' : 'outline'}
+              onClick={() => setKind(id)}
+              className={id === kind ? 'bg-[#FE3301] text-white hover:bg-[#FE3301]/90' : ''}
+            >
+              {k.label}
+            </Button>
+          ))}
+        </div>
+
+        {showForm && definition && (
+          <Card className="bg-white/80 backdrop-blur-sm mb-6">
+            <CardContent className="pt-6 grid gap-4 md:grid-cols-4 items-end">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">
+                  {definition.hasSecondaryValue ? 'Systolic' : definition.label}
+                </label>
+                <Input
+                  type="number"
+                  step="any"
+                  value={form.value}
+                  onChange={e => setForm(prev => ({ ...prev, value: e.target.value }))}
+                />
+              </div>
+              {definition.hasSecondaryValue && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Diastolic</label>
+                  <Input
+                    type="number"
+                    step="any"
+                    value={form.secondaryValue}
+                    onChange={e => setForm(prev => ({ ...prev, secondaryValue: e.target.value }))}
+                  />
+                </div>
+              )}
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Unit</label>
+                <select
+                  className="w-full border rounded px-3 py-2"
+                  value={form.unit}
+                  onChange={e => setForm(prev => ({ ...prev, unit: e.target.value }))}
+                >
+                  {definition.units.map(unit => (
+                    <option key={unit} value={unit}>{unit}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Measured at</label>
+                <Input
+                  type="datetime-local"
+                  value={form.measuredAt}
+                  onChange={e => setForm(prev => ({ ...prev, measuredAt: e.target.value }))}
+                />
+              </div>
+              <Button
+                onClick={handleSave}
+                disabled={isSaving}
+                className="bg-[#FE3301] text-white hover:bg-[#FE3301]/90"
+              >
+                {isSaving ? 'Saving...' : 'Save'}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card className="bg-white/80 backdrop-blur-sm">
+          <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2 pb-2">
+            <div>
+              <CardTitle className="text-[#FE3301]">{definition?.label || 'Trend'}</CardTitle>
+              {latest && (
+                <p className="text-sm text-gray-600">
+                  Latest {formatReading(latest)}
+                  {change !== null && ` · ${change > 0 ? '+' : ''}${change} ${latest.unit} over this period`}
+                </p>
+              )}
+            </div>
+            <div className="flex gap-1">
+              {RANGES.map(range => (
+                <Button
+                  key={range.days}
+                  size="sm"
+                  variant={range.days === rangeDays ? 'default' : 'ghost'}
+                  onClick={() => setRangeDays(range.days)}
+                  className={range.days === rangeDays ? 'bg-[#FE3301] text-white hover:bg-[#FE3301]/90' : ''}
+                >
+                  {range.label}
+                </Button>
+              ))}
+            </div>
+          </CardHeader>
+          <CardContent>
+            <TrendChart
+              points={measurements.map(m => ({ date: m.measuredAt, value: m.value, secondaryValue: m.secondaryValue }))}
+              annotations={annotations}
+              unit={definition?.units[0] || ''}
+              from={from}
+              to={to}
+            />
+          </CardContent>
+        </Card>
+
+        {measurements.length > 0 && (
+          <Card className="bg-white/80 backdrop-blur-sm mt-8">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-[#FE3301]">Readings</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ul className="divide-y text-sm">
+                {[...measurements].reverse().map(m => (
+                  <li key={m.id} className="flex items-center justify-between py-2">
+                    <span>
+                      <span className="font-medium">{formatReading(m)}</span>
+                      <span className="text-gray-500 ml-2">
+                        {new Date(m.measuredAt).toLocaleString([], { month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit' })}
+                      </span>
+                    </span>
+                    <Button variant="ghost" size="icon" onClick={() => handleDelete(m.id)}>
+                      <Trash2 className="h-4 w-4 text-red-500" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,247 @@
+"use client"
+
+import { useEffect, useState } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { Header } from "@/components/Header";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChevronLeft, ChevronRight, Trash2, Utensils } from "lucide-react";
+import toast from 'react-hot-toast';
+
+interface MacroTotals {
+  calories: number;
+  carbohydrates: number;
+  proteins: number;
+  fats: number;
+  fiber: number;
+}
+
+interface Meal {
+  id: string;
+  source: 'calculator' | 'before_after' | 'manual';
+  dishName: string;
+  eatenAt: string;
+  thumbnail: string | null;
+  served: MacroTotals;
+  portionConsumed: number;
+  consumed: MacroTotals;
+}
+
+interface PeriodTotals extends MacroTotals {
+  date: string;
+  mealCount: number;
+}
+
+const PORTIONS = [0.25, 0.5, 0.75, 1];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDateKey(date: Date) {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 10);
+}
+
+function startOfDay(date: Date) {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  return start;
+}
+
+export default function DiaryPage() {
+  const [selectedDay, setSelectedDay] = useState(() => startOfDay(new Date()));
+  const [meals, setMeals] = useState<Meal[]>([]);
+  const [daily, setDaily] = useState<PeriodTotals[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const offset = new Date().getTimezoneOffset();
+
+  // The selected day plus the six days before it, for the weekly chart
+  const loadMeals = () => {
+    const from = new Date(selectedDay.getTime() - 6 * DAY_MS);
+    const to = new Date(selectedDay.getTime() + DAY_MS - 1);
+    return fetch(`/api/meals?from=${encodeURIComponent(from.toISOString())}&to=${encodeURIComponent(to.toISOString())}&offset=${offset}`)
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => {
+        setMeals(data?.meals || []);
+        setDaily(data?.daily || []);
+      })
+      .catch(error => console.error('Error loading meals:', error));
+  };
+
+  useEffect(() => {
+    setIsLoading(true);
+    loadMeals().finally(() => setIsLoading(false));
+  }, [selectedDay]);
+
+  const handlePortionChange = async (meal: Meal, portionConsumed: number) => {
+    try {
+      const res = await fetch(`/api/meals/${meal.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ portionConsumed })
+      });
+      if (!res.ok) {
+        throw new Error('Failed to update meal');
+      }
+      await loadMeals();
+    } catch (error) {
+      console.error('Error updating meal:', error);
+      toast.error('Failed to update meal');
+    }
+  };
+
+  const handleDelete = async (meal: Meal) => {
+    try {
+      const res = await fetch(`/api/meals/${meal.id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        throw new Error('Failed to delete meal');
+      }
+      await loadMeals();
+    } catch (error) {
+      console.error('Error deleting meal:', error);
+      toast.error('Failed to delete meal');
+    }
+  };
+
+  const dayKey = toDateKey(selectedDay);
+  const isToday = dayKey === toDateKey(new Date());
+  const dayMeals = meals.filter(meal => toDateKey(new Date(meal.eatenAt)) === dayKey);
+  const dayTotals = daily.find(day => day.date === dayKey);
+  const weekDays = Array.from({ length: 7 }, (_, i) => toDateKey(new Date(selectedDay.getTime() - (6 - i) * DAY_MS)));
+  const weekTotals = weekDays.map(date => daily.find(day => day.date === date));
+  const maxCalories = Math.max(...weekTotals.map(day => day?.calories || 0), 1);
+  const loggedDays = weekTotals.filter(Boolean).length;
+  const weekCalories = weekTotals.reduce((sum, day) => sum + (day?.calories || 0), 0);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-t from-[#FFF5F2] via-[#FFF9F7] to-white">
+      <Header />
+      <main className="container mx-auto px-4 py-8">
+        <div className="flex flex-wrap justify-between items-center gap-4 mb-8">
+          <h1 className="text-3xl font-bold text-[#FE3301]">
+            Food Diary
+          </h1>
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="icon" onClick={() => setSelectedDay(startOfDay(new Date(selectedDay.getTime() - DAY_MS / 2)))}>
+              <ChevronLeft className="h-5 w-5" />
+            </Button>
+            <span className="font-medium min-w-40 text-center">
+              {isToday ? 'Today' : selectedDay.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' })}
+            </span>
+            <Button
+              variant="ghost"
+              size="icon"
+              disabled={isToday}
+              onClick={() => setSelectedDay(startOfDay(new Date(selectedDay.getTime() + DAY_MS + 60 * 60 * 1000)))}
+            >
+              <ChevronRight className="h-5 w-5" />
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-5 mb-8">
+          {([
+            ['Calories', dayTotals?.calories, 'kcal'],
+            ['Carbs', dayTotals?.carbohydrates, 'g'],
+            ['Protein', dayTotals?.proteins, 'g'],
+            ['Fat', dayTotals?.fats, 'g'],
+            ['Fiber', dayTotals?.fiber, 'g']
+          ] as const).map(([label, value, unit]) => (
+            <Card key={label} className="bg-white/80 backdrop-blur-sm">
+              <CardContent className="pt-6 text-center">
+                <div className="text-2xl font-semibold">
+                  {Math.round(value || 0)}
+                  <span className="text-sm ml-1 text-gray-500">{unit}</span>
+                </div>
+                <div className="text-sm text-gray-600">{label}</div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <Card className="bg-white/80 backdrop-blur-sm">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-[#FE3301]">Meals</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <p className="text-sm text-gray-500">Loading meals...</p>
+            ) : dayMeals.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                No meals logged for this day. Analyze a photo with the{' '}
+                <Link href="/calculator" className="text-[#FE3301] underline">calculator</Link> or the{' '}
+                <Link href="/food-analysis" className="text-[#FE3301] underline">before/after analysis</Link> to add one.
+              </p>
+            ) : (
+              <ul className="divide-y">
+                {dayMeals.map(meal => (
+                  <li key={meal.id} className="flex flex-wrap items-center gap-4 py-3">
+                    <div className="relative h-16 w-16 rounded-lg overflow-hidden bg-gray-100 flex items-center justify-center">
+                      {meal.thumbnail ? (
+                        <Image src={meal.thumbnail} alt={meal.dishName} fill className="object-cover" />
+                      ) : (
+                        <Utensils className="h-6 w-6 text-gray-400" />
+                      )}
+                    </div>
+                    <div className="flex-1 min-w-48">
+                      <div className="font-medium">{meal.dishName}</div>
+                      <div className="text-sm text-gray-500">
+                        {new Date(meal.eatenAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+                        {' · '}{Math.round(meal.consumed.calories)} kcal
+                        {' · '}C {meal.consumed.carbohydrates}g · P {meal.consumed.proteins}g · F {meal.consumed.fats}g
+                      </div>
+                    </div>
+                    <select
+                      className="border rounded px-2 py-1 text-sm"
+                      value={meal.portionConsumed}
+                      onChange={e => handlePortionChange(meal, parseFloat(e.target.value))}
+                    >
+                      {(PORTIONS.includes(meal.portionConsumed) ? PORTIONS : [...PORTIONS, meal.portionConsumed].sort((a, b) => a - b)).map(portion => (
+                        <option key={portion} value={portion}>{Math.round(portion * 100)}% eaten</option>
+                      ))}
+                    </select>
+                    <Button variant="ghost" size="icon" onClick={() => handleDelete(meal)}>
+                      <Trash2 className="h-4 w-4 text-red-500" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="bg-white/80 backdrop-blur-sm mt-8">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-[#FE3301]">Last 7 Days</CardTitle>
+            <p className="text-sm text-gray-500">
+              {Math.round(weekCalories)} kcal total
+              {loggedDays > 0 && ` · ${Math.round(weekCalories / loggedDays)} kcal per logged day`}
+            </p>
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-end gap-2 h-40">
+              {weekDays.map((date, i) => {
+                const calories = weekTotals[i]?.calories || 0;
+                return (
+                  <button
+                    key={date}
+                    onClick={() => setSelectedDay(startOfDay(new Date(`${date}T12:00:00`)))}
+                    className="flex-1 flex flex-col items-center justify-end h-full"
+                  >
+                    <span className="text-xs text-gray-500 mb-1">{calories > 0 ? Math.round(calories) : ''}</span>
+                    <div
+                      className={`w-full rounded-t ${date === dayKey ? 'bg-[#FE3301]' : 'bg-[#FE3301]/30'}`}
+                      style={{ height: `${(calories / maxCalories) * 100}%`, minHeight: calories > 0 ? 4 : 0 }}
+                    />
+                    <span className="text-xs text-gray-600 mt-1">
+                      {new Date(`${date}T12:00:00`).toLocaleDateString([], { weekday: 'short' })}
+                    </span>
+                  </button>
+                );
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
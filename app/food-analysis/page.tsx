@@ -4,6 +4,14 @@ import { Header } from "@/components/Header";
 import { Button } from "@/components/ui/button";
 import { useState, useRef } from "react";
 import Image from "next/image";
+import Link from "next/link";
+import { createThumbnail } from "@/lib/thumbnail";
+
+interface LoggedMeal {
+  dishName: string;
+  portionConsumed: number;
+  consumed: { calories: number };
+}
 
 export default function FoodAnalysis() {
   const [beforeImage, setBeforeImage] = useState<File | null>(null);
@@ -12,6 +20,7 @@ export default function FoodAnalysis() {
   const [afterPreview, setAfterPreview] = useState<string>("");
   const [isLoading, setIsLoading] = useState(false);
   const [analysisResult, setAnalysisResult] = useState<string | null>(null);
+  const [loggedMeal, setLoggedMeal] = useState<LoggedMeal | null>(null);
   const beforeInputRef = useRef<HTMLInputElement>(null);
   const afterInputRef = useRef<HTMLInputElement>(null);
 
@@ -72,12 +81,19 @@ export default function FoodAnalysis() {
 
     try {
       setIsLoading(true);
+      setLoggedMeal(null);
       
       // Create FormData object
       const formData = new FormData();
       formData.append('beforeImage', beforeImage);
       formData.append('afterImage', afterImage);
 
+      // Preview for the meal diary entry
+      const thumbnail = await createThumbnail(beforePreview).catch(() => null);
+      if (thumbnail) {
+        formData.append('thumbnail', thumbnail);
+      }
+
       // Send to API
       const response = await fetch('/api/food-analysis', {
         method: 'POST',
@@ -90,6 +106,7 @@ export default function FoodAnalysis() {
       if (responseData.success && responseData.analysis) {
         // Set the analysis result directly from the text response
         setAnalysisResult(responseData.analysis);
+        setLoggedMeal(responseData.meal || null);
       } else if (responseData.rawText) {
         // Fallback to rawText if available
         setAnalysisResult(responseData.rawText);
@@ -154,6 +171,13 @@ export default function FoodAnalysis() {
                   {renderAnalysisResult(analysisResult)}
                 </div>
               )}
+              {loggedMeal && (
+                <p className="text-sm text-gray-600">
+                  Saved to your <Link href="/diary" className="text-[#FE3301] underline">food diary</Link>:{' '}
+                  {loggedMeal.dishName}, {Math.round(loggedMeal.portionConsumed * 100)}% eaten
+                  (about {Math.round(loggedMeal.consumed.calories)} kcal).
+                </p>
+              )}
             </div>
 
             {/* Before/After Image Upload Section */}
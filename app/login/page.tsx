@@ -0,0 +1,122 @@
+"use client"
+
+import { useState } from 'react';
+import { Header } from "@/components/Header";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import toast from 'react-hot-toast';
+
+type AuthMode = 'signin' | 'register';
+
+export default function LoginPage() {
+  const [mode, setMode] = useState<AuthMode>('signin');
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!email || !password) {
+      toast.error('Please enter your email and password');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(mode === 'signin' ? '/api/auth/login' : '/api/auth/register', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(mode === 'signin' ? { email, password } : { email, password, name: name || undefined })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.message || 'Authentication failed');
+      }
+
+      // Only follow same-site relative redirects
+      const next = new URLSearchParams(window.location.search).get('next');
+      window.location.href = next && next.startsWith('/') && !next.startsWith('//') ? next : '/';
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Authentication failed');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-t from-[#FFF5F2] via-[#FFF9F7] to-white">
+      <Header />
+      <main className="container mx-auto px-4 py-16 flex justify-center">
+        <Card className="w-full max-w-md bg-white/80 backdrop-blur-sm">
+          <CardHeader>
+            <CardTitle className="text-2xl font-bold text-[#FE3301]">
+              {mode === 'signin' ? 'Sign In' : 'Create Account'}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {mode === 'register' && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Name (Optional)</label>
+                  <Input
+                    placeholder="Your name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    autoComplete="name"
+                  />
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Email</label>
+                <Input
+                  type="email"
+                  placeholder="you@example.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  autoComplete="email"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Password</label>
+                <Input
+                  type="password"
+                  placeholder={mode === 'register' ? 'At least 8 characters' : 'Your password'}
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  autoComplete={mode === 'signin' ? 'current-password' : 'new-password'}
+                />
+              </div>
+
+              <Button
+                type="submit"
+                disabled={isSubmitting}
+                className="w-full bg-[#FE3301] text-white hover:bg-[#FE3301]/90 mt-4"
+              >
+                {isSubmitting ? 'Please wait...' : mode === 'signin' ? 'Sign In' : 'Create Account'}
+              </Button>
+            </form>
+
+            <p className="text-sm text-gray-600 text-center mt-6">
+              {mode === 'signin' ? "Don't have an account?" : 'Already have an account?'}{' '}
+              <button
+                type="button"
+                onClick={() => setMode(mode === 'signin' ? 'register' : 'signin')}
+                className="text-[#FE3301] font-medium hover:underline"
+              >
+                {mode === 'signin' ? 'Create one' : 'Sign in'}
+              </button>
+            </p>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -2,23 +2,32 @@
 
 import { useState, useEffect } from 'react';
 import { Header } from "@/components/Header";
+import { InteractionsPanel } from "@/components/InteractionsPanel";
+import { UpcomingDoses } from "@/components/UpcomingDoses";
+import { DoseHistory } from "@/components/DoseHistory";
+import { TitrationTracker } from "@/components/TitrationTracker";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Plus, X, Trash2 } from "lucide-react";
+import { Plus, X, Trash2, Pencil, ChevronUp, ChevronDown } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import toast from 'react-hot-toast';
 
 interface Medication {
+  id?: string;
   name: string;
   dosage: string;
   frequency: string;
   timeOfDay: string[];
   notes?: string;
+  updatedAt?: string;
 }
 
 export default function MedsPage() {
   const [showAddModal, setShowAddModal] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [doseLogVersion, setDoseLogVersion] = useState(0);
   const [medications, setMedications] = useState<Medication[]>([]);
   const [newMedication, setNewMedication] = useState<Medication>({
     name: '',
@@ -33,11 +42,59 @@ export default function MedsPage() {
 
   const timeOptions = ['Morning', 'Afternoon', 'Evening', 'Bedtime'];
 
-  useEffect(() => {
+  const emptyMedication: Medication = {
+    name: '',
+    dosage: '',
+    frequency: '',
+    timeOfDay: [],
+    notes: ''
+  };
+
+  const loadMedications = async () => {
+    const res = await fetch('/api/medications');
+    const data = await res.json();
+    if (!res.ok) {
+      throw new Error(data.message || 'Failed to load medications');
+    }
+    return data.medications as Medication[];
+  };
+
+  // Medications used to live only in localStorage; move them to the account once
+  const importLocalMedications = async () => {
     const storedMeds = localStorage.getItem('medications');
-    if (storedMeds) {
-      setMedications(JSON.parse(storedMeds));
+    if (!storedMeds) return false;
+
+    const localMeds: Medication[] = JSON.parse(storedMeds);
+    let imported = 0;
+    for (const med of localMeds) {
+      const res = await fetch('/api/medications', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(med)
+      });
+      if (res.ok) imported++;
+    }
+    if (imported === localMeds.length) {
+      localStorage.removeItem('medications');
     }
+    return imported > 0;
+  };
+
+  useEffect(() => {
+    const initialize = async () => {
+      try {
+        let meds = await loadMedications();
+        if (meds.length === 0 && await importLocalMedications()) {
+          meds = await loadMedications();
+        }
+        setMedications(meds);
+      } catch (error) {
+        console.error('Error loading medications:', error);
+        toast.error('Failed to load medications');
+      }
+    };
+
+    initialize();
   }, []);
 
   const handleTimeSelection = (time: string) => {
@@ -49,33 +106,95 @@ export default function MedsPage() {
     }));
   };
 
-  const handleSaveMedication = () => {
+  const closeModal = () => {
+    setShowAddModal(false);
+    setEditingId(null);
+    setNewMedication(emptyMedication);
+    setAvailableStrengths([]);
+  };
+
+  const handleEditMedication = (med: Medication) => {
+    setNewMedication({
+      name: med.name,
+      dosage: med.dosage,
+      frequency: med.frequency,
+      timeOfDay: med.timeOfDay,
+      notes: med.notes || ''
+    });
+    setEditingId(med.id || null);
+    setShowAddModal(true);
+  };
+
+  const handleSaveMedication = async () => {
     if (!newMedication.name || !newMedication.dosage || !newMedication.frequency || newMedication.timeOfDay.length === 0) {
       toast.error('Please fill in all required fields');
       return;
     }
 
-    const updatedMedications = [...medications, newMedication];
-    setMedications(updatedMedications);
-    
-    localStorage.setItem('medications', JSON.stringify(updatedMedications));
-    
-    setNewMedication({
-      name: '',
-      dosage: '',
-      frequency: '',
-      timeOfDay: [],
-      notes: ''
-    });
-    setShowAddModal(false);
-    toast.success('Medication added successfully');
+    setIsSaving(true);
+    try {
+      const res = await fetch(editingId ? `/api/medications/${editingId}` : '/api/medications', {
+        method: editingId ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(newMedication)
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.message || 'Failed to save medication');
+      }
+
+      setMedications(prev => editingId
+        ? prev.map(med => (med.id === editingId ? data.medication : med))
+        : [...prev, data.medication]
+      );
+      toast.success(editingId ? 'Medication updated successfully' : 'Medication added successfully');
+      closeModal();
+    } catch (error) {
+      console.error('Error saving medication:', error);
+      toast.error('Failed to save medication');
+    } finally {
+      setIsSaving(false);
+    }
   };
 
-  const handleDeleteMedication = (index: number) => {
-    const updatedMedications = medications.filter((_, i) => i !== index);
-    setMedications(updatedMedications);
-    localStorage.setItem('medications', JSON.stringify(updatedMedications));
-    toast.success('Medication deleted successfully');
+  const handleDeleteMedication = async (id: string) => {
+    try {
+      const res = await fetch(`/api/medications/${id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        throw new Error('Failed to delete medication');
+      }
+
+      setMedications(prev => prev.filter(med => med.id !== id));
+      toast.success('Medication deleted successfully');
+    } catch (error) {
+      console.error('Error deleting medication:', error);
+      toast.error('Failed to delete medication');
+    }
+  };
+
+  const handleMoveMedication = async (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= medications.length) return;
+
+    const previous = medications;
+    const reordered = [...medications];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setMedications(reordered);
+
+    try {
+      const res = await fetch('/api/medications/reorder', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids: reordered.map(med => med.id) })
+      });
+      if (!res.ok) {
+        throw new Error('Failed to reorder medications');
+      }
+    } catch (error) {
+      console.error('Error reordering medications:', error);
+      setMedications(previous);
+      toast.error('Failed to reorder medications');
+    }
   };
 
   const fetchSuggestions = async (query: string) => {
@@ -118,17 +237,45 @@ export default function MedsPage() {
         {/* Medications List */}
         <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
           {medications.map((med, index) => (
-            <Card key={index} className="bg-white/80 backdrop-blur-sm relative">
+            <Card key={med.id || index} className="bg-white/80 backdrop-blur-sm relative">
               <CardHeader className="flex flex-row items-center justify-between pb-2">
-                <CardTitle className="text-[#FE3301]">{med.name}</CardTitle>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => handleDeleteMedication(index)}
-                  className="absolute top-2 right-2 h-8 w-8 p-0 hover:bg-red-100 rounded-full"
-                >
-                  <Trash2 className="h-4 w-4 text-red-500" />
-                </Button>
+                <CardTitle className="text-[#FE3301] pr-32">{med.name}</CardTitle>
+                <div className="absolute top-2 right-2 flex gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleMoveMedication(index, -1)}
+                    disabled={index === 0}
+                    className="h-8 w-8 p-0 hover:bg-gray-100 rounded-full"
+                  >
+                    <ChevronUp className="h-4 w-4 text-gray-500" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleMoveMedication(index, 1)}
+                    disabled={index === medications.length - 1}
+                    className="h-8 w-8 p-0 hover:bg-gray-100 rounded-full"
+                  >
+                    <ChevronDown className="h-4 w-4 text-gray-500" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleEditMedication(med)}
+                    className="h-8 w-8 p-0 hover:bg-[#FE3301]/10 rounded-full"
+                  >
+                    <Pencil className="h-4 w-4 text-[#FE3301]" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => med.id && handleDeleteMedication(med.id)}
+                    className="h-8 w-8 p-0 hover:bg-red-100 rounded-full"
+                  >
+                    <Trash2 className="h-4 w-4 text-red-500" />
+                  </Button>
+                </div>
               </CardHeader>
               <CardContent>
                 <div className="space-y-2">
@@ -142,16 +289,30 @@ export default function MedsPage() {
           ))}
         </div>
 
+        <UpcomingDoses
+          refreshKey={medications.map(med => `${med.id}:${med.updatedAt}`).join(',')}
+          onDoseLogged={() => setDoseLogVersion(v => v + 1)}
+        />
+
+        <DoseHistory
+          refreshKey={`${doseLogVersion}:${medications.length}`}
+          medicationNames={Object.fromEntries(medications.map(med => [med.id, med.name]))}
+        />
+
+        <TitrationTracker />
+
+        <InteractionsPanel medicationCount={medications.length} />
+
         {/* Add Medication Modal */}
         {showAddModal && (
           <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
             <Card className="w-full max-w-md mx-4 bg-white">
               <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                <CardTitle className="text-2xl font-bold">Add Medication</CardTitle>
+                <CardTitle className="text-2xl font-bold">{editingId ? 'Edit Medication' : 'Add Medication'}</CardTitle>
                 <Button
                   variant="ghost"
                   size="icon"
-                  onClick={() => setShowAddModal(false)}
+                  onClick={closeModal}
                   className="text-gray-500 hover:text-gray-700"
                 >
                   <X className="h-5 w-5" />
@@ -264,8 +425,9 @@ export default function MedsPage() {
                 <Button
                   className="w-full bg-[#FE3301] text-white hover:bg-[#FE3301]/90 mt-4"
                   onClick={handleSaveMedication}
+                  disabled={isSaving}
                 >
-                  Save Medication
+                  {isSaving ? 'Saving...' : 'Save Medication'}
                 </Button>
               </CardContent>
             </Card>
@@ -7,12 +7,17 @@ import Footer from "@/components/Footer";
 import { Header } from "@/components/Header";
 import Section1 from "@/components/Section1";
 import Image from "next/image";
+import { useRouter } from "next/navigation";
+import { useSession } from "@/lib/session";
 
 export default function Home() {
+  const router = useRouter();
+  const { isSignedIn } = useSession();
+
   return (
     <>
     <Header />
-    <Section1 isSignedIn={false} onSignIn={() => {}} />
+    <Section1 isSignedIn={isSignedIn} onSignIn={() => router.push('/login')} />
     <FeaturesSection />
     <FAQSection />
     <Footer />
@@ -0,0 +1,132 @@
+"use client"
+
+import { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Check, MessageSquare, Pencil, Plus, Trash2, X } from "lucide-react";
+
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  persona: string;
+  messageCount: number;
+  updatedAt: string;
+}
+
+interface ConversationSidebarProps {
+  conversations: ConversationSummary[];
+  activeId: string | null;
+  isLoading?: boolean;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}
+
+function formatUpdatedAt(value: string) {
+  const date = new Date(value);
+  return date.toDateString() === new Date().toDateString()
+    ? date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })
+    : date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+}
+
+export function ConversationSidebar({
+  conversations,
+  activeId,
+  isLoading,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete
+}: ConversationSidebarProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const startRename = (conversation: ConversationSummary) => {
+    setEditingId(conversation.id);
+    setDraftTitle(conversation.title);
+  };
+
+  const submitRename = () => {
+    if (editingId && draftTitle.trim()) {
+      onRename(editingId, draftTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <Button
+        type="button"
+        onClick={onNew}
+        className="mb-3 bg-[#FE3301] text-white hover:bg-[#FE3301]/90"
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        New chat
+      </Button>
+
+      <div className="flex-1 overflow-y-auto space-y-1">
+        {isLoading ? (
+          <p className="text-sm text-gray-500 px-2">Loading conversations...</p>
+        ) : conversations.length === 0 ? (
+          <p className="text-sm text-gray-500 px-2">Your conversations will appear here.</p>
+        ) : (
+          conversations.map(conversation => (
+            <div
+              key={conversation.id}
+              className={`group rounded-md px-2 py-2 text-sm transition-colors ${
+                conversation.id === activeId ? 'bg-[#FE3301]/10' : 'hover:bg-gray-100'
+              }`}
+            >
+              {editingId === conversation.id ? (
+                <div className="flex items-center gap-1">
+                  <Input
+                    value={draftTitle}
+                    autoFocus
+                    maxLength={120}
+                    onChange={e => setDraftTitle(e.target.value)}
+                    onKeyDown={e => {
+                      if (e.key === 'Enter') submitRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="h-8 text-sm"
+                  />
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={submitRename}>
+                    <Check className="h-4 w-4 text-[#FE3301]" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setEditingId(null)}>
+                    <X className="h-4 w-4 text-gray-500" />
+                  </Button>
+                </div>
+              ) : (
+                <div className="flex items-center gap-2">
+                  <button
+                    type="button"
+                    onClick={() => onSelect(conversation.id)}
+                    className="flex-1 min-w-0 flex items-center gap-2 text-left"
+                  >
+                    <MessageSquare className="h-4 w-4 shrink-0 text-gray-400" />
+                    <span className="flex-1 min-w-0">
+                      <span className="block truncate font-medium text-gray-800">{conversation.title}</span>
+                      <span className="block text-xs text-gray-500">
+                        {formatUpdatedAt(conversation.updatedAt)} · {conversation.messageCount} messages
+                      </span>
+                    </span>
+                  </button>
+                  <div className="flex opacity-0 group-hover:opacity-100 transition-opacity">
+                    <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => startRename(conversation)}>
+                      <Pencil className="h-3.5 w-3.5 text-gray-500" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => onDelete(conversation.id)}>
+                      <Trash2 className="h-3.5 w-3.5 text-red-500" />
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
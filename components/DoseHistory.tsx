@@ -0,0 +1,137 @@
+"use client"
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Flame } from "lucide-react";
+
+interface MedicationAdherence {
+  medicationId: string;
+  name: string;
+  expected: number;
+  taken: number;
+  late: number;
+  skipped: number;
+  missed: number;
+  adherenceRate: number | null;
+  currentStreak: number;
+  longestStreak: number;
+  missedBySlot: Record<string, number>;
+}
+
+interface AdherenceReport {
+  overall: {
+    expected: number;
+    taken: number;
+    adherenceRate: number | null;
+    missedBySlot: Record<string, number>;
+  };
+  medications: MedicationAdherence[];
+}
+
+interface DoseLog {
+  id: string;
+  medicationId: string;
+  scheduledAt: string;
+  status: 'taken' | 'skipped' | 'snoozed';
+  takenAt: string | null;
+}
+
+interface DoseHistoryProps {
+  refreshKey: string;
+  medicationNames: Record<string, string>;
+}
+
+const HISTORY_DAYS = 30;
+
+// Adherence summary and recent dose log for the meds page
+export function DoseHistory({ refreshKey, medicationNames }: DoseHistoryProps) {
+  const [report, setReport] = useState<AdherenceReport | null>(null);
+  const [logs, setLogs] = useState<DoseLog[]>([]);
+  const offset = new Date().getTimezoneOffset();
+
+  useEffect(() => {
+    Promise.all([
+      fetch(`/api/doses/adherence?days=${HISTORY_DAYS}&offset=${offset}`).then(res => (res.ok ? res.json() : null)),
+      fetch('/api/doses').then(res => (res.ok ? res.json() : null))
+    ])
+      .then(([adherence, history]) => {
+        setReport(adherence);
+        setLogs(history?.doses || []);
+      })
+      .catch(error => console.error('Error loading dose history:', error));
+  }, [refreshKey, offset]);
+
+  if (!report || report.overall.expected === 0) {
+    return null;
+  }
+
+  const missedSlots = Object.entries(report.overall.missedBySlot).sort((a, b) => b[1] - a[1]);
+
+  return (
+    <Card className="bg-white/80 backdrop-blur-sm mt-8">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-[#FE3301]">Dose History</CardTitle>
+        <p className="text-sm text-gray-500">
+          Last {HISTORY_DAYS} days · {report.overall.taken} of {report.overall.expected} doses taken
+          {report.overall.adherenceRate !== null && ` (${report.overall.adherenceRate}%)`}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 md:grid-cols-2">
+          {report.medications.map((med) => (
+            <div key={med.medicationId} className="rounded-lg border bg-white p-4 space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="font-medium">{med.name}</span>
+                <span className="text-sm font-semibold text-[#FE3301]">
+                  {med.adherenceRate !== null ? `${med.adherenceRate}%` : 'N/A'}
+                </span>
+              </div>
+              <Progress value={med.adherenceRate ?? 0} />
+              <div className="text-xs text-gray-600 flex flex-wrap gap-x-3">
+                <span>Taken {med.taken}</span>
+                <span>Late {med.late}</span>
+                <span>Skipped {med.skipped}</span>
+                <span>Missed {med.missed}</span>
+              </div>
+              <div className="text-xs text-gray-600 flex items-center">
+                <Flame className="h-3 w-3 mr-1 text-[#FE3301]" />
+                Current streak {med.currentStreak} · Best {med.longestStreak}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {missedSlots.length > 0 && (
+          <div>
+            <h4 className="text-sm font-semibold mb-2">Missed or skipped doses by time of day</h4>
+            <div className="flex flex-wrap gap-2">
+              {missedSlots.map(([slot, count]) => (
+                <span key={slot} className="text-xs rounded-full bg-red-50 text-red-700 border border-red-200 px-3 py-1">
+                  {slot}: {count}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {logs.length > 0 && (
+          <div>
+            <h4 className="text-sm font-semibold mb-2">Recent log</h4>
+            <ul className="divide-y text-sm max-h-60 overflow-y-auto">
+              {logs.slice(0, 20).map((log) => (
+                <li key={log.id} className="flex justify-between py-1.5">
+                  <span>
+                    {medicationNames[log.medicationId] || 'Medication'} ·{' '}
+                    {new Date(log.scheduledAt).toLocaleString([], { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+                  </span>
+                  <span className="capitalize text-gray-600">{log.status}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,9 +1,11 @@
 import Link from 'next/link'
 import { Button } from "@/components/ui/button"
-import { Pill, Home, MessageCircle, Calculator, Utensils } from "lucide-react"
+import { Pill, Home, MessageCircle, Calculator, Utensils, LineChart, NotebookPen, LogIn, LogOut } from "lucide-react"
 import { useState } from 'react'
+import { useSession } from "@/lib/session"
 export function Header() {
   const [isHovered, setIsHovered] = useState(false);
+  const { isSignedIn, loading, signOut } = useSession();
   return (
     <header 
       className="sticky top-0 z-50 w-full border-b border-orange-200 shadow-sm transition-all duration-300 hover:shadow-md bg-white/95 backdrop-blur-sm"
@@ -53,6 +55,15 @@ export function Header() {
                 <span className="hidden sm:inline">Meds</span>
               </Button>
             </Link>
+            <Link href="/dashboard">
+              <Button 
+                variant="ghost" 
+                className="flex items-center text-[#FE3301] hover:text-orange-800 hover:bg-orange-100 transition-all duration-300 hover:-translate-y-1"
+              >
+                <LineChart className="mr-2 h-5 w-5 transition-transform duration-300 hover:rotate-12" />
+                <span className="hidden sm:inline">Dashboard</span>
+              </Button>
+            </Link>
             <Link href="/calculator">
               <Button 
                 variant="ghost" 
@@ -71,6 +82,35 @@ export function Header() {
                 <span className="hidden sm:inline">Food Analysis</span>
               </Button>
             </Link>
+            <Link href="/diary">
+              <Button 
+                variant="ghost" 
+                className="flex items-center text-[#FE3301] hover:text-orange-800 hover:bg-orange-100 transition-all duration-300 hover:-translate-y-1"
+              >
+                <NotebookPen className="mr-2 h-5 w-5 transition-transform duration-300 hover:rotate-12" />
+                <span className="hidden sm:inline">Diary</span>
+              </Button>
+            </Link>
+            {!loading && (isSignedIn ? (
+              <Button 
+                variant="ghost" 
+                onClick={signOut}
+                className="flex items-center text-[#FE3301] hover:text-orange-800 hover:bg-orange-100 transition-all duration-300 hover:-translate-y-1"
+              >
+                <LogOut className="mr-2 h-5 w-5 transition-transform duration-300 hover:rotate-12" />
+                <span className="hidden sm:inline">Sign Out</span>
+              </Button>
+            ) : (
+              <Link href="/login">
+                <Button 
+                  variant="ghost" 
+                  className="flex items-center text-[#FE3301] hover:text-orange-800 hover:bg-orange-100 transition-all duration-300 hover:-translate-y-1"
+                >
+                  <LogIn className="mr-2 h-5 w-5 transition-transform duration-300 hover:rotate-12" />
+                  <span className="hidden sm:inline">Sign In</span>
+                </Button>
+              </Link>
+            ))}
           </nav>
         </div>
       </div>
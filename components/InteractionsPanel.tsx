@@ -0,0 +1,128 @@
+"use client"
+
+import { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { AlertTriangle, ShieldCheck, ExternalLink } from "lucide-react";
+import toast from 'react-hot-toast';
+
+interface InteractionFinding {
+  drugs: [string, string];
+  category: string;
+  severity: 'Low' | 'Moderate' | 'High';
+  alert: string;
+  recommendation?: string;
+  evidence: { label: string; excerpt: string; url: string | null }[];
+}
+
+const severityStyles: Record<InteractionFinding['severity'], string> = {
+  High: 'bg-red-50 border-red-200 text-red-700',
+  Moderate: 'bg-amber-50 border-amber-200 text-amber-700',
+  Low: 'bg-green-50 border-green-200 text-green-700'
+};
+
+interface InteractionsPanelProps {
+  medicationCount: number;
+}
+
+// Checks the saved medication list against itself via /api/interactions
+export function InteractionsPanel({ medicationCount }: InteractionsPanelProps) {
+  const [findings, setFindings] = useState<InteractionFinding[] | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const checkInteractions = async () => {
+    setIsChecking(true);
+    try {
+      const res = await fetch('/api/interactions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({})
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.message || 'Failed to check interactions');
+      }
+      setFindings(data.findings);
+    } catch (error) {
+      console.error('Error checking interactions:', error);
+      toast.error('Failed to check medication interactions');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <Card className="bg-white/80 backdrop-blur-sm mt-8">
+      <CardHeader className="flex flex-row items-center justify-between pb-2">
+        <CardTitle className="text-[#FE3301]">Drug Interactions</CardTitle>
+        <Button
+          onClick={checkInteractions}
+          disabled={isChecking || medicationCount < 2}
+          className="bg-[#FE3301] text-white hover:bg-[#FE3301]/90"
+        >
+          {isChecking ? 'Checking...' : 'Check Interactions'}
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {medicationCount < 2 && (
+          <p className="text-sm text-gray-500">Add at least two medications to check them against each other.</p>
+        )}
+
+        {findings && findings.length > 0 && (
+          <div className="space-y-3">
+            {findings.map((finding) => (
+              <div
+                key={finding.drugs.join('|')}
+                className={`rounded-lg border p-4 ${severityStyles[finding.severity]}`}
+              >
+                <div className="flex items-center gap-2 font-medium">
+                  {finding.category === 'No Known Concern'
+                    ? <ShieldCheck className="h-4 w-4" />
+                    : <AlertTriangle className="h-4 w-4" />}
+                  {finding.drugs[0]} + {finding.drugs[1]}
+                </div>
+                <div className="text-xs mt-1">
+                  {finding.category} · {finding.severity} severity
+                </div>
+                <p className="text-sm text-gray-700 mt-2">{finding.alert}</p>
+                {finding.recommendation && (
+                  <p className="text-sm text-gray-700 mt-1"><strong>Recommendation:</strong> {finding.recommendation}</p>
+                )}
+                {finding.evidence.length > 0 && (
+                  <details className="mt-2 text-xs text-gray-600">
+                    <summary className="cursor-pointer">FDA label excerpts</summary>
+                    <ul className="mt-2 space-y-2">
+                      {finding.evidence.map((item, idx) => (
+                        <li key={idx}>
+                          <span className="font-medium">{item.label}:</span> {item.excerpt}
+                          {item.url && (
+                            <a
+                              href={item.url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="inline-flex items-center ml-1 text-[#FE3301] hover:underline"
+                            >
+                              <ExternalLink className="h-3 w-3" />
+                            </a>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {findings && findings.length === 0 && (
+          <p className="text-sm text-gray-500">No interactions to report.</p>
+        )}
+
+        <p className="text-xs text-gray-400 mt-4">
+          Based on FDA drug labels. Always check with your doctor or pharmacist before changing how you take your medications.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react'
 import { Button } from "@/components/ui/button"
-import { Heart, MessageCircle } from "lucide-react"
+import { Heart, MessageCircle, LogIn } from "lucide-react"
 
 interface Section1Props {
   isSignedIn: boolean;
@@ -88,6 +88,17 @@ const Section1: React.FC<Section1Props> = ({ isSignedIn, onSignIn }) => {
                 Start Conversation
               </a>
             </Button>
+            {!isSignedIn && (
+              <Button
+                size="lg"
+                variant="outline"
+                onClick={onSignIn}
+                className="border-[#FE3301] text-[#FE3301] hover:bg-[#FE3301]/10 transition-colors duration-300 animate-flip-up animate-once"
+              >
+                <LogIn className="mr-2 h-5 w-5" />
+                Sign In
+              </Button>
+            )}
           </div>
         </div>
       </section>
@@ -0,0 +1,244 @@
+"use client"
+
+import { useEffect, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { ArrowUpCircle, Plus, Trash2 } from "lucide-react";
+import toast from 'react-hot-toast';
+
+interface TitrationStep {
+  dose: string;
+  durationDays: number | null;
+}
+
+interface GlpProduct {
+  name: string;
+  ingredient: string;
+  frequency: string;
+  steps: TitrationStep[];
+}
+
+interface TitrationPlan {
+  id: string;
+  product: string;
+  productName: string;
+  frequency: string;
+  startDate: string;
+  currentStep: number;
+  stepStartedOn: string;
+  status: 'active' | 'paused' | 'completed';
+  steps: TitrationStep[];
+  currentDose: string;
+  nextDose: string | null;
+  nextStepDueOn: string | null;
+  isNextStepDue: boolean;
+  scheduledStep: number;
+}
+
+function formatDate(date: string) {
+  return new Date(`${date}T00:00:00`).toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+// GLP-1 dose escalation plans for the meds page
+export function TitrationTracker() {
+  const [plans, setPlans] = useState<TitrationPlan[]>([]);
+  const [products, setProducts] = useState<Record<string, GlpProduct>>({});
+  const [showForm, setShowForm] = useState(false);
+  const [product, setProduct] = useState('');
+  const [startDate, setStartDate] = useState(() => new Date().toISOString().slice(0, 10));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadPlans = () => {
+    return fetch('/api/titration')
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => {
+        setPlans(data?.plans || []);
+        setProducts(data?.products || {});
+      })
+      .catch(error => console.error('Error loading titration plans:', error));
+  };
+
+  useEffect(() => {
+    loadPlans();
+  }, []);
+
+  const handleCreate = async () => {
+    if (!product || !startDate) {
+      toast.error('Please choose a medication and start date');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const res = await fetch('/api/titration', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ product, startDate })
+      });
+      if (!res.ok) {
+        throw new Error('Failed to create titration plan');
+      }
+
+      await loadPlans();
+      setShowForm(false);
+      setProduct('');
+      toast.success('Titration plan created');
+    } catch (error) {
+      console.error('Error creating titration plan:', error);
+      toast.error('Failed to create titration plan');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAdvance = async (plan: TitrationPlan) => {
+    try {
+      const res = await fetch(`/api/titration/${plan.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'advance' })
+      });
+      if (!res.ok) {
+        throw new Error('Failed to update titration plan');
+      }
+
+      await loadPlans();
+      toast.success(`Moved to ${plan.nextDose}`);
+    } catch (error) {
+      console.error('Error advancing titration plan:', error);
+      toast.error('Failed to update titration plan');
+    }
+  };
+
+  const handleDelete = async (plan: TitrationPlan) => {
+    try {
+      const res = await fetch(`/api/titration/${plan.id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        throw new Error('Failed to delete titration plan');
+      }
+
+      setPlans(prev => prev.filter(p => p.id !== plan.id));
+    } catch (error) {
+      console.error('Error deleting titration plan:', error);
+      toast.error('Failed to delete titration plan');
+    }
+  };
+
+  return (
+    <Card className="bg-white/80 backdrop-blur-sm mt-8">
+      <CardHeader className="flex flex-row items-center justify-between pb-2">
+        <CardTitle className="text-[#FE3301]">GLP-1 Titration</CardTitle>
+        {!showForm && (
+          <Button
+            variant="outline"
+            onClick={() => setShowForm(true)}
+            className="border-[#FE3301] text-[#FE3301] hover:bg-[#FE3301]/10"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            New Plan
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {showForm && (
+          <div className="rounded-lg border bg-white p-4 space-y-3">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Medication</label>
+              <select
+                className="w-full border rounded px-3 py-2"
+                value={product}
+                onChange={e => setProduct(e.target.value)}
+              >
+                <option value="">Select GLP-1 medication</option>
+                {Object.entries(products).map(([id, p]) => (
+                  <option key={id} value={id}>{p.name} ({p.ingredient}, {p.frequency})</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">First dose date</label>
+              <Input type="date" value={startDate} onChange={e => setStartDate(e.target.value)} />
+            </div>
+            {product && products[product] && (
+              <p className="text-xs text-gray-500">
+                Schedule: {products[product].steps.map(step => step.dose).join(' → ')}
+              </p>
+            )}
+            <div className="flex gap-2">
+              <Button
+                onClick={handleCreate}
+                disabled={isSaving}
+                className="bg-[#FE3301] text-white hover:bg-[#FE3301]/90"
+              >
+                {isSaving ? 'Saving...' : 'Create Plan'}
+              </Button>
+              <Button variant="ghost" onClick={() => setShowForm(false)}>Cancel</Button>
+            </div>
+          </div>
+        )}
+
+        {plans.length === 0 && !showForm ? (
+          <p className="text-sm text-gray-500">
+            Track your dose escalation schedule for Ozempic, Wegovy, Mounjaro and other GLP-1 medications.
+          </p>
+        ) : (
+          plans.map(plan => (
+            <div key={plan.id} className="rounded-lg border bg-white p-4 space-y-3">
+              <div className="flex items-start justify-between">
+                <div>
+                  <h4 className="font-semibold">{plan.productName}</h4>
+                  <p className="text-sm text-gray-600">
+                    Current dose <strong>{plan.currentDose}</strong> {plan.frequency} · since {formatDate(plan.stepStartedOn)}
+                  </p>
+                </div>
+                <Button variant="ghost" size="icon" onClick={() => handleDelete(plan)}>
+                  <Trash2 className="h-4 w-4 text-red-500" />
+                </Button>
+              </div>
+
+              <ol className="flex flex-wrap gap-2">
+                {plan.steps.map((step, index) => (
+                  <li
+                    key={step.dose}
+                    className={`text-xs rounded-full px-3 py-1 border ${
+                      index === plan.currentStep
+                        ? 'bg-[#FE3301] text-white border-[#FE3301]'
+                        : index < plan.currentStep
+                          ? 'bg-[#FE3301]/10 text-[#FE3301] border-[#FE3301]/30'
+                          : 'bg-gray-50 text-gray-500'
+                    }`}
+                  >
+                    {step.dose}
+                  </li>
+                ))}
+              </ol>
+
+              {plan.nextDose && plan.nextStepDueOn ? (
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <p className={`text-sm ${plan.isNextStepDue ? 'text-[#FE3301] font-medium' : 'text-gray-600'}`}>
+                    {plan.isNextStepDue
+                      ? `Next step (${plan.nextDose}) is due — confirm with your prescriber before increasing.`
+                      : `Next step ${plan.nextDose} on ${formatDate(plan.nextStepDueOn)}`}
+                  </p>
+                  {plan.isNextStepDue && (
+                    <Button
+                      size="sm"
+                      onClick={() => handleAdvance(plan)}
+                      className="bg-[#FE3301] text-white hover:bg-[#FE3301]/90"
+                    >
+                      <ArrowUpCircle className="h-4 w-4 mr-1" />
+                      Move to {plan.nextDose}
+                    </Button>
+                  )}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-600">On maintenance dose.</p>
+              )}
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,126 @@
+"use client"
+
+export interface TrendPoint {
+  date: string;
+  value: number;
+  secondaryValue?: number | null;
+}
+
+export interface TrendAnnotation {
+  date: string;
+  label: string;
+}
+
+interface TrendChartProps {
+  points: TrendPoint[];
+  annotations?: TrendAnnotation[];
+  unit: string;
+  from: Date;
+  to: Date;
+}
+
+const WIDTH = 720;
+const HEIGHT = 260;
+const PADDING = { top: 16, right: 16, bottom: 32, left: 48 };
+
+// Dependency-free SVG line chart with vertical markers for medication events
+export function TrendChart({ points, annotations = [], unit, from, to }: TrendChartProps) {
+  if (points.length === 0) {
+    return (
+      <div className="h-48 flex items-center justify-center text-sm text-gray-500">
+        No readings in this period yet.
+      </div>
+    );
+  }
+
+  const start = from.getTime();
+  const span = Math.max(to.getTime() - start, 1);
+  const values = points.flatMap(p => (p.secondaryValue != null ? [p.value, p.secondaryValue] : [p.value]));
+  const rawMin = Math.min(...values);
+  const rawMax = Math.max(...values);
+  // Pad the range so a flat series still renders in the middle of the chart
+  const margin = Math.max((rawMax - rawMin) * 0.1, rawMax * 0.02, 1);
+  const min = rawMin - margin;
+  const max = rawMax + margin;
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (date: string) => PADDING.left + ((new Date(date).getTime() - start) / span) * plotWidth;
+  const y = (value: number) => PADDING.top + (1 - (value - min) / (max - min)) * plotHeight;
+
+  const line = (accessor: (p: TrendPoint) => number | null | undefined) =>
+    points
+      .filter(p => accessor(p) != null)
+      .map((p, i) => `${i === 0 ? 'M' : 'L'}${x(p.date).toFixed(1)},${y(accessor(p)!).toFixed(1)}`)
+      .join(' ');
+
+  const ticks = Array.from({ length: 5 }, (_, i) => min + ((max - min) * i) / 4);
+  const dateTicks = Array.from({ length: 5 }, (_, i) => new Date(start + (span * i) / 4));
+  const visibleAnnotations = annotations.filter(a => {
+    const time = new Date(a.date).getTime();
+    return time >= start && time <= to.getTime();
+  });
+  const hasSecondary = points.some(p => p.secondaryValue != null);
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={`Trend chart in ${unit}`}>
+      {ticks.map(tick => (
+        <g key={tick}>
+          <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(tick)} y2={y(tick)} stroke="#f1f1f1" />
+          <text x={PADDING.left - 6} y={y(tick) + 4} fontSize="11" textAnchor="end" fill="#6b7280">
+            {tick.toFixed(rawMax - rawMin < 10 ? 1 : 0)}
+          </text>
+        </g>
+      ))}
+      {dateTicks.map(tick => (
+        <text
+          key={tick.getTime()}
+          x={x(tick.toISOString())}
+          y={HEIGHT - 10}
+          fontSize="11"
+          textAnchor="middle"
+          fill="#6b7280"
+        >
+          {tick.toLocaleDateString([], { month: 'short', day: 'numeric' })}
+        </text>
+      ))}
+
+      {visibleAnnotations.map((annotation, i) => (
+        <g key={`${annotation.date}-${annotation.label}`}>
+          <line
+            x1={x(annotation.date)}
+            x2={x(annotation.date)}
+            y1={PADDING.top}
+            y2={HEIGHT - PADDING.bottom}
+            stroke="#FE3301"
+            strokeOpacity={0.4}
+            strokeDasharray="4 4"
+          />
+          <text
+            x={x(annotation.date) + 4}
+            y={PADDING.top + 10 + (i % 3) * 12}
+            fontSize="10"
+            fill="#FE3301"
+          >
+            {annotation.label}
+          </text>
+        </g>
+      ))}
+
+      <path d={line(p => p.value)} fill="none" stroke="#FE3301" strokeWidth={2} />
+      {hasSecondary && (
+        <path d={line(p => p.secondaryValue)} fill="none" stroke="#f59e0b" strokeWidth={2} />
+      )}
+      {points.map(p => (
+        <g key={p.date}>
+          <circle cx={x(p.date)} cy={y(p.value)} r={3} fill="#FE3301">
+            <title>{`${p.value}${p.secondaryValue != null ? `/${p.secondaryValue}` : ''} ${unit} · ${new Date(p.date).toLocaleDateString()}`}</title>
+          </circle>
+          {p.secondaryValue != null && (
+            <circle cx={x(p.date)} cy={y(p.secondaryValue)} r={3} fill="#f59e0b" />
+          )}
+        </g>
+      ))}
+    </svg>
+  );
+}
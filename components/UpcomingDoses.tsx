@@ -0,0 +1,155 @@
+"use client"
+
+import { useEffect, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { CalendarPlus, Clock, Check, SkipForward, AlarmClock } from "lucide-react";
+import toast from 'react-hot-toast';
+
+interface DoseEvent {
+  medicationId: string;
+  name: string;
+  dosage: string;
+  slot: string;
+  scheduledAt: string;
+  status: 'taken' | 'skipped' | 'snoozed' | null;
+  snoozedUntil: string | null;
+}
+
+type DoseAction = 'take' | 'skip' | 'snooze';
+
+const statusLabels: Record<NonNullable<DoseEvent['status']>, string> = {
+  taken: 'Taken',
+  skipped: 'Skipped',
+  snoozed: 'Snoozed'
+};
+
+interface UpcomingDosesProps {
+  // Changes whenever the medication list changes so the schedule is re-fetched
+  refreshKey: string;
+  onDoseLogged?: () => void;
+}
+
+export function UpcomingDoses({ refreshKey, onDoseLogged }: UpcomingDosesProps) {
+  const [doses, setDoses] = useState<DoseEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [pendingDose, setPendingDose] = useState<string | null>(null);
+  const offset = new Date().getTimezoneOffset();
+
+  const loadSchedule = () => {
+    return fetch(`/api/schedule?days=2&past=12&offset=${offset}`)
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => setDoses(data?.doses || []))
+      .catch(error => console.error('Error loading schedule:', error));
+  };
+
+  useEffect(() => {
+    setIsLoading(true);
+    loadSchedule().finally(() => setIsLoading(false));
+  }, [refreshKey, offset]);
+
+  const handleDoseAction = async (dose: DoseEvent, action: DoseAction) => {
+    const key = `${dose.medicationId}-${dose.scheduledAt}`;
+    setPendingDose(key);
+    try {
+      const res = await fetch('/api/doses', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          medicationId: dose.medicationId,
+          scheduledAt: dose.scheduledAt,
+          action
+        })
+      });
+      if (!res.ok) {
+        throw new Error('Failed to log dose');
+      }
+
+      await loadSchedule();
+      onDoseLogged?.();
+    } catch (error) {
+      console.error('Error logging dose:', error);
+      toast.error('Failed to log dose');
+    } finally {
+      setPendingDose(null);
+    }
+  };
+
+  return (
+    <Card className="bg-white/80 backdrop-blur-sm mt-8">
+      <CardHeader className="flex flex-row items-center justify-between pb-2">
+        <CardTitle className="text-[#FE3301]">Upcoming Doses</CardTitle>
+        <Button asChild variant="outline" className="border-[#FE3301] text-[#FE3301] hover:bg-[#FE3301]/10">
+          <a href={`/api/schedule/calendar.ics?offset=${offset}`}>
+            <CalendarPlus className="h-4 w-4 mr-2" />
+            Export to Calendar
+          </a>
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading schedule...</p>
+        ) : doses.length === 0 ? (
+          <p className="text-sm text-gray-500">No doses scheduled in the next 48 hours.</p>
+        ) : (
+          <ul className="divide-y">
+            {doses.map((dose) => {
+              const key = `${dose.medicationId}-${dose.scheduledAt}`;
+              const isDue = new Date(dose.scheduledAt).getTime() <= Date.now();
+              const isSettled = dose.status === 'taken' || dose.status === 'skipped';
+
+              return (
+                <li key={key} className="flex flex-wrap items-center justify-between gap-2 py-2">
+                  <div>
+                    <span className="font-medium">{dose.name}</span>
+                    <span className="text-sm text-gray-500 ml-2">{dose.dosage}</span>
+                    <div className="flex items-center text-sm text-gray-600">
+                      <Clock className="h-4 w-4 mr-1" />
+                      {new Date(dose.scheduledAt).toLocaleString([], { weekday: 'short', hour: 'numeric', minute: '2-digit' })}
+                      {dose.status && (
+                        <span className="ml-2 text-xs rounded-full bg-gray-100 px-2 py-0.5">
+                          {statusLabels[dose.status]}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  {isDue && !isSettled && (
+                    <div className="flex gap-1">
+                      <Button
+                        size="sm"
+                        disabled={pendingDose === key}
+                        onClick={() => handleDoseAction(dose, 'take')}
+                        className="bg-[#FE3301] text-white hover:bg-[#FE3301]/90"
+                      >
+                        <Check className="h-4 w-4 mr-1" />
+                        Take
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={pendingDose === key}
+                        onClick={() => handleDoseAction(dose, 'snooze')}
+                      >
+                        <AlarmClock className="h-4 w-4 mr-1" />
+                        Snooze
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={pendingDose === key}
+                        onClick={() => handleDoseAction(dose, 'skip')}
+                      >
+                        <SkipForward className="h-4 w-4 mr-1" />
+                        Skip
+                      </Button>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,9 @@
+// Runs once when the server starts: refuse to boot with missing or malformed settings
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  const { getConfig } = await import('@/lib/config');
+  const { validateAiConfig } = await import('@/lib/ai');
+  getConfig();
+  validateAiConfig();
+}
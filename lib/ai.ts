@@ -0,0 +1,265 @@
+import { createGoogleGenerativeAI } from '@ai-sdk/google';
+import { createOpenAI } from '@ai-sdk/openai';
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
+import { generateObject, type CoreMessage, type EmbeddingModel, type LanguageModel } from 'ai';
+import { ElevenLabsClient } from 'elevenlabs';
+import OpenAI from 'openai';
+import { getConfig, type AppConfig } from '@/lib/config';
+import {
+  isMockMode,
+  mockEmbeddingModel,
+  mockLanguageModel,
+  mockSpeech,
+  mockTranscription
+} from '@/lib/mock';
+import { captureSearchResults, type SearchResult } from '@/lib/perplexity';
+
+export const AI_TASKS = ['classify', 'answer', 'vision', 'summarize', 'embed', 'transcribe', 'speak'] as const;
+export type AiTask = typeof AI_TASKS[number];
+
+export const AI_PROVIDERS = ['openai', 'perplexity', 'google', 'local', 'elevenlabs'] as const;
+export type AiProvider = typeof AI_PROVIDERS[number];
+
+export interface TaskModelConfig {
+  provider: AiProvider;
+  model: string;
+}
+
+// Which providers can serve each task
+const TASK_PROVIDERS: Record<AiTask, readonly AiProvider[]> = {
+  classify: ['openai', 'perplexity', 'google', 'local'],
+  answer: ['openai', 'perplexity', 'google', 'local'],
+  vision: ['google', 'openai', 'local'],
+  summarize: ['openai', 'perplexity', 'google', 'local'],
+  embed: ['openai', 'google', 'local'],
+  transcribe: ['openai', 'local'],
+  speak: ['elevenlabs', 'openai', 'local']
+};
+
+function defaultModels(config: AppConfig): Record<AiTask, TaskModelConfig> {
+  return {
+    classify: { provider: 'openai', model: 'gpt-4o-mini' },
+    answer: { provider: 'perplexity', model: config.ai.perplexityModel },
+    vision: { provider: 'google', model: 'gemini-1.5-flash-latest' },
+    summarize: { provider: 'openai', model: 'gpt-4o-mini' },
+    // chat_memory stores vector(1536), so a replacement embedding model must use the same dimensions
+    embed: { provider: 'openai', model: 'text-embedding-ada-002' },
+    transcribe: { provider: 'openai', model: 'whisper-1' },
+    speak: { provider: 'elevenlabs', model: 'eleven_multilingual_v2' }
+  };
+}
+
+// Voice ids differ per provider, so they are configured separately from the model
+const DEFAULT_VOICES: Partial<Record<AiProvider, string>> = {
+  elevenlabs: 'JBFqnCBsd6RMkjVDRZzb',
+  openai: 'alloy',
+  local: 'alloy'
+};
+
+// Setting holding each provider's API key; local servers usually need none
+const PROVIDER_KEYS: Partial<Record<AiProvider, { setting: string; read: (config: AppConfig) => string | undefined }>> = {
+  openai: { setting: 'OPENAI_API_KEY', read: config => config.ai.openaiApiKey },
+  perplexity: { setting: 'PPLX_API_KEY', read: config => config.ai.perplexityApiKey },
+  google: { setting: 'GOOGLE_API_KEY', read: config => config.ai.googleApiKey },
+  elevenlabs: { setting: 'ELEVENLABS_API_KEY', read: config => config.ai.elevenlabsApiKey }
+};
+
+// AI_<TASK>_PROVIDER and AI_<TASK>_MODEL override the defaults, e.g. AI_ANSWER_PROVIDER=local
+export function getTaskModel(task: AiTask): TaskModelConfig {
+  const config = getConfig();
+  const prefix = `AI_${task.toUpperCase()}`;
+  const defaults = defaultModels(config)[task];
+  const override = config.ai.taskOverrides[task] || {};
+  const provider = (override.provider || defaults.provider) as AiProvider;
+
+  if (!TASK_PROVIDERS[task].includes(provider)) {
+    throw new Error(`Provider "${provider}" cannot be used for the ${task} task`);
+  }
+
+  // A provider override without a model override cannot reuse the default model id
+  const model = override.model || (provider === defaults.provider ? defaults.model : undefined);
+  if (!model) {
+    throw new Error(`${prefix}_MODEL must be set when ${prefix}_PROVIDER is "${provider}"`);
+  }
+
+  return { provider, model };
+}
+
+// Every task must resolve to a usable provider with its key set; run at startup so a bad deploy fails fast
+export function validateAiConfig() {
+  const config = getConfig();
+  if (config.mockProviders) return;
+
+  const problems: string[] = [];
+  for (const task of AI_TASKS) {
+    try {
+      const { provider } = getTaskModel(task);
+      const key = PROVIDER_KEYS[provider];
+      if (key && !key.read(config)) {
+        problems.push(`- ${key.setting}: Required by the ${task} task (provider "${provider}")`);
+      }
+    } catch (error) {
+      problems.push(`- ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid AI configuration:\n${Array.from(new Set(problems)).join('\n')}`);
+  }
+}
+
+function createPerplexity(config: AppConfig, fetch?: typeof globalThis.fetch) {
+  return createOpenAICompatible({
+    name: 'perplexity',
+    apiKey: config.ai.perplexityApiKey,
+    baseURL: 'https://api.perplexity.ai/',
+    fetch
+  });
+}
+
+function createProviders(config: AppConfig) {
+  return {
+    openai: createOpenAI({
+      apiKey: config.ai.openaiApiKey
+    }),
+    perplexity: createPerplexity(config),
+    google: createGoogleGenerativeAI({
+      apiKey: config.ai.googleApiKey
+    }),
+    // Any OpenAI-compatible server, e.g. Ollama, LM Studio or vLLM
+    local: createOpenAICompatible({
+      name: 'local',
+      apiKey: config.ai.localApiKey,
+      baseURL: config.ai.localBaseUrl
+    })
+  };
+}
+
+let providers: ReturnType<typeof createProviders> | null = null;
+
+function getProviders() {
+  if (!providers) {
+    providers = createProviders(getConfig());
+  }
+  return providers;
+}
+
+export type TextTask = Extract<AiTask, 'classify' | 'answer' | 'vision' | 'summarize'>;
+
+export interface LanguageModelOptions {
+  // Called with the pages a search-backed provider (Perplexity) retrieved for the answer; other providers never call it
+  onSearchResults?: (results: SearchResult[]) => void;
+}
+
+export function getLanguageModel(task: TextTask, options: LanguageModelOptions = {}): LanguageModel {
+  if (isMockMode()) return mockLanguageModel(task, options);
+
+  const { provider, model } = getTaskModel(task);
+  const { openai, perplexity, google, local } = getProviders();
+
+  switch (provider) {
+    case 'openai':
+      return openai(model);
+    case 'perplexity':
+      // The shared provider cannot tell requests apart, so capturing sources needs one bound to this call
+      return options.onSearchResults
+        ? createPerplexity(getConfig(), captureSearchResults(options.onSearchResults))(model)
+        : perplexity(model);
+    case 'google':
+      return google(model);
+    case 'local':
+      return local(model);
+    default:
+      throw new Error(`Provider "${provider}" has no language models`);
+  }
+}
+
+export function getEmbeddingModel(): EmbeddingModel<string> {
+  if (isMockMode()) return mockEmbeddingModel();
+
+  const { provider, model } = getTaskModel('embed');
+  const { openai, google, local } = getProviders();
+
+  switch (provider) {
+    case 'openai':
+      return openai.textEmbeddingModel(model);
+    case 'google':
+      return google.textEmbeddingModel(model);
+    case 'local':
+      return local.textEmbeddingModel(model);
+    default:
+      throw new Error(`Provider "${provider}" has no embedding models`);
+  }
+}
+
+// Raw JSON from a model in JSON mode; callers validate it with their own schema
+export async function generateJson(
+  task: TextTask,
+  options: { system?: string; messages: CoreMessage[]; temperature?: number; maxTokens?: number }
+): Promise<unknown> {
+  const { object } = await generateObject({
+    model: getLanguageModel(task),
+    output: 'no-schema',
+    mode: 'json',
+    ...options
+  });
+  return object;
+}
+
+// Audio endpoints are not covered by the AI SDK providers above, so they use the OpenAI client directly
+function openaiClientFor(provider: AiProvider) {
+  const { ai } = getConfig();
+  return provider === 'local'
+    ? new OpenAI({ apiKey: ai.localApiKey || 'local', baseURL: ai.localBaseUrl })
+    : new OpenAI({ apiKey: ai.openaiApiKey });
+}
+
+export async function transcribeAudio(file: File, options: { language?: string; prompt?: string } = {}): Promise<string> {
+  if (isMockMode()) return mockTranscription();
+
+  const { provider, model } = getTaskModel('transcribe');
+
+  const transcription = await openaiClientFor(provider).audio.transcriptions.create({
+    file,
+    model,
+    response_format: 'json',
+    ...options
+  });
+  return transcription.text;
+}
+
+export async function synthesizeSpeech(text: string): Promise<{ audio: Buffer; contentType: string }> {
+  if (isMockMode()) return { audio: mockSpeech(), contentType: 'audio/mpeg' };
+
+  const { provider, model } = getTaskModel('speak');
+  const { ai } = getConfig();
+  const voice = ai.speakVoice || DEFAULT_VOICES[provider] || 'alloy';
+
+  if (provider === 'elevenlabs') {
+    if (!ai.elevenlabsApiKey) {
+      throw new Error('ELEVENLABS_API_KEY is not configured');
+    }
+
+    const elevenLabs = new ElevenLabsClient({
+      apiKey: ai.elevenlabsApiKey,
+    });
+    const audioStream = await elevenLabs.textToSpeech.convertAsStream(voice, {
+      text,
+      model_id: model,
+    });
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of audioStream) {
+      chunks.push(Buffer.from(chunk));
+    }
+    return { audio: Buffer.concat(chunks), contentType: 'audio/mpeg' };
+  }
+
+  const speech = await openaiClientFor(provider).audio.speech.create({
+    model,
+    voice: voice as OpenAI.Audio.SpeechCreateParams['voice'],
+    input: text,
+    response_format: 'mp3'
+  });
+  return { audio: Buffer.from(await speech.arrayBuffer()), contentType: 'audio/mpeg' };
+}
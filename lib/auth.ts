@@ -0,0 +1,179 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { NextResponse } from 'next/server';
+import { executeWithRetry } from '@/lib/db';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+// Session configuration
+export const SESSION_COOKIE = 'medi_session';
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+const PASSWORD_KEY_LENGTH = 64;
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  name: string | null;
+}
+
+export interface Session {
+  token: string;
+  expiresAt: Date;
+}
+
+// Handler signature for routes wrapped with withAuth
+export type AuthenticatedHandler<C> = (request: Request, user: AuthUser, context: C) => Promise<Response>;
+
+function normalizeEmail(email: string) {
+  return email.trim().toLowerCase();
+}
+
+// Only the hash of a session token is ever stored
+function hashToken(token: string) {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+async function hashPassword(password: string) {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(password, salt, PASSWORD_KEY_LENGTH);
+  return `${salt.toString('hex')}:${key.toString('hex')}`;
+}
+
+async function verifyPassword(password: string, stored: string) {
+  const [saltHex, keyHex] = stored.split(':');
+  if (!saltHex || !keyHex) return false;
+
+  const expected = Buffer.from(keyHex, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return timingSafeEqual(expected, actual);
+}
+
+export async function createUser(email: string, password: string, name?: string): Promise<AuthUser> {
+  const passwordHash = await hashPassword(password);
+
+  const result = await executeWithRetry((client) =>
+    client.query(
+      `INSERT INTO users (email, name, password_hash)
+       VALUES ($1, $2, $3)
+       RETURNING id, email, name`,
+      [normalizeEmail(email), name || null, passwordHash]
+    )
+  );
+
+  return result.rows[0];
+}
+
+export async function authenticate(email: string, password: string): Promise<AuthUser | null> {
+  const result = await executeWithRetry((client) =>
+    client.query(
+      'SELECT id, email, name, password_hash FROM users WHERE email = $1',
+      [normalizeEmail(email)]
+    )
+  );
+
+  const row = result.rows[0];
+  if (!row || !(await verifyPassword(password, row.password_hash))) {
+    return null;
+  }
+
+  return { id: row.id, email: row.email, name: row.name };
+}
+
+export async function createSession(userId: string): Promise<Session> {
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+
+  await executeWithRetry((client) =>
+    client.query(
+      'INSERT INTO user_sessions (token_hash, user_id, expires_at) VALUES ($1, $2, $3)',
+      [hashToken(token), userId, expiresAt]
+    )
+  );
+
+  return { token, expiresAt };
+}
+
+export async function getSessionUser(token: string | null): Promise<AuthUser | null> {
+  if (!token) return null;
+  const result = await executeWithRetry((client) =>
+    client.query(
+      `SELECT u.id, u.email, u.name
+       FROM user_sessions s
+       JOIN users u ON u.id = s.user_id
+       WHERE s.token_hash = $1 AND s.expires_at > NOW()`,
+      [hashToken(token)]
+    )
+  );
+
+  return result.rows[0] || null;
+}
+
+export async function deleteSession(token: string) {
+  await executeWithRetry((client) =>
+    client.query('DELETE FROM user_sessions WHERE token_hash = $1', [hashToken(token)])
+  );
+}
+
+// Read the session token from a bearer header (mobile app) or the session cookie (web)
+export function getRequestToken(request: Request): string | null {
+  const authorization = request.headers.get('authorization');
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim() || null;
+  }
+
+  const cookieHeader = request.headers.get('cookie') || '';
+  for (const part of cookieHeader.split(';')) {
+    const [name, ...value] = part.trim().split('=');
+    if (name === SESSION_COOKIE) {
+      return decodeURIComponent(value.join('=')) || null;
+    }
+  }
+
+  return null;
+}
+
+export function setSessionCookie(response: NextResponse, session: Session) {
+  response.cookies.set(SESSION_COOKIE, session.token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    expires: session.expiresAt
+  });
+}
+
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.set(SESSION_COOKIE, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: 0
+  });
+}
+
+// Guard shared by every API route: resolves the session user or answers 401
+export function withAuth<C = unknown>(handler: AuthenticatedHandler<C>) {
+  return async (request: Request, context: C): Promise<Response> => {
+    let user: AuthUser | null;
+
+    try {
+      user = await getSessionUser(getRequestToken(request));
+    } catch (error) {
+      console.error('Error resolving session:', error);
+      return NextResponse.json(
+        { status: 'error', message: 'Failed to verify session' },
+        { status: 503 }
+      );
+    }
+
+    if (!user) {
+      return NextResponse.json(
+        { status: 'error', message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    return handler(request, user, context);
+  };
+}
@@ -0,0 +1,129 @@
+// Shared by the chat route and the chat page, so keep it free of server-only imports
+
+// Answers may only link to these sites or their subdomains (dailymed.nlm.nih.gov, pubmed.ncbi.nlm.nih.gov, ...)
+export const ALLOWED_SOURCE_DOMAINS = [
+  'fda.gov',
+  'nih.gov',
+  'medlineplus.gov',
+  'mayoclinic.org'
+] as const;
+
+export interface Citation {
+  // The marker used in the text: '1' for [1], or 'L1' for an FDA label excerpt cited as [L1]
+  ref: string;
+  title: string;
+  url: string;
+  // Excerpt of the page, when the provider's search returned one
+  snippet?: string;
+}
+
+export interface CitationReport {
+  // Sources that are cited in the text and point at an allowed site, in citation order
+  sources: Citation[];
+  // Markers used in the text without an allowed source behind them
+  unsupported: string[];
+  // Sources listed with a URL outside the allowlist
+  rejected: Citation[];
+}
+
+export function isAllowedSourceUrl(url: string) {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  if (parsed.protocol !== 'https:') return false;
+
+  const host = parsed.hostname.toLowerCase();
+  return ALLOWED_SOURCE_DOMAINS.some(domain => host === domain || host.endsWith(`.${domain}`));
+}
+
+// Source lines the prompts ask for, plus the reference style models fall back to:
+//   1. [FDA Ozempic Information](https://www.fda.gov/ozempic)
+//   [1] [FDA Ozempic Information](https://www.fda.gov/ozempic)
+//   [1]: https://www.fda.gov/ozempic
+const SOURCE_LINE_PATTERNS = [
+  /^\s*(?:[-*]\s*)?\[?(L?\d+)\]?[.)]?\s*\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/,
+  /^\s*\[(L?\d+)\]:\s*(https?:\/\/\S+)/
+];
+
+function parseSourceLine(line: string): Citation | null {
+  const linked = line.match(SOURCE_LINE_PATTERNS[0]);
+  if (linked) {
+    return { ref: linked[1], title: linked[2].trim(), url: linked[3] };
+  }
+  const reference = line.match(SOURCE_LINE_PATTERNS[1]);
+  if (reference) {
+    const url = reference[2].replace(/[.,;]+$/, '');
+    return { ref: reference[1], title: hostnameOf(url), url };
+  }
+  return null;
+}
+
+// Site name to show for a source that has no title
+export function hostnameOf(url: string) {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+}
+
+export function isSourceLine(line: string) {
+  return parseSourceLine(line) !== null;
+}
+
+// Web sources in number order, then label excerpts
+function compareRefs(a: string, b: string) {
+  const labelOrder = Number(a.startsWith('L')) - Number(b.startsWith('L'));
+  return labelOrder || Number(a.replace('L', '')) - Number(b.replace('L', ''));
+}
+
+// Numbered sources listed in the answer; the first entry wins when a number is repeated
+export function extractSources(text: string): Citation[] {
+  const sources = new Map<string, Citation>();
+  for (const line of text.split('\n')) {
+    const source = parseSourceLine(line);
+    if (source && !sources.has(source.ref)) {
+      sources.set(source.ref, source);
+    }
+  }
+  return [...sources.values()];
+}
+
+// In-text markers: [1], [1, 2], [L1] and the prompts' [[1]](#1)
+export function extractCitationRefs(text: string): string[] {
+  const refs = new Set<string>();
+  for (const line of text.split('\n')) {
+    if (isSourceLine(line)) continue;
+    for (const match of line.matchAll(/\[\[?(L?\d+(?:\s*,\s*L?\d+)*)\]?\](?!:)/g)) {
+      match[1].split(',').forEach(ref => refs.add(ref.trim()));
+    }
+  }
+  return [...refs].sort(compareRefs);
+}
+
+export interface CitationContext {
+  // The provider's own search results, numbered as in the text; they replace the sources typed into the answer
+  retrieved?: Citation[];
+  // FDA label excerpts that were put in the prompt as [L1], [L2], ...
+  labels?: Citation[];
+}
+
+export function validateCitations(text: string, { retrieved, labels = [] }: CitationContext = {}): CitationReport {
+  const listed = [
+    ...(retrieved && retrieved.length > 0 ? retrieved : extractSources(text)).filter(source => !source.ref.startsWith('L')),
+    ...labels
+  ];
+  const cited = extractCitationRefs(text);
+  const allowed = new Map(
+    listed.filter(source => isAllowedSourceUrl(source.url)).map(source => [source.ref, source])
+  );
+
+  return {
+    sources: cited.flatMap(ref => allowed.get(ref) ?? []),
+    unsupported: cited.filter(ref => !allowed.has(ref)),
+    rejected: listed.filter(source => !isAllowedSourceUrl(source.url))
+  };
+}
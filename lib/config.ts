@@ -0,0 +1,151 @@
+import { z } from 'zod';
+import { parseAllowedOrigins } from '@/lib/cors';
+
+// Server-side settings, read from the environment once and validated as a whole.
+// Nothing here may be passed to client components: none of it is NEXT_PUBLIC_.
+
+const optionalString = z.string().trim().min(1).optional();
+const flag = z.enum(['true', 'false', '1', '0']).transform(value => value === 'true' || value === '1');
+
+const envSchema = z.object({
+  NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
+
+  DATABASE_URL: z.string().url(),
+  // Separate databases are optional; both default to DATABASE_URL. Feedback references users, so a separate
+  // feedback database must be one that also holds the users table
+  MEMORY_DATABASE_URL: z.string().url().optional(),
+  FEEDBACK_DATABASE_URL: z.string().url().optional(),
+  DB_AUTO_MIGRATE: flag.default('true'),
+
+  MOCK_PROVIDERS: flag.default('false'),
+
+  OPENAI_API_KEY: optionalString,
+  PPLX_API_KEY: optionalString,
+  PPLX_MODEL: z.string().trim().min(1).default('sonar'),
+  GOOGLE_API_KEY: optionalString,
+  ELEVENLABS_API_KEY: optionalString,
+  LOCAL_LLM_BASE_URL: z.string().url().default('http://localhost:11434/v1'),
+  LOCAL_LLM_API_KEY: optionalString,
+  AI_SPEAK_VOICE: optionalString,
+
+  FDA_API_KEY: optionalString,
+  // How long cached openFDA labels are served before they are fetched again
+  DRUG_LABEL_CACHE_TTL_HOURS: z.coerce.number().positive().default(168),
+
+  RATE_LIMIT_STORE: z.enum(['postgres', 'memory']).default('postgres'),
+  // Comma-separated origins allowed to call the API from a browser; same-origin and native clients need none.
+  // Validated here with everything else, but middleware reads it through lib/cors.ts without loading this config
+  CORS_ALLOWED_ORIGINS: z.string().default('').transform((value, ctx) => {
+    try {
+      return parseAllowedOrigins(value);
+    } catch {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Expected comma-separated origins' });
+      return z.NEVER;
+    }
+  })
+});
+
+export interface TaskOverride {
+  provider?: string;
+  model?: string;
+}
+
+export interface AppConfig {
+  env: 'development' | 'production' | 'test';
+  mockProviders: boolean;
+  database: {
+    urls: { main: string; memory: string; feedback: string };
+    autoMigrate: boolean;
+  };
+  ai: {
+    openaiApiKey?: string;
+    perplexityApiKey?: string;
+    perplexityModel: string;
+    googleApiKey?: string;
+    elevenlabsApiKey?: string;
+    localBaseUrl: string;
+    localApiKey?: string;
+    speakVoice?: string;
+    // AI_<TASK>_PROVIDER and AI_<TASK>_MODEL, keyed by lowercased task
+    taskOverrides: Record<string, TaskOverride>;
+  };
+  fdaApiKey?: string;
+  drugLabelCacheTtlHours: number;
+  rateLimitStore: 'postgres' | 'memory';
+  corsAllowedOrigins: string[];
+}
+
+// Unset and empty variables are treated the same
+function readEnv(): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(process.env).filter((entry): entry is [string, string] => !!entry[1])
+  );
+}
+
+function readTaskOverrides(env: Record<string, string>): Record<string, TaskOverride> {
+  const overrides: Record<string, TaskOverride> = {};
+  for (const [name, value] of Object.entries(env)) {
+    const match = name.match(/^AI_([A-Z]+)_(PROVIDER|MODEL)$/);
+    if (!match) continue;
+
+    const task = match[1].toLowerCase();
+    overrides[task] = { ...overrides[task], [match[2] === 'PROVIDER' ? 'provider' : 'model']: value.trim() };
+  }
+  return overrides;
+}
+
+export function parseConfig(source: Record<string, string> = readEnv()): AppConfig {
+  const parsed = envSchema.safeParse(source);
+  const problems = parsed.success
+    ? []
+    : parsed.error.errors.map(issue => `- ${issue.path.join('.')}: ${issue.message}`);
+
+  // Checked outside the schema so it is reported alongside other problems; mock mode never calls openFDA.
+  // Provider API keys depend on which provider serves each task and are checked in lib/ai.ts
+  if (!['true', '1'].includes(source.MOCK_PROVIDERS ?? '') && !source.FDA_API_KEY?.trim()) {
+    problems.push('- FDA_API_KEY: Required unless MOCK_PROVIDERS=true');
+  }
+
+  if (!parsed.success || problems.length > 0) {
+    throw new Error(`Invalid server configuration:\n${problems.join('\n')}`);
+  }
+
+  const env = parsed.data;
+  return {
+    env: env.NODE_ENV,
+    mockProviders: env.MOCK_PROVIDERS,
+    database: {
+      urls: {
+        main: env.DATABASE_URL,
+        memory: env.MEMORY_DATABASE_URL || env.DATABASE_URL,
+        feedback: env.FEEDBACK_DATABASE_URL || env.DATABASE_URL
+      },
+      autoMigrate: env.DB_AUTO_MIGRATE
+    },
+    ai: {
+      openaiApiKey: env.OPENAI_API_KEY,
+      perplexityApiKey: env.PPLX_API_KEY,
+      perplexityModel: env.PPLX_MODEL,
+      googleApiKey: env.GOOGLE_API_KEY,
+      elevenlabsApiKey: env.ELEVENLABS_API_KEY,
+      localBaseUrl: env.LOCAL_LLM_BASE_URL,
+      localApiKey: env.LOCAL_LLM_API_KEY,
+      speakVoice: env.AI_SPEAK_VOICE,
+      taskOverrides: readTaskOverrides(source)
+    },
+    fdaApiKey: env.FDA_API_KEY,
+    drugLabelCacheTtlHours: env.DRUG_LABEL_CACHE_TTL_HOURS,
+    rateLimitStore: env.RATE_LIMIT_STORE,
+    corsAllowedOrigins: env.CORS_ALLOWED_ORIGINS
+  };
+}
+
+let config: AppConfig | null = null;
+
+// Parsed on first use so builds without a populated environment still succeed; instrumentation.ts calls it at startup
+export function getConfig(): AppConfig {
+  if (!config) {
+    config = parseConfig();
+  }
+  return config;
+}
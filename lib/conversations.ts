@@ -0,0 +1,229 @@
+import { z } from 'zod';
+import { isAllowedSourceUrl } from '@/lib/citations';
+import { executeWithRetry } from '@/lib/db';
+
+export const CHAT_PERSONAS = ['general_med', 'glp1'] as const;
+
+const citationSchema = z.object({
+  ref: z.string().regex(/^L?\d+$/),
+  title: z.string().max(1_000),
+  url: z.string().refine(isAllowedSourceUrl, 'Expected a link to an allowed source'),
+  snippet: z.string().max(10_000).optional()
+});
+
+export const conversationMessageSchema = z.object({
+  role: z.enum(['user', 'assistant']),
+  content: z.string().min(1).max(50_000),
+  // The checked sources the chat route attached to an answer, so they can be shown again when it is reopened
+  sources: z.array(citationSchema).max(50).optional()
+});
+
+export const conversationTitleSchema = z.string().trim().min(1).max(120);
+
+export const conversationSchema = z.object({
+  title: conversationTitleSchema.optional(),
+  persona: z.enum(CHAT_PERSONAS).default('general_med'),
+  messages: z.array(conversationMessageSchema).max(100).default([])
+});
+
+export const conversationUpdateSchema = z.object({
+  title: conversationTitleSchema.optional(),
+  persona: z.enum(CHAT_PERSONAS).optional()
+});
+
+export const appendMessagesSchema = z.object({
+  messages: z.array(conversationMessageSchema).min(1).max(100)
+});
+
+export type ConversationMessageInput = z.infer<typeof conversationMessageSchema>;
+export type ConversationInput = z.input<typeof conversationSchema>;
+export type ConversationUpdate = z.infer<typeof conversationUpdateSchema>;
+
+export interface ConversationMessage extends ConversationMessageInput {
+  id: string;
+  createdAt: string;
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  persona: typeof CHAT_PERSONAS[number];
+  messageCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ConversationWithMessages extends Conversation {
+  messages: ConversationMessage[];
+}
+
+const DEFAULT_TITLE = 'New conversation';
+
+const CONVERSATION_COLUMNS = `c.id, c.title, c.persona, c.created_at, c.updated_at,
+  (SELECT COUNT(*)::int FROM conversation_messages m WHERE m.conversation_id = c.id) AS message_count`;
+
+function toConversation(row: any): Conversation {
+  return {
+    id: row.id,
+    title: row.title,
+    persona: row.persona,
+    messageCount: row.message_count,
+    createdAt: new Date(row.created_at).toISOString(),
+    updatedAt: new Date(row.updated_at).toISOString()
+  };
+}
+
+function toMessage(row: any): ConversationMessage {
+  return {
+    id: row.id,
+    role: row.role,
+    content: row.content,
+    sources: row.sources ?? undefined,
+    createdAt: new Date(row.created_at).toISOString()
+  };
+}
+
+// First line of the opening question, used until the conversation is renamed
+export function titleFromMessages(messages: ConversationMessageInput[]): string {
+  const first = messages.find(m => m.role === 'user')?.content.split('\n')[0].trim();
+  if (!first) return DEFAULT_TITLE;
+  return first.length > 60 ? `${first.slice(0, 57).trimEnd()}...` : first;
+}
+
+async function insertMessages(client: any, conversationId: string, messages: ConversationMessageInput[]) {
+  if (messages.length === 0) return;
+
+  // Positions continue from the last stored message; the conversation row is locked by the caller
+  await client.query(
+    `INSERT INTO conversation_messages (conversation_id, position, role, content, sources)
+     SELECT $1, base.next + input.ord - 1, input.role, input.content, input.sources
+     FROM (SELECT COALESCE(MAX(position) + 1, 0) AS next FROM conversation_messages WHERE conversation_id = $1) base,
+       unnest($2::text[], $3::text[], $4::jsonb[]) WITH ORDINALITY AS input(role, content, sources, ord)`,
+    [
+      conversationId,
+      messages.map(m => m.role),
+      messages.map(m => m.content),
+      messages.map(m => (m.sources ? JSON.stringify(m.sources) : null))
+    ]
+  );
+}
+
+export async function listConversations(userId: string): Promise<Conversation[]> {
+  const result = await executeWithRetry((client) =>
+    client.query(
+      `SELECT ${CONVERSATION_COLUMNS} FROM conversations c
+       WHERE c.user_id = $1
+       ORDER BY c.updated_at DESC`,
+      [userId]
+    )
+  );
+
+  return result.rows.map(toConversation);
+}
+
+export async function getConversation(userId: string, id: string): Promise<ConversationWithMessages | null> {
+  return executeWithRetry(async (client) => {
+    const conversation = await client.query(
+      `SELECT ${CONVERSATION_COLUMNS} FROM conversations c WHERE c.id = $1 AND c.user_id = $2`,
+      [id, userId]
+    );
+    if (!conversation.rows[0]) return null;
+
+    const messages = await client.query(
+      `SELECT id, role, content, sources, created_at FROM conversation_messages
+       WHERE conversation_id = $1
+       ORDER BY position`,
+      [id]
+    );
+
+    return { ...toConversation(conversation.rows[0]), messages: messages.rows.map(toMessage) };
+  });
+}
+
+export async function createConversation(userId: string, input: ConversationInput): Promise<Conversation> {
+  const conversation = conversationSchema.parse(input);
+
+  return executeWithRetry(async (client) => {
+    await client.query('BEGIN');
+
+    try {
+      const created = await client.query(
+        `INSERT INTO conversations (user_id, title, persona)
+         VALUES ($1, $2, $3)
+         RETURNING id`,
+        [userId, conversation.title || titleFromMessages(conversation.messages), conversation.persona]
+      );
+      const id = created.rows[0].id;
+      await insertMessages(client, id, conversation.messages);
+
+      const result = await client.query(`SELECT ${CONVERSATION_COLUMNS} FROM conversations c WHERE c.id = $1`, [id]);
+      await client.query('COMMIT');
+      return toConversation(result.rows[0]);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    }
+  });
+}
+
+export async function updateConversation(userId: string, id: string, changes: ConversationUpdate): Promise<Conversation | null> {
+  const result = await executeWithRetry((client) =>
+    client.query(
+      `WITH updated AS (
+         UPDATE conversations SET
+           title = COALESCE($3, title),
+           persona = COALESCE($4, persona)
+         WHERE id = $1 AND user_id = $2
+         RETURNING *
+       )
+       SELECT ${CONVERSATION_COLUMNS} FROM updated c`,
+      [id, userId, changes.title ?? null, changes.persona ?? null]
+    )
+  );
+
+  return result.rows[0] ? toConversation(result.rows[0]) : null;
+}
+
+export async function deleteConversation(userId: string, id: string): Promise<boolean> {
+  const result = await executeWithRetry((client) =>
+    client.query('DELETE FROM conversations WHERE id = $1 AND user_id = $2', [id, userId])
+  );
+
+  return result.rowCount > 0;
+}
+
+// Returns null when the conversation does not exist or belongs to someone else
+export async function appendMessages(
+  userId: string,
+  id: string,
+  messages: ConversationMessageInput[]
+): Promise<Conversation | null> {
+  return executeWithRetry(async (client) => {
+    await client.query('BEGIN');
+
+    try {
+      const owned = await client.query(
+        'SELECT id FROM conversations WHERE id = $1 AND user_id = $2 FOR UPDATE',
+        [id, userId]
+      );
+      if (!owned.rows[0]) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      await insertMessages(client, id, messages);
+      const result = await client.query(
+        `UPDATE conversations c SET updated_at = CURRENT_TIMESTAMP
+         WHERE c.id = $1
+         RETURNING ${CONVERSATION_COLUMNS}`,
+        [id]
+      );
+
+      await client.query('COMMIT');
+      return toConversation(result.rows[0]);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    }
+  });
+}
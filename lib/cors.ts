@@ -0,0 +1,28 @@
+const ALLOWED_METHODS = 'GET, POST, PUT, PATCH, DELETE, OPTIONS';
+
+// Headers browsers may read from responses, e.g. the wait after a 429 and the chat title
+const EXPOSED_HEADERS = 'Retry-After, X-Chat-Title';
+
+// Comma-separated origins allowed to call the API from a browser, normalized to scheme://host[:port]. Read directly
+// from the environment because middleware runs on every API request and getConfig() validates everything else too
+export function parseAllowedOrigins(value = ''): string[] {
+  return value.split(',').map(origin => origin.trim()).filter(Boolean).map(origin => new URL(origin).origin);
+}
+
+// CORS headers for a browser on an allowed origin (CORS_ALLOWED_ORIGINS); any other origin gets none and is blocked.
+// Applied to every /api response by middleware.ts, so routes never set them themselves
+export function corsHeaders(request: Request): Record<string, string> {
+  const origin = request.headers.get('origin');
+  if (!origin || !parseAllowedOrigins(process.env.CORS_ALLOWED_ORIGINS).includes(origin)) {
+    return {};
+  }
+
+  return {
+    'Access-Control-Allow-Origin': origin,
+    'Access-Control-Allow-Methods': ALLOWED_METHODS,
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Credentials': 'true',
+    'Access-Control-Expose-Headers': EXPOSED_HEADERS,
+    'Vary': 'Origin'
+  };
+}
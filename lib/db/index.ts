@@ -1,37 +1,28 @@
-import { Pool, PoolClient } from 'pg';
+import { PoolClient } from 'pg';
+import { ensureMigrated } from '@/lib/db/migrate';
+import { getPool, type DbStore } from '@/lib/db/pools';
+
+export { DB_STORES, closePools, type DbStore } from '@/lib/db/pools';
 
 // Connection retry configuration
 const MAX_RETRIES = 3;
 const INITIAL_RETRY_DELAY = 1000; // 1 second
 
-// Configure connection pool with optimized settings
-const pool = new Pool({
-  connectionString: process.env.DATABASE_URL,
-  ssl: {
-    rejectUnauthorized: false
-  },
-  connectionTimeoutMillis: 5000, // 5 seconds
-  idleTimeoutMillis: 30000,
-  max: 10,
-  maxUses: 7500, // Reset connection after 7500 queries
-  statement_timeout: 10000, // 10 second statement timeout
-  query_timeout: 10000 // 10 second query timeout
-});
-
-// Add error handler to the pool
-pool.on('error', (err) => {
-  console.error('Unexpected error on idle client', err);
-});
+export async function executeWithRetry(
+  operation: (client: PoolClient) => Promise<any>,
+  store: DbStore = 'main',
+  maxRetries = MAX_RETRIES
+): Promise<any> {
+  await ensureMigrated(store);
 
-export async function executeWithRetry(operation: (client: PoolClient) => Promise<any>): Promise<any> {
   let lastError: Error | null = null;
   let retryCount = 0;
 
-  while (retryCount < MAX_RETRIES) {
+  while (retryCount < maxRetries) {
     let client: PoolClient | null = null;
     
     try {
-      client = await pool.connect();
+      client = await getPool(store).connect();
       return await operation(client);
     } catch (error: any) {
       lastError = error;
@@ -42,6 +33,11 @@ export async function executeWithRetry(operation: (client: PoolClient) => Promis
         throw error;
       }
       
+      // No point waiting after the last attempt
+      if (retryCount + 1 >= maxRetries) {
+        break;
+      }
+
       // Wait before retrying, with exponential backoff
       const delay = INITIAL_RETRY_DELAY * Math.pow(2, retryCount);
       await new Promise(resolve => setTimeout(resolve, delay));
@@ -55,4 +51,4 @@ export async function executeWithRetry(operation: (client: PoolClient) => Promis
   }
 
   throw lastError || new Error('Max retries exceeded');
-} 
\ No newline at end of file
+} 
@@ -0,0 +1,112 @@
+import { PoolClient } from 'pg';
+import { getConfig } from '@/lib/config';
+import { MIGRATIONS, type Migration } from '@/lib/db/migrations';
+import { getPool, type DbStore } from '@/lib/db/pools';
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  appliedAt: string | null;
+}
+
+// Arbitrary advisory lock key so concurrent deploys or cold starts migrate one at a time
+const MIGRATION_LOCK_KEY = 72410018;
+
+function migrationsFor(store: DbStore) {
+  return MIGRATIONS.filter(migration => migration.store === store);
+}
+
+// Runs the operation in one transaction holding the migration lock; any failure rolls everything back
+async function withMigrationLock<T>(store: DbStore, operation: (client: PoolClient) => Promise<T>): Promise<T> {
+  const client = await getPool(store).connect();
+
+  try {
+    await client.query('BEGIN');
+    await client.query('SELECT pg_advisory_xact_lock($1)', [MIGRATION_LOCK_KEY]);
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+
+    const result = await operation(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+async function appliedVersions(client: PoolClient): Promise<Map<number, string>> {
+  const result = await client.query('SELECT version, applied_at FROM schema_migrations');
+  return new Map(result.rows.map(row => [row.version, new Date(row.applied_at).toISOString()]));
+}
+
+// Applies every pending migration of the store in version order and returns the ones applied
+export async function migrate(store: DbStore): Promise<Migration[]> {
+  return withMigrationLock(store, async (client) => {
+    const applied = await appliedVersions(client);
+    const pending = migrationsFor(store).filter(migration => !applied.has(migration.version));
+
+    for (const migration of pending) {
+      await client.query(migration.up);
+      await client.query(
+        'INSERT INTO schema_migrations (version, name) VALUES ($1, $2)',
+        [migration.version, migration.name]
+      );
+    }
+    return pending;
+  });
+}
+
+// Reverts the most recently applied migrations of the store, newest first
+export async function rollback(store: DbStore, steps = 1): Promise<Migration[]> {
+  return withMigrationLock(store, async (client) => {
+    const applied = await appliedVersions(client);
+    const reverting = migrationsFor(store)
+      .filter(migration => applied.has(migration.version))
+      .reverse()
+      .slice(0, steps);
+
+    for (const migration of reverting) {
+      await client.query(migration.down);
+      await client.query('DELETE FROM schema_migrations WHERE version = $1', [migration.version]);
+    }
+    return reverting;
+  });
+}
+
+export async function migrationStatus(store: DbStore): Promise<MigrationStatus[]> {
+  return withMigrationLock(store, async (client) => {
+    const applied = await appliedVersions(client);
+    return migrationsFor(store).map(migration => ({
+      version: migration.version,
+      name: migration.name,
+      appliedAt: applied.get(migration.version) ?? null
+    }));
+  });
+}
+
+const migrated = new Map<DbStore, Promise<void>>();
+
+// Brings the store up to date once per process before its first query; DB_AUTO_MIGRATE=false leaves it to `npm run db:migrate`
+export function ensureMigrated(store: DbStore): Promise<void> {
+  if (!getConfig().database.autoMigrate) {
+    return Promise.resolve();
+  }
+
+  let ready = migrated.get(store);
+  if (!ready) {
+    ready = migrate(store).then(() => undefined).catch((error) => {
+      migrated.delete(store);
+      throw error;
+    });
+    migrated.set(store, ready);
+  }
+  return ready;
+}
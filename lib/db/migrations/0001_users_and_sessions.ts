@@ -0,0 +1,31 @@
+import type { Migration } from '@/lib/db/migrations';
+
+const migration: Migration = {
+  version: 1,
+  name: 'users_and_sessions',
+  store: 'main',
+  up: `
+    CREATE TABLE IF NOT EXISTS users (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      email TEXT NOT NULL UNIQUE,
+      name TEXT,
+      password_hash TEXT NOT NULL,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS user_sessions (
+      token_hash TEXT PRIMARY KEY,
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS user_sessions_user_id_idx ON user_sessions (user_id);
+  `,
+  down: `
+    DROP TABLE IF EXISTS user_sessions;
+    DROP TABLE IF EXISTS users;
+  `
+};
+
+export default migration;
@@ -0,0 +1,28 @@
+import type { Migration } from '@/lib/db/migrations';
+
+const migration: Migration = {
+  version: 2,
+  name: 'medications',
+  store: 'main',
+  up: `
+    CREATE TABLE IF NOT EXISTS medications (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      name TEXT NOT NULL,
+      dosage TEXT NOT NULL,
+      frequency TEXT NOT NULL,
+      time_of_day TEXT[] NOT NULL DEFAULT '{}',
+      notes TEXT,
+      position INTEGER NOT NULL DEFAULT 0,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS medications_user_id_idx ON medications (user_id, position);
+  `,
+  down: `
+    DROP TABLE IF EXISTS medications;
+  `
+};
+
+export default migration;
@@ -0,0 +1,28 @@
+import type { Migration } from '@/lib/db/migrations';
+
+const migration: Migration = {
+  version: 3,
+  name: 'dose_logs',
+  store: 'main',
+  up: `
+    CREATE TABLE IF NOT EXISTS dose_logs (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      medication_id UUID NOT NULL REFERENCES medications(id) ON DELETE CASCADE,
+      scheduled_at TIMESTAMP WITH TIME ZONE NOT NULL,
+      status TEXT NOT NULL CHECK (status IN ('taken', 'skipped', 'snoozed')),
+      taken_at TIMESTAMP WITH TIME ZONE,
+      snoozed_until TIMESTAMP WITH TIME ZONE,
+      note TEXT,
+      logged_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (medication_id, scheduled_at)
+    );
+
+    CREATE INDEX IF NOT EXISTS dose_logs_user_scheduled_idx ON dose_logs (user_id, scheduled_at);
+  `,
+  down: `
+    DROP TABLE IF EXISTS dose_logs;
+  `
+};
+
+export default migration;
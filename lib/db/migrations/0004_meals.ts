@@ -0,0 +1,33 @@
+import type { Migration } from '@/lib/db/migrations';
+
+const migration: Migration = {
+  version: 4,
+  name: 'meals',
+  store: 'main',
+  up: `
+    CREATE TABLE IF NOT EXISTS meals (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      source TEXT NOT NULL DEFAULT 'manual',
+      dish_name TEXT NOT NULL,
+      eaten_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      thumbnail TEXT,
+      calories DOUBLE PRECISION NOT NULL DEFAULT 0,
+      carbohydrates DOUBLE PRECISION NOT NULL DEFAULT 0,
+      proteins DOUBLE PRECISION NOT NULL DEFAULT 0,
+      fats DOUBLE PRECISION NOT NULL DEFAULT 0,
+      fiber DOUBLE PRECISION NOT NULL DEFAULT 0,
+      portion_consumed DOUBLE PRECISION NOT NULL DEFAULT 1,
+      nutrition JSONB,
+      notes TEXT,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS meals_user_eaten_idx ON meals (user_id, eaten_at);
+  `,
+  down: `
+    DROP TABLE IF EXISTS meals;
+  `
+};
+
+export default migration;
@@ -0,0 +1,26 @@
+import type { Migration } from '@/lib/db/migrations';
+
+const migration: Migration = {
+  version: 5,
+  name: 'measurements',
+  store: 'main',
+  up: `
+    CREATE TABLE IF NOT EXISTS measurements (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      kind TEXT NOT NULL,
+      value DOUBLE PRECISION NOT NULL,
+      secondary_value DOUBLE PRECISION,
+      measured_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      notes TEXT,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS measurements_user_kind_idx ON measurements (user_id, kind, measured_at);
+  `,
+  down: `
+    DROP TABLE IF EXISTS measurements;
+  `
+};
+
+export default migration;
@@ -0,0 +1,28 @@
+import type { Migration } from '@/lib/db/migrations';
+
+const migration: Migration = {
+  version: 6,
+  name: 'titration_plans',
+  store: 'main',
+  up: `
+    CREATE TABLE IF NOT EXISTS titration_plans (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      medication_id UUID,
+      product TEXT NOT NULL,
+      start_date DATE NOT NULL,
+      current_step INTEGER NOT NULL DEFAULT 0,
+      step_started_on DATE NOT NULL,
+      status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'completed')),
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS titration_plans_user_id_idx ON titration_plans (user_id, created_at);
+  `,
+  down: `
+    DROP TABLE IF EXISTS titration_plans;
+  `
+};
+
+export default migration;
@@ -0,0 +1,35 @@
+import type { Migration } from '@/lib/db/migrations';
+
+const migration: Migration = {
+  version: 7,
+  name: 'conversations',
+  store: 'main',
+  up: `
+    CREATE TABLE IF NOT EXISTS conversations (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      title TEXT NOT NULL,
+      persona TEXT NOT NULL DEFAULT 'general_med',
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS conversations_user_updated_idx ON conversations (user_id, updated_at DESC);
+
+    CREATE TABLE IF NOT EXISTS conversation_messages (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+      position INTEGER NOT NULL,
+      role TEXT NOT NULL,
+      content TEXT NOT NULL,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (conversation_id, position)
+    );
+  `,
+  down: `
+    DROP TABLE IF EXISTS conversation_messages;
+    DROP TABLE IF EXISTS conversations;
+  `
+};
+
+export default migration;
@@ -0,0 +1,30 @@
+import type { Migration } from '@/lib/db/migrations';
+
+const migration: Migration = {
+  version: 8,
+  name: 'chat_memory',
+  store: 'memory',
+  up: `
+    CREATE EXTENSION IF NOT EXISTS vector;
+
+    CREATE TABLE IF NOT EXISTS chat_memory (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      question TEXT NOT NULL,
+      question_summary TEXT NOT NULL,
+      question_embedding vector(1536),
+      timestamp TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    );
+
+    -- users live in the main database, so there is no foreign key here.
+    -- Rows stored before ownership was tracked keep a NULL owner and are never returned.
+    ALTER TABLE chat_memory ADD COLUMN IF NOT EXISTS user_id UUID;
+
+    CREATE INDEX IF NOT EXISTS chat_memory_user_timestamp_idx ON chat_memory (user_id, timestamp DESC);
+  `,
+  // The vector extension stays installed; other tables in the database may use it
+  down: `
+    DROP TABLE IF EXISTS chat_memory;
+  `
+};
+
+export default migration;
@@ -0,0 +1,24 @@
+import type { Migration } from '@/lib/db/migrations';
+
+const migration: Migration = {
+  version: 9,
+  name: 'message_feedback',
+  store: 'feedback',
+  up: `
+    CREATE TABLE IF NOT EXISTS message_feedback (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      message_id TEXT NOT NULL UNIQUE,
+      feedback SMALLINT NOT NULL CHECK (feedback IN (0, 1)),
+      message_content TEXT NOT NULL,
+      user_suggestion TEXT,
+      timestamp TIMESTAMP WITH TIME ZONE NOT NULL,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    );
+  `,
+  down: `
+    DROP TABLE IF EXISTS message_feedback;
+  `
+};
+
+export default migration;
@@ -0,0 +1,28 @@
+import type { Migration } from '@/lib/db/migrations';
+
+const migration: Migration = {
+  version: 10,
+  name: 'rate_limits',
+  store: 'main',
+  up: `
+    -- Keys look like chat:user:<id> or chat:ip:<address>
+    CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+      key TEXT PRIMARY KEY,
+      tokens DOUBLE PRECISION NOT NULL,
+      updated_at TIMESTAMP WITH TIME ZONE NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS rate_limit_quotas (
+      key TEXT NOT NULL,
+      day DATE NOT NULL,
+      used DOUBLE PRECISION NOT NULL DEFAULT 0,
+      PRIMARY KEY (key, day)
+    );
+  `,
+  down: `
+    DROP TABLE IF EXISTS rate_limit_quotas;
+    DROP TABLE IF EXISTS rate_limit_buckets;
+  `
+};
+
+export default migration;
@@ -0,0 +1,28 @@
+import type { Migration } from '@/lib/db/migrations';
+
+const migration: Migration = {
+  version: 11,
+  name: 'triage_events',
+  store: 'main',
+  up: `
+    -- Chat messages answered with emergency guidance instead of the model, kept for clinical review
+    CREATE TABLE IF NOT EXISTS triage_events (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      category TEXT NOT NULL,
+      -- 'rules' when a red-flag pattern matched, 'model' when only the classifier flagged it
+      detected_by TEXT NOT NULL CHECK (detected_by IN ('rules', 'model')),
+      message TEXT NOT NULL,
+      persona TEXT NOT NULL,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      reviewed_at TIMESTAMP WITH TIME ZONE
+    );
+
+    CREATE INDEX IF NOT EXISTS triage_events_unreviewed_idx ON triage_events (created_at) WHERE reviewed_at IS NULL;
+  `,
+  down: `
+    DROP TABLE IF EXISTS triage_events;
+  `
+};
+
+export default migration;
@@ -0,0 +1,33 @@
+import type { Migration } from '@/lib/db/migrations';
+
+const migration: Migration = {
+  version: 12,
+  name: 'drug_labels',
+  store: 'main',
+  up: `
+    CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+    -- Local copy of openFDA drug labels, filled on cache misses and by npm run db:import-labels
+    CREATE TABLE IF NOT EXISTS drug_labels (
+      set_id TEXT PRIMARY KEY,
+      brand_name TEXT,
+      generic_name TEXT,
+      strength TEXT,
+      routes TEXT[] NOT NULL DEFAULT '{}',
+      product_ndc TEXT[] NOT NULL DEFAULT '{}',
+      -- Lowercased brand and generic names, matched by prefix and trigram similarity
+      search_text TEXT NOT NULL,
+      -- openfda metadata and the label sections the app reads
+      label JSONB NOT NULL,
+      fetched_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS drug_labels_search_text_idx ON drug_labels USING GIN (search_text gin_trgm_ops);
+  `,
+  // pg_trgm stays installed; other tables in the database may use it
+  down: `
+    DROP TABLE IF EXISTS drug_labels;
+  `
+};
+
+export default migration;
@@ -0,0 +1,18 @@
+import type { Migration } from '@/lib/db/migrations';
+
+const migration: Migration = {
+  version: 13,
+  name: 'rate_limit_expiry',
+  store: 'main',
+  up: `
+    -- Expired buckets and past days' quotas are deleted by lib/rate-limit.ts
+    CREATE INDEX IF NOT EXISTS rate_limit_buckets_updated_at_idx ON rate_limit_buckets (updated_at);
+    CREATE INDEX IF NOT EXISTS rate_limit_quotas_day_idx ON rate_limit_quotas (day);
+  `,
+  down: `
+    DROP INDEX IF EXISTS rate_limit_quotas_day_idx;
+    DROP INDEX IF EXISTS rate_limit_buckets_updated_at_idx;
+  `
+};
+
+export default migration;
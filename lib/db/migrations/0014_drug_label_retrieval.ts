@@ -0,0 +1,29 @@
+import type { Migration } from '@/lib/db/migrations';
+
+const migration: Migration = {
+  version: 14,
+  name: 'drug_label_retrieval',
+  store: 'main',
+  up: `
+    -- Embeddings of the label's chunks for chat retrieval, with the model that made them; cleared when the label changes
+    ALTER TABLE drug_labels ADD COLUMN IF NOT EXISTS chunk_embeddings JSONB;
+
+    -- Chat questions find labels by the first word of a brand or generic name
+    CREATE INDEX IF NOT EXISTS drug_labels_brand_word_idx ON drug_labels (split_part(lower(brand_name), ' ', 1));
+    CREATE INDEX IF NOT EXISTS drug_labels_generic_word_idx ON drug_labels (split_part(lower(generic_name), ' ', 1));
+
+    -- Names chat questions looked up on openFDA, so words that are not drug names are not sent again until they expire
+    CREATE TABLE IF NOT EXISTS drug_label_lookups (
+      name TEXT PRIMARY KEY,
+      checked_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+    );
+  `,
+  down: `
+    DROP TABLE IF EXISTS drug_label_lookups;
+    DROP INDEX IF EXISTS drug_labels_generic_word_idx;
+    DROP INDEX IF EXISTS drug_labels_brand_word_idx;
+    ALTER TABLE drug_labels DROP COLUMN IF EXISTS chunk_embeddings;
+  `
+};
+
+export default migration;
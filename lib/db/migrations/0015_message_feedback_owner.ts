@@ -0,0 +1,25 @@
+import type { Migration } from '@/lib/db/migrations';
+
+const migration: Migration = {
+  version: 15,
+  name: 'message_feedback_owner',
+  store: 'feedback',
+  up: `
+    -- Message ids come from the client, so a rating is unique per user rather than per message id.
+    -- Ratings stored before they were tied to a user cannot be attributed to anyone and are dropped.
+    -- The foreign key needs the users table, so the feedback store must share the main database
+    ALTER TABLE message_feedback ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES users(id) ON DELETE CASCADE;
+    DELETE FROM message_feedback WHERE user_id IS NULL;
+    ALTER TABLE message_feedback ALTER COLUMN user_id SET NOT NULL;
+
+    ALTER TABLE message_feedback DROP CONSTRAINT IF EXISTS message_feedback_message_id_key;
+    ALTER TABLE message_feedback ADD CONSTRAINT message_feedback_user_message_key UNIQUE (user_id, message_id);
+  `,
+  down: `
+    ALTER TABLE message_feedback DROP CONSTRAINT IF EXISTS message_feedback_user_message_key;
+    ALTER TABLE message_feedback DROP COLUMN IF EXISTS user_id;
+    ALTER TABLE message_feedback ADD CONSTRAINT message_feedback_message_id_key UNIQUE (message_id);
+  `
+};
+
+export default migration;
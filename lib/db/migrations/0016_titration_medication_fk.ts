@@ -0,0 +1,22 @@
+import type { Migration } from '@/lib/db/migrations';
+
+const migration: Migration = {
+  version: 16,
+  name: 'titration_medication_fk',
+  store: 'main',
+  up: `
+    -- Links to medications that are gone or belong to someone else were never valid; the plan itself is kept
+    UPDATE titration_plans p SET medication_id = NULL
+    WHERE medication_id IS NOT NULL
+      AND NOT EXISTS (SELECT 1 FROM medications m WHERE m.id = p.medication_id AND m.user_id = p.user_id);
+
+    ALTER TABLE titration_plans
+      ADD CONSTRAINT titration_plans_medication_id_fkey
+      FOREIGN KEY (medication_id) REFERENCES medications(id) ON DELETE CASCADE;
+  `,
+  down: `
+    ALTER TABLE titration_plans DROP CONSTRAINT IF EXISTS titration_plans_medication_id_fkey;
+  `
+};
+
+export default migration;
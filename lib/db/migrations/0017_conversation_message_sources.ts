@@ -0,0 +1,16 @@
+import type { Migration } from '@/lib/db/migrations';
+
+const migration: Migration = {
+  version: 17,
+  name: 'conversation_message_sources',
+  store: 'main',
+  up: `
+    -- The checked sources the chat route attached to an answer; null for user messages and older answers
+    ALTER TABLE conversation_messages ADD COLUMN IF NOT EXISTS sources JSONB;
+  `,
+  down: `
+    ALTER TABLE conversation_messages DROP COLUMN IF EXISTS sources;
+  `
+};
+
+export default migration;
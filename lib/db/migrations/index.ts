@@ -0,0 +1,48 @@
+import type { DbStore } from '@/lib/db/pools';
+import usersAndSessions from './0001_users_and_sessions';
+import medications from './0002_medications';
+import doseLogs from './0003_dose_logs';
+import meals from './0004_meals';
+import measurements from './0005_measurements';
+import titrationPlans from './0006_titration_plans';
+import conversations from './0007_conversations';
+import chatMemory from './0008_chat_memory';
+import messageFeedback from './0009_message_feedback';
+import rateLimits from './0010_rate_limits';
+import triageEvents from './0011_triage_events';
+import drugLabels from './0012_drug_labels';
+import rateLimitExpiry from './0013_rate_limit_expiry';
+import drugLabelRetrieval from './0014_drug_label_retrieval';
+import messageFeedbackOwner from './0015_message_feedback_owner';
+import titrationMedicationFk from './0016_titration_medication_fk';
+import conversationMessageSources from './0017_conversation_message_sources';
+
+// Versions are unique across stores so stores sharing one database share one schema_migrations table
+export interface Migration {
+  version: number;
+  name: string;
+  store: DbStore;
+  up: string;
+  down: string;
+}
+
+// Append new migrations here with the next version number; never edit one that has shipped
+export const MIGRATIONS: Migration[] = [
+  usersAndSessions,
+  medications,
+  doseLogs,
+  meals,
+  measurements,
+  titrationPlans,
+  conversations,
+  chatMemory,
+  messageFeedback,
+  rateLimits,
+  triageEvents,
+  drugLabels,
+  rateLimitExpiry,
+  drugLabelRetrieval,
+  messageFeedbackOwner,
+  titrationMedicationFk,
+  conversationMessageSources
+];
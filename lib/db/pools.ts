@@ -0,0 +1,40 @@
+import { Pool } from 'pg';
+import { getConfig } from '@/lib/config';
+
+// Each store can live in its own database; they may also all point at the same one
+export const DB_STORES = ['main', 'memory', 'feedback'] as const;
+export type DbStore = typeof DB_STORES[number];
+
+const pools = new Map<DbStore, Pool>();
+
+// Pools are created on first use so a store that is never queried never connects
+export function getPool(store: DbStore): Pool {
+  let pool = pools.get(store);
+  if (!pool) {
+    pool = new Pool({
+      connectionString: getConfig().database.urls[store],
+      ssl: {
+        rejectUnauthorized: false
+      },
+      connectionTimeoutMillis: 5000, // 5 seconds
+      idleTimeoutMillis: 30000,
+      max: 10,
+      maxUses: 7500, // Reset connection after 7500 queries
+      statement_timeout: 10000, // 10 second statement timeout
+      query_timeout: 10000 // 10 second query timeout
+    });
+
+    pool.on('error', (err) => {
+      console.error(`Unexpected error on idle ${store} client`, err);
+    });
+
+    pools.set(store, pool);
+  }
+  return pool;
+}
+
+export async function closePools() {
+  const open = Array.from(pools.values());
+  pools.clear();
+  await Promise.all(open.map(pool => pool.end()));
+}
@@ -0,0 +1,224 @@
+import { executeWithRetry } from '@/lib/db';
+import type { DoseEvent } from '@/lib/schedule';
+
+export const DOSE_ACTIONS = ['take', 'skip', 'snooze'] as const;
+export type DoseAction = typeof DOSE_ACTIONS[number];
+export type DoseStatus = 'taken' | 'skipped' | 'snoozed';
+
+const STATUS_BY_ACTION: Record<DoseAction, DoseStatus> = {
+  take: 'taken',
+  skip: 'skipped',
+  snooze: 'snoozed'
+};
+
+// A dose taken more than this long after its scheduled time counts as late
+export const LATE_THRESHOLD_MINUTES = 60;
+const DEFAULT_SNOOZE_MINUTES = 30;
+// Schedules are expanded with one fixed UTC offset, so after a DST change the same slot is an hour away from
+// the time its logs were stored under; logs this close to a slot still belong to it
+export const DOSE_MATCH_WINDOW_MINUTES = 90;
+const DOSE_MATCH_WINDOW_MS = DOSE_MATCH_WINDOW_MINUTES * 60 * 1000;
+
+export interface DoseLog {
+  id: string;
+  medicationId: string;
+  scheduledAt: string;
+  status: DoseStatus;
+  takenAt: string | null;
+  snoozedUntil: string | null;
+  note: string | null;
+  loggedAt: string;
+}
+
+export interface DoseLogInput {
+  medicationId: string;
+  scheduledAt: Date;
+  action: DoseAction;
+  takenAt?: Date;
+  snoozeMinutes?: number;
+  note?: string;
+}
+
+export interface MedicationAdherence {
+  medicationId: string;
+  name: string;
+  expected: number;
+  taken: number;
+  late: number;
+  skipped: number;
+  missed: number;
+  adherenceRate: number | null;
+  currentStreak: number;
+  longestStreak: number;
+  missedBySlot: Record<string, number>;
+}
+
+const DOSE_LOG_COLUMNS = 'id, medication_id, scheduled_at, status, taken_at, snoozed_until, note, logged_at';
+
+function toIso(value: any) {
+  return value ? new Date(value).toISOString() : null;
+}
+
+function toDoseLog(row: any): DoseLog {
+  return {
+    id: row.id,
+    medicationId: row.medication_id,
+    scheduledAt: new Date(row.scheduled_at).toISOString(),
+    status: row.status,
+    takenAt: toIso(row.taken_at),
+    snoozedUntil: toIso(row.snoozed_until),
+    note: row.note,
+    loggedAt: new Date(row.logged_at).toISOString()
+  };
+}
+
+// Record (or replace) the outcome of one scheduled dose; null when the medication is not the user's
+export async function logDose(userId: string, input: DoseLogInput): Promise<DoseLog | null> {
+  const status = STATUS_BY_ACTION[input.action];
+  const takenAt = status === 'taken' ? (input.takenAt ?? new Date()) : null;
+  const snoozedUntil = status === 'snoozed'
+    ? new Date(Date.now() + (input.snoozeMinutes ?? DEFAULT_SNOOZE_MINUTES) * 60 * 1000)
+    : null;
+
+  const result = await executeWithRetry(async (client) => {
+    // Changing an outcome logged before a DST change updates that log instead of adding a second one for the slot
+    const existing = await client.query(
+      `SELECT scheduled_at FROM dose_logs
+       WHERE user_id = $1 AND medication_id = $2 AND scheduled_at BETWEEN $3 AND $4
+       ORDER BY abs(extract(epoch FROM scheduled_at - $5::timestamptz))
+       LIMIT 1`,
+      [
+        userId, input.medicationId, new Date(input.scheduledAt.getTime() - DOSE_MATCH_WINDOW_MS),
+        new Date(input.scheduledAt.getTime() + DOSE_MATCH_WINDOW_MS), input.scheduledAt
+      ]
+    );
+    const scheduledAt = existing.rows[0]?.scheduled_at ?? input.scheduledAt;
+
+    return client.query(
+      `INSERT INTO dose_logs (user_id, medication_id, scheduled_at, status, taken_at, snoozed_until, note)
+       SELECT $1, m.id, $3, $4, $5, $6, $7
+       FROM medications m
+       WHERE m.id = $2 AND m.user_id = $1
+       ON CONFLICT (medication_id, scheduled_at)
+       DO UPDATE SET
+         status = EXCLUDED.status,
+         taken_at = EXCLUDED.taken_at,
+         snoozed_until = EXCLUDED.snoozed_until,
+         note = COALESCE(EXCLUDED.note, dose_logs.note),
+         logged_at = CURRENT_TIMESTAMP
+       RETURNING ${DOSE_LOG_COLUMNS}`,
+      [userId, input.medicationId, scheduledAt, status, takenAt, snoozedUntil, input.note || null]
+    );
+  });
+
+  return result.rows[0] ? toDoseLog(result.rows[0]) : null;
+}
+
+// `margin` widens the range on both sides, so doses near its edges can be matched with matchDoseLogs
+export async function listDoseLogs(
+  userId: string,
+  options: { from: Date; to: Date; medicationId?: string; margin?: boolean }
+): Promise<DoseLog[]> {
+  const margin = options.margin ? DOSE_MATCH_WINDOW_MS : 0;
+  const result = await executeWithRetry((client) =>
+    client.query(
+      `SELECT ${DOSE_LOG_COLUMNS} FROM dose_logs
+       WHERE user_id = $1
+         AND scheduled_at BETWEEN $2 AND $3
+         AND ($4::uuid IS NULL OR medication_id = $4)
+       ORDER BY scheduled_at DESC`,
+      [
+        userId, new Date(options.from.getTime() - margin), new Date(options.to.getTime() + margin),
+        options.medicationId || null
+      ]
+    )
+  );
+
+  return result.rows.map(toDoseLog);
+}
+
+// The log of each dose event: the closest one for the same medication within DOSE_MATCH_WINDOW_MINUTES,
+// each log used once
+export function matchDoseLogs(events: DoseEvent[], logs: DoseLog[]): Map<DoseEvent, DoseLog> {
+  const unmatched = new Set(logs);
+  const matches = new Map<DoseEvent, DoseLog>();
+
+  for (const event of events) {
+    let best: DoseLog | null = null;
+    let bestDistance = DOSE_MATCH_WINDOW_MS;
+    for (const log of unmatched) {
+      if (log.medicationId !== event.medicationId) continue;
+      const distance = Math.abs(new Date(log.scheduledAt).getTime() - event.scheduledAt.getTime());
+      if (distance <= bestDistance) {
+        best = log;
+        bestDistance = distance;
+      }
+    }
+    if (best) {
+      matches.set(event, best);
+      unmatched.delete(best);
+    }
+  }
+  return matches;
+}
+
+// Adherence per medication over doses that were already due; unlogged or still-snoozed doses count as missed
+export function computeAdherence(events: DoseEvent[], logs: DoseLog[], now = new Date()): MedicationAdherence[] {
+  const logsByDose = matchDoseLogs(events, logs);
+  const byMedication = new Map<string, MedicationAdherence & { outcomes: boolean[] }>();
+
+  for (const event of events) {
+    if (event.scheduledAt > now) continue;
+
+    let stats = byMedication.get(event.medicationId);
+    if (!stats) {
+      stats = {
+        medicationId: event.medicationId,
+        name: event.name,
+        expected: 0,
+        taken: 0,
+        late: 0,
+        skipped: 0,
+        missed: 0,
+        adherenceRate: null,
+        currentStreak: 0,
+        longestStreak: 0,
+        missedBySlot: {},
+        outcomes: []
+      };
+      byMedication.set(event.medicationId, stats);
+    }
+
+    const log = logsByDose.get(event);
+    stats.expected++;
+
+    if (log?.status === 'taken') {
+      stats.taken++;
+      const delayMinutes = (new Date(log.takenAt || log.loggedAt).getTime() - event.scheduledAt.getTime()) / 60000;
+      if (delayMinutes > LATE_THRESHOLD_MINUTES) stats.late++;
+      stats.outcomes.push(true);
+    } else {
+      if (log?.status === 'skipped') {
+        stats.skipped++;
+      } else {
+        stats.missed++;
+      }
+      stats.missedBySlot[event.slot] = (stats.missedBySlot[event.slot] || 0) + 1;
+      stats.outcomes.push(false);
+    }
+  }
+
+  return Array.from(byMedication.values()).map(({ outcomes, ...stats }) => {
+    let run = 0;
+    for (const taken of outcomes) {
+      run = taken ? run + 1 : 0;
+      stats.longestStreak = Math.max(stats.longestStreak, run);
+    }
+
+    return {
+      ...stats,
+      currentStreak: run,
+      adherenceRate: stats.expected > 0 ? Math.round((stats.taken / stats.expected) * 1000) / 10 : null
+    };
+  });
+}
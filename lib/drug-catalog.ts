@@ -0,0 +1,239 @@
+import { getConfig } from '@/lib/config';
+import { executeWithRetry } from '@/lib/db';
+import { fetchDrugLabelsBySetId, findDrugLabels, LABEL_SECTIONS, searchDrugLabels, type FdaLabel } from '@/lib/fda';
+
+export interface CatalogEntry {
+  setId: string;
+  brandName: string | null;
+  genericName: string | null;
+  strength: string | null;
+  routes: string[];
+  productNdc: string[];
+  label: FdaLabel;
+  fetchedAt: string;
+}
+
+// Label fields kept in the cache; full labels also carry tables, images and patient leaflets nothing here reads
+const KEPT_FIELDS = ['set_id', 'effective_time', 'active_ingredient', 'openfda', ...Object.keys(LABEL_SECTIONS)];
+
+function toRecord(label: FdaLabel) {
+  if (!label.set_id) return [];
+
+  const brandName = label.openfda?.brand_name?.[0] || null;
+  const genericName = label.openfda?.generic_name?.[0] || null;
+  const searchText = [brandName, genericName].filter(Boolean).join(' ').toLowerCase();
+  if (!searchText) return [];
+
+  return [{
+    setId: label.set_id,
+    brandName,
+    genericName,
+    strength: label.active_ingredient?.[0] || null,
+    routes: label.openfda?.route || [],
+    productNdc: label.openfda?.product_ndc || [],
+    searchText,
+    label: Object.fromEntries(KEPT_FIELDS.filter(field => label[field] !== undefined).map(field => [field, label[field]]))
+  }];
+}
+
+function toEntry(row: any): CatalogEntry {
+  return {
+    setId: row.set_id,
+    brandName: row.brand_name,
+    genericName: row.generic_name,
+    strength: row.strength,
+    routes: row.routes,
+    productNdc: row.product_ndc,
+    label: row.label,
+    fetchedAt: new Date(row.fetched_at).toISOString()
+  };
+}
+
+// Adds or refreshes labels in one transaction; labels without a set id or any name are skipped. Returns how many were stored
+export async function cacheLabels(labels: FdaLabel[], fetchedAt = new Date()): Promise<number> {
+  const records = labels.flatMap(toRecord);
+  if (records.length === 0) return 0;
+
+  await executeWithRetry(async (client) => {
+    await client.query('BEGIN');
+    try {
+      for (const record of records) {
+        await client.query(
+          `INSERT INTO drug_labels (set_id, brand_name, generic_name, strength, routes, product_ndc, search_text, label, fetched_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+           ON CONFLICT (set_id) DO UPDATE SET
+             brand_name = EXCLUDED.brand_name,
+             generic_name = EXCLUDED.generic_name,
+             strength = EXCLUDED.strength,
+             routes = EXCLUDED.routes,
+             product_ndc = EXCLUDED.product_ndc,
+             search_text = EXCLUDED.search_text,
+             label = EXCLUDED.label,
+             chunk_embeddings = CASE WHEN drug_labels.label = EXCLUDED.label THEN drug_labels.chunk_embeddings END,
+             fetched_at = EXCLUDED.fetched_at`,
+          [
+            record.setId, record.brandName, record.genericName, record.strength, record.routes,
+            record.productNdc, record.searchText, JSON.stringify(record.label), fetchedAt
+          ]
+        );
+      }
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    }
+  });
+  return records.length;
+}
+
+function escapeLike(value: string) {
+  return value.replace(/[\\%_]/g, '\\$&');
+}
+
+// Name prefixes rank first, then names containing the query, then near misses such as typos, each by trigram similarity
+export async function searchCatalog(query: string, limit = 20): Promise<CatalogEntry[]> {
+  const term = query.trim().toLowerCase();
+  if (!term) return [];
+
+  const result = await executeWithRetry((client) =>
+    client.query(
+      `SELECT set_id, brand_name, generic_name, strength, routes, product_ndc, label, fetched_at,
+         CASE
+           WHEN lower(brand_name) LIKE $2 OR lower(generic_name) LIKE $2 THEN 0
+           WHEN search_text LIKE $3 THEN 1
+           ELSE 2
+         END AS rank
+       FROM drug_labels
+       WHERE search_text LIKE $3 OR $1 <% search_text
+       ORDER BY rank, word_similarity($1, search_text) DESC, brand_name
+       LIMIT $4`,
+      [term, `${escapeLike(term)}%`, `%${escapeLike(term)}%`, limit]
+    )
+  );
+  return result.rows.map(toEntry);
+}
+
+function cacheTtlMs() {
+  return getConfig().drugLabelCacheTtlHours * 3600000;
+}
+
+function isFresh(entry: CatalogEntry, now = Date.now()) {
+  return now - new Date(entry.fetchedAt).getTime() < cacheTtlMs();
+}
+
+// Re-fetches these labels by set id. Labels openFDA no longer returns keep their cached copy but count as checked,
+// so a withdrawn label is not looked up again on every search
+async function refreshLabels(setIds: string[]) {
+  const checkedAt = new Date();
+  const labels = await fetchDrugLabelsBySetId(setIds);
+  await cacheLabels(labels, checkedAt);
+
+  const returned = new Set(labels.map(label => label.set_id));
+  const missing = setIds.filter(setId => !returned.has(setId));
+  if (missing.length > 0) {
+    await executeWithRetry((client) =>
+      client.query('UPDATE drug_labels SET fetched_at = $2 WHERE set_id = ANY($1)', [missing, checkedAt])
+    );
+  }
+}
+
+// Cache hits are served as they are, after re-fetching the stale ones by set id; only a miss searches openFDA.
+// Only names someone searched for (or a bulk import) are cached, so seed it for complete autocomplete
+export async function searchDrugCatalog(query: string, limit = 20): Promise<CatalogEntry[]> {
+  const cached = await searchCatalog(query, limit);
+  if (cached.length === 0) {
+    await cacheLabels(await searchDrugLabels(query, limit));
+    return searchCatalog(query, limit);
+  }
+
+  const stale = cached.filter(entry => !isFresh(entry)).map(entry => entry.setId);
+  if (stale.length === 0) return cached;
+
+  try {
+    await refreshLabels(stale);
+  } catch (error) {
+    console.error('openFDA unavailable, serving cached labels:', error);
+    return cached;
+  }
+  return searchCatalog(query, limit);
+}
+
+function firstWord(name: string | null) {
+  return name ? name.toLowerCase().split(' ')[0] : null;
+}
+
+// Labels whose brand or generic name starts with one of `words`, as openFDA's phrase match finds "metformin hydrochloride" for "metformin"
+async function selectByFirstWord(words: string[], limit: number): Promise<CatalogEntry[]> {
+  const result = await executeWithRetry((client) =>
+    client.query(
+      `SELECT set_id, brand_name, generic_name, strength, routes, product_ndc, label, fetched_at
+       FROM drug_labels
+       WHERE split_part(lower(brand_name), ' ', 1) = ANY($1) OR split_part(lower(generic_name), ' ', 1) = ANY($1)
+       ORDER BY brand_name
+       LIMIT $2`,
+      [words, limit]
+    )
+  );
+  return result.rows.map(toEntry);
+}
+
+// Cached labels for the words of a chat question. Words the cache has no label for are looked up on openFDA once
+// per cache lifetime, so question words that are not drug names do not reach openFDA on every turn
+export async function findCatalogLabels(words: string[], limit = 5): Promise<CatalogEntry[]> {
+  if (words.length === 0) return [];
+
+  const cached = await selectByFirstWord(words, limit);
+  const named = new Set(cached.flatMap(entry => [firstWord(entry.brandName), firstWord(entry.genericName)]));
+  const checkedAfter = new Date(Date.now() - cacheTtlMs());
+  const checked = await executeWithRetry((client) =>
+    client.query('SELECT name FROM drug_label_lookups WHERE name = ANY($1) AND checked_at > $2', [words, checkedAfter])
+  );
+  const recentlyChecked = new Set(checked.rows.map((row: { name: string }) => row.name));
+  const unchecked = words.filter(word => !named.has(word) && !recentlyChecked.has(word));
+  const stale = cached.filter(entry => !isFresh(entry)).map(entry => entry.setId);
+  if (unchecked.length === 0 && stale.length === 0) return cached;
+
+  try {
+    if (unchecked.length > 0) {
+      const checkedAt = new Date();
+      await cacheLabels(await findDrugLabels(unchecked, limit), checkedAt);
+      await executeWithRetry(async (client) => {
+        await client.query('DELETE FROM drug_label_lookups WHERE checked_at <= $1', [checkedAfter]);
+        await client.query(
+          `INSERT INTO drug_label_lookups (name, checked_at) SELECT unnest($1::text[]), $2
+           ON CONFLICT (name) DO UPDATE SET checked_at = EXCLUDED.checked_at`,
+          [unchecked, checkedAt]
+        );
+      });
+    }
+    if (stale.length > 0) await refreshLabels(stale);
+  } catch (error) {
+    console.error('openFDA unavailable, using cached labels:', error);
+    return cached;
+  }
+  return selectByFirstWord(words, limit);
+}
+
+// Chunk embeddings stored with each label by `model`, by set id
+export async function loadChunkEmbeddings(setIds: string[], model: string): Promise<Map<string, number[][]>> {
+  if (setIds.length === 0) return new Map();
+
+  const result = await executeWithRetry((client) =>
+    client.query(
+      `SELECT set_id, chunk_embeddings->'embeddings' AS embeddings FROM drug_labels
+       WHERE set_id = ANY($1) AND chunk_embeddings->>'model' = $2`,
+      [setIds, model]
+    )
+  );
+  return new Map(result.rows.map((row: { set_id: string; embeddings: number[][] }) => [row.set_id, row.embeddings]));
+}
+
+// Saved only while the cached label is still the one that was chunked; a refresh in between clears them anyway
+export async function storeChunkEmbeddings(label: FdaLabel, model: string, embeddings: number[][]): Promise<void> {
+  await executeWithRetry((client) =>
+    client.query(
+      'UPDATE drug_labels SET chunk_embeddings = $3 WHERE set_id = $1 AND label = $2::jsonb',
+      [label.set_id, JSON.stringify(label), JSON.stringify({ model, embeddings })]
+    )
+  );
+}
@@ -0,0 +1,161 @@
+import { cosineSimilarity, embedMany } from 'ai';
+import { getEmbeddingModel } from '@/lib/ai';
+import type { Citation } from '@/lib/citations';
+import { findCatalogLabels, loadChunkEmbeddings, storeChunkEmbeddings } from '@/lib/drug-catalog';
+import { getLabelNames, getLabelUrl, LABEL_SECTIONS, type FdaLabel, type LabelSection } from '@/lib/fda';
+
+export interface LabelChunk {
+  drug: string;
+  section: LabelSection;
+  text: string;
+  url: string | null;
+}
+
+export interface LabelExcerpt extends LabelChunk {
+  // Cited in the answer as [L1], [L2], ... so it cannot clash with the provider's numbered web sources
+  ref: string;
+  similarity: number;
+}
+
+const MAX_CHUNK_LENGTH = 800;
+// Long sections such as adverse reactions put their summary first, and embedding every table row costs too much
+const MAX_CHUNKS_PER_SECTION = 6;
+const MAX_LABELS = 2;
+const MAX_EXCERPTS = 4;
+const MAX_CANDIDATES = 8;
+
+// Common question words that are never drug names, so they are not sent to openFDA
+const STOP_WORDS = new Set([
+  'about', 'after', 'also', 'before', 'being', 'better', 'cause', 'causes', 'could', 'daily', 'does', 'dosage',
+  'dose', 'doses', 'drug', 'drugs', 'during', 'effect', 'effects', 'every', 'feel', 'from', 'have', 'help',
+  'interact', 'interaction', 'interactions', 'into', 'just', 'know', 'like', 'long', 'many', 'medication',
+  'medications', 'medicine', 'more', 'most', 'much', 'need', 'other', 'pill', 'pills', 'safe', 'should', 'side',
+  'some', 'take', 'taking', 'than', 'that', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'together',
+  'tablet', 'tablets', 'what', 'when', 'where', 'which', 'while', 'will', 'with', 'would', 'your'
+]);
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Words of the question that could be a drug name
+export function candidateDrugNames(question: string): string[] {
+  const words = question.toLowerCase().match(/[a-z][a-z0-9-]{3,}/g) || [];
+  return Array.from(new Set(words.filter(word => !STOP_WORDS.has(word)))).slice(0, MAX_CANDIDATES);
+}
+
+// "metformin" names the "metformin hydrochloride" label, so the first word of a name is enough
+function namedIn(text: string, name: string) {
+  return [name, name.split(' ')[0]].some(term => new RegExp(`\\b${escapeRegExp(term)}\\b`).test(text));
+}
+
+// Labels of the drugs the question names, read through the drug_labels cache; names match loosely, so a name must
+// appear in the question as a word
+export async function findMentionedLabels(question: string): Promise<FdaLabel[]> {
+  const labels = (await findCatalogLabels(candidateDrugNames(question), MAX_LABELS * 3)).map(entry => entry.label);
+  const text = question.toLowerCase();
+  const seen = new Set<string>();
+
+  return labels.filter((label) => {
+    const key = label.set_id || getLabelNames(label).join('|');
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return getLabelNames(label).some(name => namedIn(text, name));
+  }).slice(0, MAX_LABELS);
+}
+
+function drugName(label: FdaLabel) {
+  return label.openfda?.brand_name?.[0] || label.openfda?.generic_name?.[0] || 'Unknown drug';
+}
+
+// Sentence-aligned pieces of up to MAX_CHUNK_LENGTH characters
+function splitSection(text: string): string[] {
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const sentence of text.split(/(?<=[.;])\s+/)) {
+    if (current && current.length + sentence.length + 1 > MAX_CHUNK_LENGTH) {
+      chunks.push(current);
+      current = '';
+    }
+    // A sentence longer than a chunk (usually a flattened table) is cut where it must be
+    for (let start = 0; start < sentence.length; start += MAX_CHUNK_LENGTH) {
+      const piece = sentence.slice(start, start + MAX_CHUNK_LENGTH);
+      current = current ? `${current} ${piece}` : piece;
+      if (current.length >= MAX_CHUNK_LENGTH) {
+        chunks.push(current);
+        current = '';
+      }
+    }
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+export function chunkLabel(label: FdaLabel): LabelChunk[] {
+  const drug = drugName(label);
+  const url = getLabelUrl(label);
+
+  return (Object.keys(LABEL_SECTIONS) as LabelSection[]).flatMap((section) => {
+    const value = label[section];
+    const text = (Array.isArray(value) ? value.join(' ') : typeof value === 'string' ? value : '')
+      .replace(/\s+/g, ' ')
+      .trim();
+    if (!text) return [];
+    return splitSection(text).slice(0, MAX_CHUNKS_PER_SECTION).map(chunk => ({ drug, section, text: chunk, url }));
+  });
+}
+
+// The drug and section are embedded with the text so "Ozempic dosing" finds the right section of the right label
+function embeddingText(chunk: LabelChunk) {
+  return `${chunk.drug} ${LABEL_SECTIONS[chunk.section]}: ${chunk.text}`;
+}
+
+// Label sections most relevant to the question, for every drug it names; empty when it names none.
+// Chunk embeddings are stored with the cached label, so only the question is embedded once a label has been seen
+export async function retrieveLabelExcerpts(question: string): Promise<LabelExcerpt[]> {
+  // Cached labels always have a set id
+  const labels = (await findMentionedLabels(question))
+    .map(label => ({ label, setId: label.set_id ?? '', chunks: chunkLabel(label) }));
+  if (labels.every(({ chunks }) => chunks.length === 0)) return [];
+
+  const model = getEmbeddingModel();
+  const stored = await loadChunkEmbeddings(labels.map(({ setId }) => setId), model.modelId);
+  const pending = labels.filter(({ setId, chunks }) => stored.get(setId)?.length !== chunks.length);
+
+  const { embeddings: [questionEmbedding, ...embedded] } = await embedMany({
+    model,
+    values: [question, ...pending.flatMap(({ chunks }) => chunks.map(embeddingText))]
+  });
+
+  let next = 0;
+  for (const { label, setId, chunks } of pending) {
+    const embeddings = embedded.slice(next, next += chunks.length);
+    stored.set(setId, embeddings);
+    await storeChunkEmbeddings(label, model.modelId, embeddings)
+      .catch(error => console.error('Error storing label embeddings:', error));
+  }
+
+  return labels
+    .flatMap(({ setId, chunks }) => chunks.map((chunk, index) => ({
+      chunk,
+      similarity: cosineSimilarity(questionEmbedding, (stored.get(setId) ?? [])[index])
+    })))
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, MAX_EXCERPTS)
+    .map(({ chunk, similarity }, index) => ({ ...chunk, ref: `L${index + 1}`, similarity }));
+}
+
+// Context block for the chat system prompt
+export function describeLabelExcerpts(excerpts: LabelExcerpt[]): string {
+  return excerpts
+    .map(excerpt => `[${excerpt.ref}] ${excerpt.drug} label, ${LABEL_SECTIONS[excerpt.section]}: ${excerpt.text}`)
+    .join('\n');
+}
+
+// Section-level sources for citation checking; every excerpt links to its label on DailyMed
+export function labelCitations(excerpts: LabelExcerpt[]): Citation[] {
+  return excerpts.flatMap(excerpt => excerpt.url
+    ? [{ ref: excerpt.ref, title: `${excerpt.drug} label: ${LABEL_SECTIONS[excerpt.section]}`, url: excerpt.url }]
+    : []);
+}
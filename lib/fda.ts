@@ -0,0 +1,102 @@
+import { getConfig } from '@/lib/config';
+import { isMockMode, mockFetchDrugLabel, mockFetchDrugLabelsBySetId, mockFindDrugLabels, mockSearchDrugLabels } from '@/lib/mock';
+
+// openFDA drug label client shared by the meddb, interactions and chat routes
+const FDA_LABEL_URL = 'https://api.fda.gov/drug/label.json';
+
+export interface FdaLabel {
+  set_id?: string;
+  active_ingredient?: string[];
+  drug_interactions?: string[];
+  openfda?: {
+    brand_name?: string[];
+    generic_name?: string[];
+    substance_name?: string[];
+    route?: string[];
+    product_ndc?: string[];
+  };
+  [section: string]: any;
+}
+
+// Label sections chat answers are grounded in, with the heading shown to the model and the patient
+export const LABEL_SECTIONS = {
+  boxed_warning: 'Boxed warning',
+  indications_and_usage: 'Indications and usage',
+  dosage_and_administration: 'Dosage and administration',
+  warnings_and_cautions: 'Warnings and precautions',
+  warnings: 'Warnings',
+  adverse_reactions: 'Adverse reactions',
+  drug_interactions: 'Drug interactions'
+} as const;
+
+export type LabelSection = keyof typeof LABEL_SECTIONS;
+
+async function queryLabels(search: string, limit: number): Promise<FdaLabel[]> {
+  const { fdaApiKey } = getConfig();
+  if (!fdaApiKey) {
+    throw new Error('FDA API key is not configured');
+  }
+
+  const url = `${FDA_LABEL_URL}?api_key=${fdaApiKey}&search=${search}&limit=${limit}`;
+  const response = await fetch(url);
+
+  // openFDA answers 404 when nothing matches
+  if (response.status === 404) {
+    return [];
+  }
+  if (!response.ok) {
+    throw new Error(`openFDA request failed with status ${response.status}`);
+  }
+
+  const data = await response.json();
+  return Array.isArray(data.results) ? data.results : [];
+}
+
+// Prefix search on brand and generic names, used for autocomplete
+export async function searchDrugLabels(query: string, limit = 20): Promise<FdaLabel[]> {
+  if (isMockMode()) return mockSearchDrugLabels(query, limit);
+
+  const term = encodeURIComponent(query);
+  return queryLabels(`(openfda.brand_name:${term}*)+OR+(openfda.generic_name:${term}*)`, limit);
+}
+
+// Best matching label for a medication name, or null when openFDA has none
+export async function fetchDrugLabel(name: string): Promise<FdaLabel | null> {
+  if (isMockMode()) return mockFetchDrugLabel(name);
+
+  const term = encodeURIComponent(`"${name.trim()}"`);
+  const results = await queryLabels(`(openfda.brand_name:${term})+OR+(openfda.generic_name:${term})`, 1);
+  return results[0] || null;
+}
+
+// Current versions of the labels with these set ids, in one request; withdrawn labels are simply missing
+export async function fetchDrugLabelsBySetId(setIds: string[]): Promise<FdaLabel[]> {
+  if (setIds.length === 0) return [];
+  if (isMockMode()) return mockFetchDrugLabelsBySetId(setIds);
+
+  const terms = setIds.map(setId => encodeURIComponent(`"${setId}"`)).join('+');
+  return queryLabels(`set_id:(${terms})`, setIds.length);
+}
+
+// Labels whose brand or generic name is any of `names`, in one request; used to spot drugs named in a question
+export async function findDrugLabels(names: string[], limit = 5): Promise<FdaLabel[]> {
+  if (names.length === 0) return [];
+  if (isMockMode()) return mockFindDrugLabels(names, limit);
+
+  const terms = names.map(name => encodeURIComponent(`"${name.trim()}"`)).join('+');
+  return queryLabels(`(openfda.brand_name:(${terms}))+OR+(openfda.generic_name:(${terms}))`, limit);
+}
+
+// All names a label is known by (brand, generic and substance), lowercased
+export function getLabelNames(label: FdaLabel): string[] {
+  const names = [
+    ...(label.openfda?.brand_name || []),
+    ...(label.openfda?.generic_name || []),
+    ...(label.openfda?.substance_name || [])
+  ];
+  return Array.from(new Set(names.map(name => name.toLowerCase())));
+}
+
+export function getLabelUrl(label: FdaLabel): string | null {
+  return label.set_id ? `https://dailymed.nlm.nih.gov/dailymed/lookup.cfm?setid=${label.set_id}` : null;
+}
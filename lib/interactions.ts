@@ -0,0 +1,130 @@
+import { fetchDrugLabel, getLabelNames, getLabelUrl, type FdaLabel } from '@/lib/fda';
+import type { MedicationInput } from '@/lib/medications';
+
+// Same vocabulary as the food–medication alert in the calculator route
+export const INTERACTION_CATEGORIES = [
+  'Direct Interaction',
+  'Efficacy Consideration',
+  'Nutritional Synergy',
+  'No Known Concern'
+] as const;
+
+export const INTERACTION_SEVERITIES = ['Low', 'Moderate', 'High'] as const;
+
+export type InteractionCategory = typeof INTERACTION_CATEGORIES[number];
+export type InteractionSeverity = typeof INTERACTION_SEVERITIES[number];
+
+export interface InteractionEvidence {
+  label: string;
+  excerpt: string;
+  url: string | null;
+}
+
+export interface InteractionFinding {
+  drugs: [string, string];
+  category: InteractionCategory;
+  severity: InteractionSeverity;
+  alert: string;
+  recommendation?: string;
+  evidence: InteractionEvidence[];
+}
+
+export interface LabelContext {
+  medication: MedicationInput;
+  label: FdaLabel | null;
+  names: string[];
+  interactionsText: string;
+}
+
+export interface MedicationPair {
+  drugs: [string, string];
+  evidence: InteractionEvidence[];
+}
+
+const MAX_EXCERPTS_PER_LABEL = 3;
+const MAX_EXCERPT_LENGTH = 400;
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Look up the openFDA label of every medication; a failed lookup leaves that drug without label text
+export async function loadLabelContexts(medications: MedicationInput[]): Promise<LabelContext[]> {
+  return Promise.all(medications.map(async (medication) => {
+    let label: FdaLabel | null = null;
+    try {
+      label = await fetchDrugLabel(medication.name);
+    } catch (error) {
+      console.error(`Error fetching FDA label for ${medication.name}:`, error);
+    }
+
+    const names = Array.from(new Set([
+      medication.name.toLowerCase(),
+      ...(label ? getLabelNames(label) : [])
+    ]));
+
+    return {
+      medication,
+      label,
+      names,
+      interactionsText: label?.drug_interactions?.join('\n') || ''
+    };
+  }));
+}
+
+// Sentences of one label's drug_interactions section that name the other drug
+function findMentions(source: LabelContext, target: LabelContext): InteractionEvidence[] {
+  if (!source.interactionsText) return [];
+
+  const pattern = new RegExp(`\\b(${target.names.map(escapeRegExp).join('|')})\\b`, 'i');
+  const sentences = source.interactionsText.split(/(?<=[.;])\s+/);
+
+  return sentences
+    .filter(sentence => pattern.test(sentence))
+    .slice(0, MAX_EXCERPTS_PER_LABEL)
+    .map(sentence => ({
+      label: source.medication.name,
+      excerpt: sentence.length > MAX_EXCERPT_LENGTH ? `${sentence.slice(0, MAX_EXCERPT_LENGTH)}…` : sentence,
+      url: source.label ? getLabelUrl(source.label) : null
+    }));
+}
+
+// Every unordered pair of medications with the label sentences that mention each other
+export function collectPairEvidence(contexts: LabelContext[]): MedicationPair[] {
+  const pairs: MedicationPair[] = [];
+
+  for (let i = 0; i < contexts.length; i++) {
+    for (let j = i + 1; j < contexts.length; j++) {
+      pairs.push({
+        drugs: [contexts[i].medication.name, contexts[j].medication.name],
+        evidence: [
+          ...findMentions(contexts[i], contexts[j]),
+          ...findMentions(contexts[j], contexts[i])
+        ]
+      });
+    }
+  }
+
+  return pairs;
+}
+
+// Finding built from the label sentences alone, for pairs the model did not return a usable summary for
+export function evidenceFinding({ drugs, evidence }: MedicationPair): InteractionFinding {
+  if (evidence.length === 0) {
+    return {
+      drugs,
+      category: 'No Known Concern',
+      severity: 'Low',
+      alert: 'Neither FDA label mentions the other medication in its drug interactions section.',
+      evidence
+    };
+  }
+  return {
+    drugs,
+    category: 'Direct Interaction',
+    severity: 'Moderate',
+    alert: `The ${evidence[0].label} label mentions ${evidence[0].label === drugs[0] ? drugs[1] : drugs[0]} in its drug interactions section.`,
+    recommendation: 'Ask your pharmacist or prescriber whether this combination needs a dose change or extra monitoring.',
+    evidence
+  };
+}
@@ -0,0 +1,235 @@
+import { z } from 'zod';
+import { executeWithRetry } from '@/lib/db';
+import { FoodAnalysis, nutritionalInfoSchema } from '@/lib/nutrition';
+
+export const MEAL_SOURCES = ['calculator', 'before_after', 'manual'] as const;
+export type MealSource = typeof MEAL_SOURCES[number];
+
+// Thumbnails are small JPEG data URLs produced in the browser
+export const thumbnailSchema = z.string()
+  .regex(/^data:image\/(jpeg|png|webp);base64,/, 'Thumbnail must be an image data URL')
+  .max(150_000);
+
+const amount = z.number().nonnegative();
+
+export const mealSchema = z.object({
+  source: z.enum(MEAL_SOURCES).default('manual'),
+  dishName: z.string().trim().min(1).max(200),
+  eatenAt: z.coerce.date().optional(),
+  thumbnail: thumbnailSchema.optional(),
+  calories: amount,
+  carbohydrates: amount.default(0),
+  proteins: amount.default(0),
+  fats: amount.default(0),
+  fiber: amount.default(0),
+  // Share of the plate that was eaten, from the before/after flow
+  portionConsumed: z.number().min(0).max(1).default(1),
+  nutrition: nutritionalInfoSchema.optional(),
+  notes: z.string().max(1000).optional()
+});
+
+export const mealUpdateSchema = z.object({
+  dishName: z.string().trim().min(1).max(200).optional(),
+  eatenAt: z.coerce.date().optional(),
+  portionConsumed: z.number().min(0).max(1).optional(),
+  notes: z.string().max(1000).optional()
+});
+
+export type MealInput = z.input<typeof mealSchema>;
+export type MealUpdate = z.infer<typeof mealUpdateSchema>;
+
+export interface MacroTotals {
+  calories: number;
+  carbohydrates: number;
+  proteins: number;
+  fats: number;
+  fiber: number;
+}
+
+export interface Meal {
+  id: string;
+  source: MealSource;
+  dishName: string;
+  eatenAt: string;
+  thumbnail: string | null;
+  // Values for the whole plate as analysed
+  served: MacroTotals;
+  portionConsumed: number;
+  // served scaled by portionConsumed
+  consumed: MacroTotals;
+  nutrition: z.infer<typeof nutritionalInfoSchema> | null;
+  notes: string | null;
+  createdAt: string;
+}
+
+export interface MealPeriodTotals extends MacroTotals {
+  // First day of the period, YYYY-MM-DD in the user's time zone
+  date: string;
+  mealCount: number;
+}
+
+const MEAL_COLUMNS = `id, source, dish_name, eaten_at, thumbnail, calories, carbohydrates, proteins, fats, fiber,
+  portion_consumed, nutrition, notes, created_at`;
+
+const MACRO_KEYS: (keyof MacroTotals)[] = ['calories', 'carbohydrates', 'proteins', 'fats', 'fiber'];
+
+function round(value: number) {
+  return Math.round(value * 10) / 10;
+}
+
+function emptyTotals(): MacroTotals {
+  return { calories: 0, carbohydrates: 0, proteins: 0, fats: 0, fiber: 0 };
+}
+
+function toMeal(row: any): Meal {
+  const served = emptyTotals();
+  const consumed = emptyTotals();
+  for (const key of MACRO_KEYS) {
+    served[key] = round(row[key]);
+    consumed[key] = round(row[key] * row.portion_consumed);
+  }
+
+  return {
+    id: row.id,
+    source: row.source,
+    dishName: row.dish_name,
+    eatenAt: new Date(row.eaten_at).toISOString(),
+    thumbnail: row.thumbnail,
+    served,
+    portionConsumed: row.portion_consumed,
+    consumed,
+    nutrition: row.nutrition,
+    notes: row.notes,
+    createdAt: new Date(row.created_at).toISOString()
+  };
+}
+
+// Meal fields taken from a structured calculator analysis
+export function mealFromAnalysis(analysis: FoodAnalysis, source: MealSource): MealInput {
+  const { macronutrients } = analysis.nutrition;
+  return {
+    source,
+    dishName: analysis.nutrition.name,
+    calories: analysis.nutrition.calories.value,
+    carbohydrates: macronutrients.carbohydrates.value,
+    proteins: macronutrients.proteins.value,
+    fats: macronutrients.fats.value,
+    fiber: macronutrients.fiber.value,
+    nutrition: analysis.nutrition
+  };
+}
+
+export async function listMeals(userId: string, options: { from: Date; to: Date }): Promise<Meal[]> {
+  const result = await executeWithRetry((client) =>
+    client.query(
+      `SELECT ${MEAL_COLUMNS} FROM meals
+       WHERE user_id = $1 AND eaten_at BETWEEN $2 AND $3
+       ORDER BY eaten_at DESC`,
+      [userId, options.from, options.to]
+    )
+  );
+
+  return result.rows.map(toMeal);
+}
+
+export async function createMeal(userId: string, input: MealInput): Promise<Meal> {
+  const meal = mealSchema.parse(input);
+  const result = await executeWithRetry((client) =>
+    client.query(
+      `INSERT INTO meals (user_id, source, dish_name, eaten_at, thumbnail, calories, carbohydrates, proteins, fats, fiber,
+         portion_consumed, nutrition, notes)
+       VALUES ($1, $2, $3, COALESCE($4, CURRENT_TIMESTAMP), $5, $6, $7, $8, $9, $10, $11, $12, $13)
+       RETURNING ${MEAL_COLUMNS}`,
+      [
+        userId,
+        meal.source,
+        meal.dishName,
+        meal.eatenAt || null,
+        meal.thumbnail || null,
+        meal.calories,
+        meal.carbohydrates,
+        meal.proteins,
+        meal.fats,
+        meal.fiber,
+        meal.portionConsumed,
+        meal.nutrition ? JSON.stringify(meal.nutrition) : null,
+        meal.notes || null
+      ]
+    )
+  );
+
+  return toMeal(result.rows[0]);
+}
+
+export async function updateMeal(userId: string, id: string, changes: MealUpdate): Promise<Meal | null> {
+  const result = await executeWithRetry((client) =>
+    client.query(
+      `UPDATE meals SET
+         dish_name = COALESCE($3, dish_name),
+         eaten_at = COALESCE($4, eaten_at),
+         portion_consumed = COALESCE($5, portion_consumed),
+         notes = CASE WHEN $6::boolean THEN $7 ELSE notes END
+       WHERE id = $1 AND user_id = $2
+       RETURNING ${MEAL_COLUMNS}`,
+      [
+        id,
+        userId,
+        changes.dishName ?? null,
+        changes.eatenAt ?? null,
+        changes.portionConsumed ?? null,
+        changes.notes !== undefined,
+        changes.notes || null
+      ]
+    )
+  );
+
+  return result.rows[0] ? toMeal(result.rows[0]) : null;
+}
+
+export async function deleteMeal(userId: string, id: string): Promise<boolean> {
+  const result = await executeWithRetry((client) =>
+    client.query('DELETE FROM meals WHERE id = $1 AND user_id = $2', [id, userId])
+  );
+
+  return result.rowCount > 0;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// offsetMinutes follows Date.getTimezoneOffset(), as in lib/schedule
+function localDate(date: Date, offsetMinutes: number) {
+  return new Date(date.getTime() - offsetMinutes * 60 * 1000).toISOString().slice(0, 10);
+}
+
+// Weeks start on Monday
+function weekStart(day: string) {
+  const date = new Date(`${day}T00:00:00Z`);
+  const sinceMonday = (date.getUTCDay() + 6) % 7;
+  return new Date(date.getTime() - sinceMonday * DAY_MS).toISOString().slice(0, 10);
+}
+
+function addToPeriod(periods: Map<string, MealPeriodTotals>, key: string, meal: Meal) {
+  const totals = periods.get(key) || { date: key, mealCount: 0, ...emptyTotals() };
+  totals.mealCount++;
+  for (const macro of MACRO_KEYS) {
+    totals[macro] = round(totals[macro] + meal.consumed[macro]);
+  }
+  periods.set(key, totals);
+}
+
+// Consumed totals per local day and per week, oldest first
+export function summarizeMeals(meals: Meal[], offsetMinutes = 0) {
+  const daily = new Map<string, MealPeriodTotals>();
+  const weekly = new Map<string, MealPeriodTotals>();
+
+  for (const meal of meals) {
+    const day = localDate(new Date(meal.eatenAt), offsetMinutes);
+    addToPeriod(daily, day, meal);
+    addToPeriod(weekly, weekStart(day), meal);
+  }
+
+  const sorted = (periods: Map<string, MealPeriodTotals>) =>
+    Array.from(periods.values()).sort((a, b) => a.date.localeCompare(b.date));
+
+  return { daily: sorted(daily), weekly: sorted(weekly) };
+}
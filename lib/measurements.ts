@@ -0,0 +1,163 @@
+import { z } from 'zod';
+import { executeWithRetry } from '@/lib/db';
+
+export interface MetricKindDefinition {
+  label: string;
+  // Values are stored in the first unit; the rest are accepted on input and converted
+  units: string[];
+  // Blood pressure carries a diastolic reading alongside the systolic value
+  hasSecondaryValue?: boolean;
+  min: number;
+  max: number;
+}
+
+export const METRIC_KINDS = {
+  weight: { label: 'Weight', units: ['kg', 'lb'], min: 20, max: 400 },
+  waist: { label: 'Waist', units: ['cm', 'in'], min: 30, max: 250 },
+  glucose: { label: 'Blood glucose', units: ['mg/dL', 'mmol/L'], min: 10, max: 1000 },
+  hba1c: { label: 'HbA1c', units: ['%'], min: 3, max: 20 },
+  blood_pressure: { label: 'Blood pressure', units: ['mmHg'], hasSecondaryValue: true, min: 40, max: 300 },
+  heart_rate: { label: 'Heart rate', units: ['bpm'], min: 20, max: 250 }
+} satisfies Record<string, MetricKindDefinition>;
+
+export type MetricKind = keyof typeof METRIC_KINDS;
+
+export const METRIC_KIND_IDS = Object.keys(METRIC_KINDS) as [MetricKind, ...MetricKind[]];
+
+// Multipliers from an accepted input unit to the stored unit
+const UNIT_CONVERSIONS: Record<string, number> = {
+  lb: 0.45359237,
+  in: 2.54,
+  'mmol/L': 18.0182
+};
+
+export const measurementSchema = z.object({
+  kind: z.enum(METRIC_KIND_IDS),
+  value: z.number().positive(),
+  secondaryValue: z.number().positive().optional(),
+  unit: z.string().optional(),
+  measuredAt: z.coerce.date().optional(),
+  notes: z.string().max(500).optional()
+}).superRefine((input, ctx) => {
+  const definition: MetricKindDefinition = METRIC_KINDS[input.kind];
+
+  if (input.unit && !definition.units.includes(input.unit)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['unit'],
+      message: `Unit must be one of ${definition.units.join(', ')}`
+    });
+    return;
+  }
+
+  const value = toStoredUnit(input.value, input.unit);
+  if (value < definition.min || value > definition.max) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['value'],
+      message: `Value must be between ${definition.min} and ${definition.max} ${definition.units[0]}`
+    });
+  }
+
+  if (!definition.hasSecondaryValue) return;
+  if (input.secondaryValue === undefined) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['secondaryValue'], message: 'Diastolic value is required' });
+    return;
+  }
+
+  const secondaryValue = toStoredUnit(input.secondaryValue, input.unit);
+  if (secondaryValue < definition.min || secondaryValue > definition.max) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['secondaryValue'],
+      message: `Diastolic value must be between ${definition.min} and ${definition.max} ${definition.units[0]}`
+    });
+  } else if (secondaryValue >= value) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['secondaryValue'],
+      message: 'Diastolic value must be lower than the systolic value'
+    });
+  }
+});
+
+export type MeasurementInput = z.infer<typeof measurementSchema>;
+
+export interface Measurement {
+  id: string;
+  kind: MetricKind;
+  value: number;
+  secondaryValue: number | null;
+  unit: string;
+  measuredAt: string;
+  notes: string | null;
+  createdAt: string;
+}
+
+function toStoredUnit(value: number, unit?: string) {
+  return unit && UNIT_CONVERSIONS[unit] ? value * UNIT_CONVERSIONS[unit] : value;
+}
+
+const MEASUREMENT_COLUMNS = 'id, kind, value, secondary_value, measured_at, notes, created_at';
+
+function toMeasurement(row: any): Measurement {
+  const kind = row.kind as MetricKind;
+  return {
+    id: row.id,
+    kind,
+    value: Math.round(row.value * 100) / 100,
+    secondaryValue: row.secondary_value !== null ? Math.round(row.secondary_value * 100) / 100 : null,
+    unit: METRIC_KINDS[kind].units[0],
+    measuredAt: new Date(row.measured_at).toISOString(),
+    notes: row.notes,
+    createdAt: new Date(row.created_at).toISOString()
+  };
+}
+
+export async function listMeasurements(
+  userId: string,
+  options: { kind?: MetricKind; from?: Date; to?: Date } = {}
+): Promise<Measurement[]> {
+  const result = await executeWithRetry((client) =>
+    client.query(
+      `SELECT ${MEASUREMENT_COLUMNS} FROM measurements
+       WHERE user_id = $1
+         AND ($2::text IS NULL OR kind = $2)
+         AND ($3::timestamptz IS NULL OR measured_at >= $3)
+         AND ($4::timestamptz IS NULL OR measured_at <= $4)
+       ORDER BY measured_at`,
+      [userId, options.kind || null, options.from || null, options.to || null]
+    )
+  );
+
+  return result.rows.map(toMeasurement);
+}
+
+export async function createMeasurement(userId: string, input: MeasurementInput): Promise<Measurement> {
+  const definition: MetricKindDefinition = METRIC_KINDS[input.kind];
+  const result = await executeWithRetry((client) =>
+    client.query(
+      `INSERT INTO measurements (user_id, kind, value, secondary_value, measured_at, notes)
+       VALUES ($1, $2, $3, $4, COALESCE($5, CURRENT_TIMESTAMP), $6)
+       RETURNING ${MEASUREMENT_COLUMNS}`,
+      [
+        userId,
+        input.kind,
+        toStoredUnit(input.value, input.unit),
+        definition.hasSecondaryValue ? input.secondaryValue : null,
+        input.measuredAt || null,
+        input.notes || null
+      ]
+    )
+  );
+
+  return toMeasurement(result.rows[0]);
+}
+
+export async function deleteMeasurement(userId: string, id: string): Promise<boolean> {
+  const result = await executeWithRetry((client) =>
+    client.query('DELETE FROM measurements WHERE id = $1 AND user_id = $2', [id, userId])
+  );
+
+  return result.rowCount > 0;
+}
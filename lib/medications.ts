@@ -0,0 +1,127 @@
+import { z } from 'zod';
+import { executeWithRetry } from '@/lib/db';
+
+// Shape shared by the meds page, the calculator and the medications API
+export const medicationSchema = z.object({
+  name: z.string().trim().min(1),
+  dosage: z.string().trim().min(1),
+  frequency: z.string().trim().min(1),
+  timeOfDay: z.array(z.string()).min(1),
+  notes: z.string().optional()
+});
+
+export type MedicationInput = z.infer<typeof medicationSchema>;
+
+export interface Medication extends MedicationInput {
+  id: string;
+  position: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const MEDICATION_COLUMNS = 'id, name, dosage, frequency, time_of_day, notes, position, created_at, updated_at';
+
+function toMedication(row: any): Medication {
+  return {
+    id: row.id,
+    name: row.name,
+    dosage: row.dosage,
+    frequency: row.frequency,
+    timeOfDay: row.time_of_day || [],
+    notes: row.notes || undefined,
+    position: row.position,
+    createdAt: new Date(row.created_at).toISOString(),
+    updatedAt: new Date(row.updated_at).toISOString()
+  };
+}
+
+export async function listMedications(userId: string): Promise<Medication[]> {
+  const result = await executeWithRetry((client) =>
+    client.query(
+      `SELECT ${MEDICATION_COLUMNS} FROM medications
+       WHERE user_id = $1
+       ORDER BY position, created_at`,
+      [userId]
+    )
+  );
+
+  return result.rows.map(toMedication);
+}
+
+export async function createMedication(userId: string, input: MedicationInput): Promise<Medication> {
+  // New medications go to the end of the list
+  const result = await executeWithRetry((client) =>
+    client.query(
+      `INSERT INTO medications (user_id, name, dosage, frequency, time_of_day, notes, position)
+       VALUES ($1, $2, $3, $4, $5, $6,
+         (SELECT COALESCE(MAX(position) + 1, 0) FROM medications WHERE user_id = $1))
+       RETURNING ${MEDICATION_COLUMNS}`,
+      [userId, input.name, input.dosage, input.frequency, input.timeOfDay, input.notes || null]
+    )
+  );
+
+  return toMedication(result.rows[0]);
+}
+
+export async function updateMedication(
+  userId: string,
+  id: string,
+  changes: Partial<MedicationInput>
+): Promise<Medication | null> {
+  const result = await executeWithRetry((client) =>
+    client.query(
+      `UPDATE medications SET
+         name = COALESCE($3, name),
+         dosage = COALESCE($4, dosage),
+         frequency = COALESCE($5, frequency),
+         time_of_day = COALESCE($6, time_of_day),
+         notes = CASE WHEN $7::boolean THEN $8 ELSE notes END,
+         updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND user_id = $2
+       RETURNING ${MEDICATION_COLUMNS}`,
+      [
+        id,
+        userId,
+        changes.name ?? null,
+        changes.dosage ?? null,
+        changes.frequency ?? null,
+        changes.timeOfDay ?? null,
+        changes.notes !== undefined,
+        changes.notes || null
+      ]
+    )
+  );
+
+  return result.rows[0] ? toMedication(result.rows[0]) : null;
+}
+
+export async function deleteMedication(userId: string, id: string): Promise<boolean> {
+  const result = await executeWithRetry((client) =>
+    client.query('DELETE FROM medications WHERE id = $1 AND user_id = $2', [id, userId])
+  );
+
+  return result.rowCount > 0;
+}
+
+// Positions follow the order of the given ids; ids that are not the user's are ignored
+export async function reorderMedications(userId: string, ids: string[]): Promise<Medication[]> {
+  await executeWithRetry(async (client) => {
+    await client.query('BEGIN');
+
+    try {
+      await client.query(
+        `UPDATE medications AS m SET position = o.ordinality - 1, updated_at = CURRENT_TIMESTAMP
+         FROM unnest($2::uuid[]) WITH ORDINALITY AS o(id, ordinality)
+         WHERE m.id = o.id AND m.user_id = $1`,
+        [userId, ids]
+      );
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    }
+  });
+
+  return listMedications(userId);
+}
@@ -0,0 +1,140 @@
+import { embed, generateText } from 'ai';
+import { getEmbeddingModel, getLanguageModel } from '@/lib/ai';
+import { executeWithRetry } from '@/lib/db';
+
+export interface Memory {
+  id: string;
+  question: string;
+  summary: string;
+  createdAt: string;
+  similarity?: number;
+}
+
+export interface MemorySearchOptions {
+  threshold?: number;
+  limit?: number;
+}
+
+// chat_memory lives in the memory store, which has pgvector installed
+function queryMemory(text: string, params: unknown[]) {
+  return executeWithRetry((client) => client.query(text, params), 'memory');
+}
+
+function toMemory(row: any): Memory {
+  return {
+    id: row.id,
+    question: row.question,
+    summary: row.question_summary,
+    createdAt: new Date(row.timestamp).toISOString(),
+    ...(row.similarity !== undefined ? { similarity: Number(row.similarity) } : {})
+  };
+}
+
+async function getEmbedding(text: string) {
+  const { embedding } = await embed({
+    model: getEmbeddingModel(),
+    value: text
+  });
+  return embedding;
+}
+
+async function generateSummary(text: string) {
+  const { text: summary } = await generateText({
+    model: getLanguageModel('summarize'),
+    system: "You are a helpful assistant that creates concise summaries.",
+    prompt: `Summarize this question: "${text}"`
+  });
+  return summary || text;
+}
+
+export async function storeMemory(userId: string, question: string): Promise<Memory> {
+  const [summary, embedding] = await Promise.all([
+    generateSummary(question),
+    getEmbedding(question)
+  ]);
+
+  // pgvector parses the '[1,2,3]' text form, which is what JSON.stringify produces
+  const result = await queryMemory(
+    `INSERT INTO chat_memory (user_id, question, question_summary, question_embedding)
+     VALUES ($1, $2, $3, $4)
+     RETURNING id, question, question_summary, timestamp`,
+    [userId, question, summary, JSON.stringify(embedding)]
+  );
+
+  return toMemory(result.rows[0]);
+}
+
+// Most similar past questions from the same user, best match first
+export async function searchMemories(
+  userId: string,
+  query: string,
+  { threshold = 0.8, limit = 5 }: MemorySearchOptions = {}
+): Promise<Memory[]> {
+  const embedding = await getEmbedding(query);
+  const result = await queryMemory(
+    `SELECT id, question, question_summary, timestamp,
+       1 - (question_embedding <=> $2) AS similarity
+     FROM chat_memory
+     WHERE user_id = $1 AND 1 - (question_embedding <=> $2) > $3
+     ORDER BY question_embedding <=> $2
+     LIMIT $4`,
+    [userId, JSON.stringify(embedding), threshold, limit]
+  );
+
+  return result.rows.map(toMemory);
+}
+
+export async function listMemories(
+  userId: string,
+  { limit = 20, offset = 0 }: { limit?: number; offset?: number } = {}
+): Promise<{ memories: Memory[]; total: number }> {
+  const [rows, count] = await Promise.all([
+    queryMemory(
+      `SELECT id, question, question_summary, timestamp
+       FROM chat_memory
+       WHERE user_id = $1
+       ORDER BY timestamp DESC, id
+       LIMIT $2 OFFSET $3`,
+      [userId, limit, offset]
+    ),
+    queryMemory('SELECT COUNT(*)::int AS total FROM chat_memory WHERE user_id = $1', [userId])
+  ]);
+
+  return { memories: rows.rows.map(toMemory), total: count.rows[0].total };
+}
+
+// Everything stored for a user, oldest first, for download
+export async function exportMemories(userId: string): Promise<Memory[]> {
+  const result = await queryMemory(
+    `SELECT id, question, question_summary, timestamp
+     FROM chat_memory
+     WHERE user_id = $1
+     ORDER BY timestamp, id`,
+    [userId]
+  );
+
+  return result.rows.map(toMemory);
+}
+
+// Returns the ids that were actually deleted; ids owned by other users are ignored
+export async function deleteMemories(userId: string, ids: string[]): Promise<string[]> {
+  const result = await queryMemory(
+    'DELETE FROM chat_memory WHERE user_id = $1 AND id = ANY($2::uuid[]) RETURNING id',
+    [userId, ids]
+  );
+
+  return result.rows.map((row: { id: string }) => row.id);
+}
+
+export async function forgetAllMemories(userId: string): Promise<number> {
+  const result = await queryMemory('DELETE FROM chat_memory WHERE user_id = $1', [userId]);
+  return result.rowCount ?? 0;
+}
+
+// Prompt section listing past questions, oldest first
+export function describeMemories(memories: Memory[]): string {
+  return [...memories]
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .map(memory => `- ${memory.createdAt.slice(0, 10)}: ${memory.summary}`)
+    .join('\n');
+}
@@ -0,0 +1,211 @@
+import type { EmbeddingModel, LanguageModel } from 'ai';
+import type { LanguageModelOptions } from '@/lib/ai';
+import aiFixtures from '@/lib/fixtures/ai.json';
+import fdaLabelFixtures from '@/lib/fixtures/fda-labels.json';
+import { getConfig } from '@/lib/config';
+import type { FdaLabel } from '@/lib/fda';
+
+// MOCK_PROVIDERS=true replaces every model, audio and openFDA call with the fixtures in lib/fixtures
+export function isMockMode() {
+  return getConfig().mockProviders;
+}
+
+type CallOptions = Parameters<LanguageModel['doGenerate']>[0];
+type PromptMessage = CallOptions['prompt'][number];
+
+function messageText(message: PromptMessage | undefined): string {
+  if (!message) return '';
+  if (typeof message.content === 'string') return message.content;
+  return message.content
+    .map(part => (part.type === 'text' ? part.text : ''))
+    .join('\n');
+}
+
+function imageCount(prompt: CallOptions['prompt']) {
+  return prompt.reduce((count, message) => (
+    message.role === 'user'
+      ? count + message.content.filter(part => part.type === 'image').length
+      : count
+  ), 0);
+}
+
+function lastUserText(prompt: CallOptions['prompt']) {
+  return messageText([...prompt].reverse().find(message => message.role === 'user'));
+}
+
+// Same labels the real classifier uses, decided by keywords so results are stable
+function classify(text: string) {
+  const message = (text.match(/Message:\s*([\s\S]*?)\n\s*Response/)?.[1] || text).trim().toLowerCase();
+  if (/emergency|ambulance|collaps|faint|can't stay awake/.test(message)) return 'URGENT';
+  if (/^(hi|hello|hey|thanks|thank you|bye|goodbye)\b/.test(message)) return 'GREETING';
+  if (/glp|ozempic|wegovy|mounjaro|zepbound|semaglutide|tirzepatide|liraglutide|trulicity/.test(message)) return 'GLP1';
+  if (/medic|drug|dose|pill|tablet|side effect|prescri|pharma|insulin|metformin/.test(message)) return 'GENERAL_MEDICATION';
+  return 'UNRELATED';
+}
+
+function titleFrom(text: string) {
+  return text
+    .replace(/[^\w\s-]/g, '')
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 5)
+    .map(word => word[0].toUpperCase() + word.slice(1))
+    .join(' ') || 'Medical Query';
+}
+
+// Picks the recorded response for a call from its task and the shape of the prompt
+function mockResponse(task: string, options: CallOptions): string {
+  const system = options.prompt.filter(m => m.role === 'system').map(messageText).join('\n');
+  const userText = lastUserText(options.prompt);
+  const json = options.mode.type === 'object-json';
+  const images = imageCount(options.prompt);
+
+  switch (task) {
+    case 'classify':
+      if (json) {
+        const query = (userText.match(/Query:\s*([\s\S]*)$/)?.[1] || userText).trim();
+        return JSON.stringify({ rewritten_query: query, title: titleFrom(query) });
+      }
+      return system.includes('message classifier') ? classify(userText) : aiFixtures.answers.greeting;
+    case 'answer':
+      // Label excerpts in the prompt get cited the way the chat prompt asks for
+      return system.includes('[L1] ')
+        ? `${aiFixtures.answers.labelGrounded}\n\n${aiFixtures.answers.default}`
+        : aiFixtures.answers.default;
+    case 'summarize':
+      if (json) return JSON.stringify(aiFixtures.interactions);
+      if (system.includes('concise summaries')) {
+        return `Asked ${userText.replace(/^Summarize this question:\s*/, '').replace(/^"|"$/g, '')}`;
+      }
+      return aiFixtures.summarize;
+    case 'vision':
+      if (json) {
+        const { foodAnalysis, mealIntake } = aiFixtures.vision;
+        return JSON.stringify(images > 1 ? { ...mealIntake, meal: foodAnalysis } : foodAnalysis);
+      }
+      if (images > 1) return aiFixtures.vision.mealSummary;
+      return images === 0 ? aiFixtures.vision.medicationAlert : aiFixtures.vision.analysis;
+    default:
+      throw new Error(`No mock responses for the ${task} task`);
+  }
+}
+
+function usageFor(text: string) {
+  return { promptTokens: 0, completionTokens: Math.ceil(text.length / 4) };
+}
+
+// Answers report the recorded search results the way Perplexity would
+function reportSearchResults(task: string, { onSearchResults }: LanguageModelOptions) {
+  if (task === 'answer') onSearchResults?.(aiFixtures.searchResults);
+}
+
+export function mockLanguageModel(task: string, modelOptions: LanguageModelOptions = {}): LanguageModel {
+  return {
+    specificationVersion: 'v1',
+    provider: 'mock',
+    modelId: `mock-${task}`,
+    defaultObjectGenerationMode: 'json',
+    async doGenerate(options) {
+      const text = mockResponse(task, options);
+      reportSearchResults(task, modelOptions);
+      return {
+        text,
+        finishReason: 'stop',
+        usage: usageFor(text),
+        rawCall: { rawPrompt: options.prompt, rawSettings: {} }
+      };
+    },
+    async doStream(options) {
+      const text = mockResponse(task, options);
+      // Word-sized chunks so clients exercise their incremental rendering
+      const chunks = text.match(/\S+\s*|\s+/g) || [];
+      reportSearchResults(task, modelOptions);
+      return {
+        stream: new ReadableStream({
+          start(controller) {
+            for (const chunk of chunks) {
+              controller.enqueue({ type: 'text-delta', textDelta: chunk });
+            }
+            controller.enqueue({ type: 'finish', finishReason: 'stop', usage: usageFor(text) });
+            controller.close();
+          }
+        }),
+        rawCall: { rawPrompt: options.prompt, rawSettings: {} }
+      };
+    }
+  };
+}
+
+const EMBEDDING_DIMENSIONS = 1536;
+
+function hashWord(word: string) {
+  // FNV-1a
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < word.length; i++) {
+    hash ^= word.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Bag-of-words vector: texts sharing words get similar embeddings, so memory search still behaves sensibly
+export function mockEmbedding(text: string): number[] {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+  for (const word of text.toLowerCase().match(/[a-z0-9]+/g) || []) {
+    const hash = hashWord(word);
+    vector[hash % EMBEDDING_DIMENSIONS] += hash & 1 ? 1 : -1;
+  }
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+  return vector.map(value => value / norm);
+}
+
+export function mockEmbeddingModel(): EmbeddingModel<string> {
+  return {
+    specificationVersion: 'v1',
+    provider: 'mock',
+    modelId: 'mock-embed',
+    maxEmbeddingsPerCall: 100,
+    supportsParallelCalls: true,
+    async doEmbed({ values }) {
+      return { embeddings: values.map(mockEmbedding) };
+    }
+  };
+}
+
+export function mockTranscription(): string {
+  return aiFixtures.transcription;
+}
+
+// One second of silent MPEG-1 Layer III frames (128 kbps, 44.1 kHz)
+export function mockSpeech(): Buffer {
+  const frame = Buffer.alloc(417);
+  frame.set([0xff, 0xfb, 0x90, 0x64]);
+  return Buffer.concat(Array.from({ length: 38 }, () => frame));
+}
+
+const FDA_LABELS = fdaLabelFixtures as FdaLabel[];
+
+function labelNames(label: FdaLabel) {
+  return [...(label.openfda?.brand_name || []), ...(label.openfda?.generic_name || [])].map(name => name.toLowerCase());
+}
+
+export function mockSearchDrugLabels(query: string, limit: number): FdaLabel[] {
+  const term = query.trim().toLowerCase();
+  return FDA_LABELS.filter(label => labelNames(label).some(name => name.startsWith(term))).slice(0, limit);
+}
+
+export function mockFetchDrugLabel(name: string): FdaLabel | null {
+  const term = name.trim().toLowerCase();
+  return FDA_LABELS.find(label => labelNames(label).includes(term)) || null;
+}
+
+export function mockFetchDrugLabelsBySetId(setIds: string[]): FdaLabel[] {
+  return FDA_LABELS.filter(label => label.set_id && setIds.includes(label.set_id));
+}
+
+export function mockFindDrugLabels(names: string[], limit: number): FdaLabel[] {
+  const terms = names.map(name => name.trim().toLowerCase());
+  // Phrase match like openFDA's: "metformin" finds "metformin hydrochloride"
+  return FDA_LABELS.filter(label => labelNames(label).some(name => terms.some(term => name === term || name.startsWith(`${term} `))))
+    .slice(0, limit);
+}
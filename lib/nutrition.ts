@@ -0,0 +1,134 @@
+import { z } from 'zod';
+
+export const HEALTH_CATEGORIES = ['Clearly Healthy', 'Borderline', 'Mixed', 'Clearly Unhealthy'] as const;
+
+// Models sometimes answer with ranges ("300-350") or units ("12 g"); keep the midpoint of a range, otherwise the first number.
+// Anything else ("unknown", negative amounts, NaN) fails validation rather than being logged as zero
+const amountSchema = z.preprocess((value) => {
+  if (typeof value !== 'string' || /^\s*-/.test(value)) return value;
+  // Thousands separators would otherwise split "1,200" into two numbers
+  const text = value.replace(/(\d),(?=\d{3}\b)/g, '$1');
+  // Only an explicit range is averaged; otherwise later numbers are conversions like "2 cups (480 ml)"
+  const range = text.match(/(\d+(?:\.\d+)?)\s*(?:-|–|\bto\b)\s*(\d+(?:\.\d+)?)/);
+  if (range) return (Number(range[1]) + Number(range[2])) / 2;
+  const first = text.match(/\d+(?:\.\d+)?/);
+  return first ? Number(first[0]) : value;
+}, z.number().nonnegative());
+
+const nutrientSchema = (unit: string) => z.object({
+  value: amountSchema,
+  unit: z.string().default(unit)
+}).default({ value: 0, unit });
+
+// Default units for each nutrient, shared by the schema and the model prompt
+export const MACRONUTRIENT_UNITS = {
+  carbohydrates: 'g',
+  proteins: 'g',
+  fats: 'g',
+  fiber: 'g',
+  water: 'ml'
+} as const;
+
+export const VITAMIN_UNITS = {
+  vitaminA: 'mcg',
+  vitaminB1: 'mg',
+  vitaminB2: 'mg',
+  vitaminB3: 'mg',
+  vitaminB5: 'mg',
+  vitaminB6: 'mg',
+  vitaminB12: 'mcg',
+  vitaminC: 'mg',
+  vitaminD: 'IU',
+  vitaminE: 'mg',
+  vitaminK: 'mcg'
+} as const;
+
+export const MINERAL_UNITS = {
+  calcium: 'mg',
+  iron: 'mg',
+  zinc: 'mg',
+  magnesium: 'mg',
+  potassium: 'mg',
+  sodium: 'mg',
+  phosphorus: 'mg',
+  iodine: 'mcg',
+  selenium: 'mcg'
+} as const;
+
+function nutrientGroup<T extends Record<string, string>>(units: T) {
+  const shape = Object.fromEntries(
+    Object.entries(units).map(([key, unit]) => [key, nutrientSchema(unit)])
+  ) as { [K in keyof T]: ReturnType<typeof nutrientSchema> };
+  return z.object(shape);
+}
+
+export const nutritionalInfoSchema = z.object({
+  name: z.string().min(1),
+  calories: nutrientSchema('kcal'),
+  macronutrients: nutrientGroup(MACRONUTRIENT_UNITS),
+  micronutrients: z.object({
+    vitamins: nutrientGroup(VITAMIN_UNITS),
+    minerals: nutrientGroup(MINERAL_UNITS)
+  })
+});
+
+export const foodAnalysisSchema = z.object({
+  category: z.enum(HEALTH_CATEGORIES),
+  confidence: z.preprocess(
+    (value) => (typeof value === 'string' ? parseFloat(value) : value),
+    z.number().min(0).max(100)
+  ),
+  itemsIdentified: z.array(z.string()).default([]),
+  servingSize: nutrientSchema('g'),
+  nutrition: nutritionalInfoSchema
+});
+
+export type NutritionalInfo = z.infer<typeof nutritionalInfoSchema>;
+export type FoodAnalysis = z.infer<typeof foodAnalysisSchema>;
+
+function describeGroup(units: Record<string, string>) {
+  return `{ ${Object.entries(units).map(([key, unit]) => `"${key}": { "value": number, "unit": "${unit}" }`).join(', ')} }`;
+}
+
+// JSON shape the model is asked to fill in; mirrors foodAnalysisSchema
+export const FOOD_ANALYSIS_JSON_PROMPT = `Analyze this food image and respond with a single JSON object with exactly this shape:
+{
+  "category": one of ${HEALTH_CATEGORIES.map(c => `"${c}"`).join(', ')},
+  "confidence": number from 0 to 100,
+  "itemsIdentified": string[],
+  "servingSize": { "value": number, "unit": "g" or "ml" },
+  "nutrition": {
+    "name": string (name of the dish),
+    "calories": { "value": number, "unit": "kcal" },
+    "macronutrients": ${describeGroup(MACRONUTRIENT_UNITS)},
+    "micronutrients": {
+      "vitamins": ${describeGroup(VITAMIN_UNITS)},
+      "minerals": ${describeGroup(MINERAL_UNITS)}
+    }
+  }
+}
+
+Estimate every value for the visible portion (or a standard serving if the portion is unclear) using standard nutritional databases.
+Every value must be a single number: use the midpoint instead of a range and never return null, NaN or an empty value.`;
+
+export const mealIntakeSchema = z.object({
+  sameMeal: z.boolean(),
+  portionConsumed: z.preprocess(
+    (value) => (typeof value === 'string' ? parseFloat(value) : value),
+    z.number().min(0).max(1)
+  ),
+  meal: foodAnalysisSchema
+});
+
+export type MealIntake = z.infer<typeof mealIntakeSchema>;
+
+// Before/after variant: the breakdown describes the full plate in the first photo
+export const MEAL_INTAKE_JSON_PROMPT = `You are given two photos of the same meal: the first before eating and the second after eating.
+Respond with a single JSON object with exactly this shape:
+{
+  "sameMeal": boolean (false if the photos show different meals),
+  "portionConsumed": number from 0 to 1 (share of the original plate that was eaten),
+  "meal": the analysis of the FIRST photo, as described below
+}
+
+${FOOD_ANALYSIS_JSON_PROMPT.replace('Analyze this food image and respond with a single JSON object with exactly this shape:', 'The "meal" object has exactly this shape:')}`;
@@ -0,0 +1,87 @@
+import { hostnameOf } from '@/lib/citations';
+
+// Perplexity returns the pages its search retrieved next to the completion; the AI SDK drops them, so they are read off the raw response
+
+export interface SearchResult {
+  title: string;
+  url: string;
+  snippet?: string;
+}
+
+interface PerplexityPayload {
+  citations?: unknown;
+  search_results?: unknown;
+}
+
+// Newer responses carry search_results with titles and snippets; older ones only a citations list of URLs.
+// Either way the order matches the [n] markers in the answer
+export function parseSearchResults(payload: PerplexityPayload): SearchResult[] {
+  if (Array.isArray(payload.search_results) && payload.search_results.length > 0) {
+    return payload.search_results.flatMap((result) => {
+      if (!result || typeof result.url !== 'string') return [];
+      return [{
+        title: typeof result.title === 'string' && result.title.trim() ? result.title.trim() : hostnameOf(result.url),
+        url: result.url,
+        ...(typeof result.snippet === 'string' && result.snippet.trim() ? { snippet: result.snippet.trim() } : {})
+      }];
+    });
+  }
+  if (Array.isArray(payload.citations)) {
+    return payload.citations
+      .filter((url): url is string => typeof url === 'string')
+      .map(url => ({ title: hostnameOf(url), url }));
+  }
+  return [];
+}
+
+// Server-sent events; streamed chunks repeat the full list, so the last non-empty one wins
+function searchResultsTransform(onSearchResults: (results: SearchResult[]) => void) {
+  const decoder = new TextDecoder();
+  let buffered = '';
+
+  const readLines = (text: string) => {
+    buffered += text;
+    const lines = buffered.split('\n');
+    buffered = lines.pop() ?? '';
+    for (const line of lines) {
+      const data = line.trim().replace(/^data:\s*/, '');
+      if (!data.startsWith('{')) continue;
+      try {
+        const results = parseSearchResults(JSON.parse(data));
+        if (results.length > 0) onSearchResults(results);
+      } catch {
+        // Not a JSON event; the SDK reports malformed chunks itself
+      }
+    }
+  };
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      readLines(decoder.decode(chunk, { stream: true }));
+      controller.enqueue(chunk);
+    },
+    flush() {
+      readLines(`${decoder.decode()}\n`);
+    }
+  });
+}
+
+// fetch for the Perplexity provider that hands the retrieved sources to `onSearchResults` while the SDK reads the response
+export function captureSearchResults(onSearchResults: (results: SearchResult[]) => void): typeof fetch {
+  return async (input, init) => {
+    const response = await fetch(input, init);
+    if (!response.ok || !response.body) return response;
+
+    if (response.headers.get('content-type')?.includes('application/json')) {
+      const results = parseSearchResults(await response.clone().json());
+      if (results.length > 0) onSearchResults(results);
+      return response;
+    }
+
+    return new Response(response.body.pipeThrough(searchResultsTransform(onSearchResults)), {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers
+    });
+  };
+}
@@ -0,0 +1,257 @@
+import { NextResponse } from 'next/server';
+import type { AuthenticatedHandler, AuthUser } from '@/lib/auth';
+import { getConfig } from '@/lib/config';
+import { executeWithRetry } from '@/lib/db';
+
+// Routes that call paid providers, grouped by what they spend
+export const RATE_LIMIT_CLASSES = ['chat', 'image', 'audio'] as const;
+export type RateLimitClass = typeof RATE_LIMIT_CLASSES[number];
+
+interface BucketLimit {
+  capacity: number;
+  refillPerMinute: number;
+}
+
+interface ClassLimits {
+  user: BucketLimit;
+  // Looser than per user because households, offices and mobile carriers share addresses
+  ip: BucketLimit;
+  daily: number;
+  unit: string;
+}
+
+export const RATE_LIMITS: Record<RateLimitClass, ClassLimits> = {
+  chat: {
+    user: { capacity: 10, refillPerMinute: 10 },
+    ip: { capacity: 30, refillPerMinute: 30 },
+    daily: 200,
+    unit: 'chat turns'
+  },
+  image: {
+    user: { capacity: 5, refillPerMinute: 5 },
+    ip: { capacity: 15, refillPerMinute: 15 },
+    daily: 50,
+    unit: 'image analyses'
+  },
+  audio: {
+    user: { capacity: 20, refillPerMinute: 20 },
+    ip: { capacity: 60, refillPerMinute: 60 },
+    daily: 1800,
+    unit: 'seconds of audio'
+  }
+};
+
+export interface BucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Tops the bucket up for the time elapsed, then takes one token if there is one
+export function takeToken(state: BucketState | null, limit: BucketLimit, now: number) {
+  const ratePerMs = limit.refillPerMinute / 60000;
+  const available = state
+    ? Math.min(limit.capacity, state.tokens + (now - state.updatedAt) * ratePerMs)
+    : limit.capacity;
+
+  if (available >= 1) {
+    return { state: { tokens: available - 1, updatedAt: now }, retryAfter: 0 };
+  }
+  return {
+    state: { tokens: available, updatedAt: now },
+    retryAfter: Math.ceil((1 - available) / ratePerMs / 1000)
+  };
+}
+
+function utcDay(now: number) {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+function secondsUntilTomorrow(now: number) {
+  const tomorrow = new Date(now);
+  tomorrow.setUTCHours(24, 0, 0, 0);
+  return Math.ceil((tomorrow.getTime() - now) / 1000);
+}
+
+export interface RateLimitStore {
+  // Seconds until a token is available, or 0 when one was taken
+  take(key: string, limit: BucketLimit, now: number): Promise<number>;
+  // Adds `amount` to today's usage unless that would pass `limit`; false when it would
+  consume(key: string, amount: number, limit: number, now: number): Promise<boolean>;
+}
+
+export function createMemoryStore(): RateLimitStore {
+  const buckets = new Map<string, BucketState>();
+  let quotaDay = '';
+  let quotas = new Map<string, number>();
+
+  return {
+    async take(key, limit, now) {
+      const { state, retryAfter } = takeToken(buckets.get(key) ?? null, limit, now);
+      buckets.set(key, state);
+      return retryAfter;
+    },
+    async consume(key, amount, limit, now) {
+      // Only today's usage is kept
+      if (quotaDay !== utcDay(now)) {
+        quotaDay = utcDay(now);
+        quotas = new Map();
+      }
+      const used = quotas.get(key) ?? 0;
+      if (used + amount > limit) return false;
+      quotas.set(key, used + amount);
+      return true;
+    }
+  };
+}
+
+// A bucket left alone this long has refilled to capacity, which is the same as having no row at all
+const BUCKET_EXPIRY_MS = Math.max(
+  ...Object.values(RATE_LIMITS).flatMap(({ user, ip }) => [user, ip]).map(limit => limit.capacity / limit.refillPerMinute * 60000)
+);
+
+// Each instance deletes expired rows at most this often, so the tables only hold live buckets and today's quotas
+const SWEEP_INTERVAL_MS = 10 * 60000;
+let lastSweep = 0;
+
+async function sweepExpired(now: number) {
+  if (now - lastSweep < SWEEP_INTERVAL_MS) return;
+  lastSweep = now;
+
+  try {
+    await executeWithRetry(async (client) => {
+      await client.query('DELETE FROM rate_limit_buckets WHERE updated_at < $1', [new Date(now - BUCKET_EXPIRY_MS)]);
+      await client.query('DELETE FROM rate_limit_quotas WHERE day < $1', [utcDay(now)]);
+    }, 'main', 1);
+  } catch (error) {
+    // Rows left behind are removed by the next sweep
+    console.error('Error removing expired rate limit rows:', error);
+  }
+}
+
+// Shared across instances; single attempt so a database outage falls back quickly instead of retrying
+export const postgresStore: RateLimitStore = {
+  async take(key, limit, now) {
+    await sweepExpired(now);
+    return executeWithRetry(async (client) => {
+      await client.query('BEGIN');
+      try {
+        const existing = await client.query(
+          'SELECT tokens, updated_at FROM rate_limit_buckets WHERE key = $1 FOR UPDATE',
+          [key]
+        );
+        const row = existing.rows[0];
+        const { state, retryAfter } = takeToken(
+          row ? { tokens: Number(row.tokens), updatedAt: new Date(row.updated_at).getTime() } : null,
+          limit,
+          now
+        );
+
+        await client.query(
+          `INSERT INTO rate_limit_buckets (key, tokens, updated_at) VALUES ($1, $2, $3)
+           ON CONFLICT (key) DO UPDATE SET tokens = EXCLUDED.tokens, updated_at = EXCLUDED.updated_at`,
+          [key, state.tokens, new Date(state.updatedAt)]
+        );
+        await client.query('COMMIT');
+        return retryAfter;
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      }
+    }, 'main', 1);
+  },
+
+  async consume(key, amount, limit, now) {
+    if (amount > limit) return false;
+
+    // The conditional upsert leaves the row untouched (and returns nothing) when the quota would be exceeded
+    const result = await executeWithRetry((client) =>
+      client.query(
+        `INSERT INTO rate_limit_quotas AS q (key, day, used) VALUES ($1, $2, $3)
+         ON CONFLICT (key, day) DO UPDATE SET used = q.used + EXCLUDED.used
+         WHERE q.used + EXCLUDED.used <= $4
+         RETURNING used`,
+        [key, utcDay(now), amount, limit]
+      ), 'main', 1);
+    return result.rows.length > 0;
+  }
+};
+
+const memoryStore = createMemoryStore();
+
+// Postgres unless RATE_LIMIT_STORE=memory; when Postgres fails the limits are still enforced per instance
+function fallbackStore(primary: RateLimitStore): RateLimitStore {
+  return {
+    async take(key, limit, now) {
+      try {
+        return await primary.take(key, limit, now);
+      } catch (error) {
+        console.error('Rate limit store unavailable, using in-memory buckets:', error);
+        return memoryStore.take(key, limit, now);
+      }
+    },
+    async consume(key, amount, limit, now) {
+      try {
+        return await primary.consume(key, amount, limit, now);
+      } catch (error) {
+        console.error('Rate limit store unavailable, using in-memory quotas:', error);
+        return memoryStore.consume(key, amount, limit, now);
+      }
+    }
+  };
+}
+
+function getStore(): RateLimitStore {
+  return getConfig().rateLimitStore === 'memory' ? memoryStore : fallbackStore(postgresStore);
+}
+
+// Only the address our own proxy saw can be trusted: Vercel sets x-real-ip itself, and other proxies append the peer
+// as the last X-Forwarded-For hop. Earlier hops come from the client and could be rotated to dodge the per-IP bucket
+export function getClientIp(request: Request) {
+  const realIp = request.headers.get('x-real-ip')?.trim();
+  const lastHop = request.headers.get('x-forwarded-for')?.split(',').pop()?.trim();
+  return realIp || lastHop || 'unknown';
+}
+
+function tooManyRequests(message: string, retryAfter: number) {
+  return NextResponse.json(
+    { status: 'error', message },
+    { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+  );
+}
+
+export interface RateLimitOptions {
+  // How much of the daily quota a request uses, e.g. seconds of audio; defaults to 1
+  cost?: (request: Request, user: AuthUser) => Promise<number>;
+  store?: RateLimitStore;
+}
+
+// Wrap inside withAuth: withAuth(withRateLimit('chat', handler))
+export function withRateLimit<C>(
+  routeClass: RateLimitClass,
+  handler: AuthenticatedHandler<C>,
+  options: RateLimitOptions = {}
+): AuthenticatedHandler<C> {
+  return async (request, user, context) => {
+    const limits = RATE_LIMITS[routeClass];
+    const store = options.store ?? getStore();
+    const now = Date.now();
+
+    // Checked before the user so one client cannot work around limits by rotating accounts
+    const ipRetryAfter = await store.take(`${routeClass}:ip:${getClientIp(request)}`, limits.ip, now);
+    if (ipRetryAfter > 0) {
+      return tooManyRequests('Too many requests from this network, please slow down', ipRetryAfter);
+    }
+
+    const userRetryAfter = await store.take(`${routeClass}:user:${user.id}`, limits.user, now);
+    if (userRetryAfter > 0) {
+      return tooManyRequests('Too many requests, please slow down', userRetryAfter);
+    }
+
+    const cost = options.cost ? await options.cost(request, user) : 1;
+    if (!(await store.consume(`${routeClass}:user:${user.id}`, cost, limits.daily, now))) {
+      return tooManyRequests(`Daily limit of ${limits.daily} ${limits.unit} reached`, secondsUntilTomorrow(now));
+    }
+
+    return handler(request, user, context);
+  };
+}
@@ -0,0 +1,297 @@
+import type { Medication } from '@/lib/medications';
+
+// Local clock time for each time-of-day option on the meds page
+export const TIME_SLOTS: Record<string, { hour: number; minute: number }> = {
+  Morning: { hour: 8, minute: 0 },
+  Afternoon: { hour: 13, minute: 0 },
+  Evening: { hour: 18, minute: 0 },
+  Bedtime: { hour: 22, minute: 0 }
+};
+
+const DEFAULT_SLOTS_BY_TIMES_PER_DAY: Record<number, string[]> = {
+  1: ['Morning'],
+  2: ['Morning', 'Evening'],
+  3: ['Morning', 'Afternoon', 'Evening'],
+  4: ['Morning', 'Afternoon', 'Evening', 'Bedtime']
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type FrequencyRule =
+  | { kind: 'daily'; timesPerDay: number }
+  | { kind: 'interval'; everyDays: number }
+  // Doses spread over each week, starting on the weekday the medication was added
+  | { kind: 'weekly'; timesPerWeek: number }
+  // Same day of the month, or the month's last day when it is shorter
+  | { kind: 'monthly'; everyMonths: number }
+  | { kind: 'as_needed' }
+  // Nothing is scheduled for a frequency the parser does not understand, rather than guessing daily
+  | { kind: 'unrecognized' };
+
+export interface DoseEvent {
+  medicationId: string;
+  name: string;
+  dosage: string;
+  slot: string;
+  scheduledAt: Date;
+}
+
+const WORD_NUMBERS: Record<string, number> = {
+  one: 1, two: 2, other: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10, twelve: 12,
+  fourteen: 14
+};
+
+function toNumber(value: string) {
+  return WORD_NUMBERS[value] ?? parseInt(value, 10);
+}
+
+// Normalize free-text frequencies like "Once weekly" or "twice a day" into a rule
+export function parseFrequency(frequency: string): FrequencyRule {
+  const text = frequency.trim().toLowerCase();
+
+  if (/\b(as needed|prn|when needed)\b/.test(text)) {
+    return { kind: 'as_needed' };
+  }
+
+  const everyDays = text.match(/\bevery (\d+|[a-z]+) days?\b/);
+  if (everyDays && toNumber(everyDays[1]) > 0) {
+    return { kind: 'interval', everyDays: toNumber(everyDays[1]) };
+  }
+
+  const everyWeeks = text.match(/\bevery (\d+|[a-z]+) weeks?\b/);
+  if (everyWeeks && toNumber(everyWeeks[1]) > 0) {
+    return { kind: 'interval', everyDays: toNumber(everyWeeks[1]) * 7 };
+  }
+
+  const everyMonths = text.match(/\bevery (\d+|[a-z]+) months?\b/);
+  if (everyMonths && toNumber(everyMonths[1]) > 0) {
+    return { kind: 'monthly', everyMonths: toNumber(everyMonths[1]) };
+  }
+
+  if (/\b(monthly|once a month|once per month|every month|qm)\b/.test(text)) {
+    return { kind: 'monthly', everyMonths: 1 };
+  }
+
+  // "Bi-weekly" contains "weekly", so it is checked first
+  if (/\b(bi-?weekly|fortnightly|every fortnight)\b/.test(text)) {
+    return { kind: 'interval', everyDays: 14 };
+  }
+
+  // "Twice a week" or "3 times weekly"; checked before the per-day counts, which would read them as doses a day
+  const perWeek = text.match(/\b(?:(once|twice)|(\d+|[a-z]+) ?(?:times|x))\s*(?:a|per|\/|each|every)?\s*week(?:ly)?\b/);
+  if (perWeek) {
+    const timesPerWeek = perWeek[1] === 'once' ? 1 : perWeek[1] === 'twice' ? 2 : toNumber(perWeek[2]);
+    if (timesPerWeek === 1) return { kind: 'interval', everyDays: 7 };
+    if (timesPerWeek === 7) return { kind: 'daily', timesPerDay: 1 };
+    return timesPerWeek > 1 && timesPerWeek < 7 ? { kind: 'weekly', timesPerWeek } : { kind: 'unrecognized' };
+  }
+
+  if (/\b(weekly|once a week|once per week|every week|1x ?(a|per|\/) ?week|qw)\b/.test(text)) {
+    return { kind: 'interval', everyDays: 7 };
+  }
+
+  // "Every 12 hours" is twice a day; intervals that do not divide the day evenly are not scheduled
+  const everyHours = text.match(/\bevery (\d+|[a-z]+) (hours?|hrs?)\b/);
+  if (everyHours) {
+    const timesPerDay = 24 / toNumber(everyHours[1]);
+    return Number.isInteger(timesPerDay) && timesPerDay >= 1 && timesPerDay <= 4
+      ? { kind: 'daily', timesPerDay }
+      : { kind: 'unrecognized' };
+  }
+
+  if (/\b(four times|4 times|4x|qid)\b/.test(text)) {
+    return { kind: 'daily', timesPerDay: 4 };
+  }
+  if (/\b(three times|3 times|3x|tid)\b/.test(text)) {
+    return { kind: 'daily', timesPerDay: 3 };
+  }
+  if (/\b(twice|two times|2 times|2x|bid)\b/.test(text)) {
+    return { kind: 'daily', timesPerDay: 2 };
+  }
+  if (/\b(daily|once|one time|1 time|1x|a day|per day|every day|each day|qd|every (morning|evening|night)|nightly|at bedtime)\b/.test(text)) {
+    return { kind: 'daily', timesPerDay: 1 };
+  }
+
+  return { kind: 'unrecognized' };
+}
+
+type ScheduledRule = Exclude<FrequencyRule, { kind: 'as_needed' | 'unrecognized' }>;
+
+// Rules that produce dose times; as-needed and unrecognized frequencies are left off the schedule
+export function isScheduled(rule: FrequencyRule): rule is ScheduledRule {
+  return rule.kind !== 'as_needed' && rule.kind !== 'unrecognized';
+}
+
+// Days after the weekly anchor that doses fall on, spread as evenly as whole days allow: 3 a week is days 0, 2 and 5
+function weekdayOffsets(timesPerWeek: number) {
+  return Array.from({ length: timesPerWeek }, (_, i) => Math.round((i * 7) / timesPerWeek));
+}
+
+// Time-of-day slots for a medication, falling back to defaults for the rule
+export function getDoseSlots(medication: Pick<Medication, 'timeOfDay'>, rule: FrequencyRule): string[] {
+  const slots = medication.timeOfDay.filter(slot => slot in TIME_SLOTS);
+  if (slots.length > 0) return slots;
+
+  const timesPerDay = rule.kind === 'daily' ? rule.timesPerDay : 1;
+  return DEFAULT_SLOTS_BY_TIMES_PER_DAY[timesPerDay] || DEFAULT_SLOTS_BY_TIMES_PER_DAY[1];
+}
+
+// offsetMinutes follows Date.getTimezoneOffset(): minutes to add to local time to get UTC
+function localDayNumber(date: Date, offsetMinutes: number) {
+  return Math.floor((date.getTime() - offsetMinutes * 60 * 1000) / DAY_MS);
+}
+
+function calendarDate(dayNumber: number) {
+  const date = new Date(dayNumber * DAY_MS);
+  const month = date.getUTCFullYear() * 12 + date.getUTCMonth();
+  const daysInMonth = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+  return { month, day: date.getUTCDate(), daysInMonth };
+}
+
+// Whether a local day is a dose day for a rule anchored on the day the medication was added
+function isDoseDay(rule: FrequencyRule, day: number, anchorDay: number) {
+  if (rule.kind === 'interval') return (day - anchorDay) % rule.everyDays === 0;
+  if (rule.kind === 'weekly') return weekdayOffsets(rule.timesPerWeek).includes((day - anchorDay) % 7);
+  if (rule.kind !== 'monthly') return true;
+
+  const date = calendarDate(day);
+  const anchor = calendarDate(anchorDay);
+  return (date.month - anchor.month) % rule.everyMonths === 0 && date.day === Math.min(anchor.day, date.daysInMonth);
+}
+
+function localTimeToUtc(dayNumber: number, slot: string, offsetMinutes: number) {
+  const { hour, minute } = TIME_SLOTS[slot];
+  return new Date(dayNumber * DAY_MS + (hour * 60 + minute + offsetMinutes) * 60 * 1000);
+}
+
+// Concrete dose events for every medication between from and to, in chronological order
+export function generateDoseEvents(
+  medications: Medication[],
+  from: Date,
+  to: Date,
+  offsetMinutes = 0
+): DoseEvent[] {
+  const events: DoseEvent[] = [];
+  const firstDay = localDayNumber(from, offsetMinutes);
+  const lastDay = localDayNumber(to, offsetMinutes);
+
+  for (const medication of medications) {
+    const rule = parseFrequency(medication.frequency);
+    if (!isScheduled(rule)) continue;
+
+    const createdAt = new Date(medication.createdAt);
+    const anchorDay = localDayNumber(createdAt, offsetMinutes);
+    const slots = getDoseSlots(medication, rule);
+
+    for (let day = Math.max(firstDay, anchorDay); day <= lastDay; day++) {
+      if (!isDoseDay(rule, day, anchorDay)) continue;
+
+      for (const slot of slots) {
+        const scheduledAt = localTimeToUtc(day, slot, offsetMinutes);
+        // Nothing is due before the medication was added or outside the window
+        if (scheduledAt < createdAt || scheduledAt < from || scheduledAt > to) continue;
+
+        events.push({
+          medicationId: medication.id,
+          name: medication.name,
+          dosage: medication.dosage,
+          slot,
+          scheduledAt
+        });
+      }
+    }
+  }
+
+  return events.sort((a, b) => a.scheduledAt.getTime() - b.scheduledAt.getTime());
+}
+
+function formatIcsDate(date: Date) {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// Floating local time (no Z) so calendar apps place the reminder in the user's own time zone
+function formatIcsLocalDate(dayNumber: number, slot: string) {
+  const { hour, minute } = TIME_SLOTS[slot];
+  const date = new Date(dayNumber * DAY_MS + (hour * 60 + minute) * 60 * 1000);
+  return formatIcsDate(date).replace('Z', '');
+}
+
+function escapeIcsText(value: string) {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 characters are folded as RFC 5545 requires
+function foldIcsLine(line: string) {
+  const parts: string[] = [];
+  for (let i = 0; i < line.length; i += 73) {
+    parts.push(i === 0 ? line.slice(i, i + 73) : ` ${line.slice(i, i + 73)}`);
+  }
+  return parts.join('\r\n');
+}
+
+const ICS_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+function recurrenceRule(rule: ScheduledRule, anchorDay: number) {
+  if (rule.kind === 'daily') return 'RRULE:FREQ=DAILY';
+  if (rule.kind === 'interval') {
+    return rule.everyDays % 7 === 0
+      ? `RRULE:FREQ=WEEKLY;INTERVAL=${rule.everyDays / 7}`
+      : `RRULE:FREQ=DAILY;INTERVAL=${rule.everyDays}`;
+  }
+  if (rule.kind === 'weekly') {
+    const weekdays = weekdayOffsets(rule.timesPerWeek)
+      .map(offset => ICS_WEEKDAYS[new Date((anchorDay + offset) * DAY_MS).getUTCDay()]);
+    return `RRULE:FREQ=WEEKLY;BYDAY=${weekdays.join(',')}`;
+  }
+
+  // From the 29th on, the last of the candidate days each month exists, so short months fall back to their last day
+  const { day } = calendarDate(anchorDay);
+  if (day <= 28) return `RRULE:FREQ=MONTHLY;INTERVAL=${rule.everyMonths}`;
+  const monthDays = Array.from({ length: day - 27 }, (_, i) => 28 + i).join(',');
+  return `RRULE:FREQ=MONTHLY;INTERVAL=${rule.everyMonths};BYMONTHDAY=${monthDays};BYSETPOS=-1`;
+}
+
+// iCalendar document with one recurring reminder per medication and time slot
+export function buildICalendar(medications: Medication[], offsetMinutes = 0): string {
+  const now = formatIcsDate(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Med-Assistant//Dose Reminders//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:Medication Reminders'
+  ];
+
+  for (const medication of medications) {
+    const rule = parseFrequency(medication.frequency);
+    if (!isScheduled(rule)) continue;
+
+    const anchorDay = localDayNumber(new Date(medication.createdAt), offsetMinutes);
+    const rrule = recurrenceRule(rule, anchorDay);
+    const summary = escapeIcsText(`Take ${medication.name} (${medication.dosage})`);
+    const description = escapeIcsText([medication.frequency, medication.notes].filter(Boolean).join('\n'));
+
+    for (const slot of getDoseSlots(medication, rule)) {
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:${medication.id}-${slot.toLowerCase()}@med-assistant`,
+        `DTSTAMP:${now}`,
+        `DTSTART:${formatIcsLocalDate(anchorDay, slot)}`,
+        'DURATION:PT15M',
+        rrule,
+        `SUMMARY:${summary}`,
+        `DESCRIPTION:${description}`,
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        `DESCRIPTION:${summary}`,
+        'TRIGGER:PT0M',
+        'END:VALARM',
+        'END:VEVENT'
+      );
+    }
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
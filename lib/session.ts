@@ -0,0 +1,46 @@
+"use client"
+
+import { useCallback, useEffect, useState } from 'react';
+
+export interface SessionUser {
+  id: string;
+  email: string;
+  name: string | null;
+}
+
+// Client-side view of the current session, backed by /api/auth/me
+export function useSession() {
+  const [user, setUser] = useState<SessionUser | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch('/api/auth/me')
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => {
+        if (!cancelled) setUser(data?.user ?? null);
+      })
+      .catch(() => {
+        if (!cancelled) setUser(null);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const signOut = useCallback(async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } finally {
+      setUser(null);
+      window.location.href = '/login';
+    }
+  }, []);
+
+  return { user, loading, isSignedIn: !!user, signOut };
+}
@@ -0,0 +1,22 @@
+// Browser-only: downscale an image (data or object URL) to a small JPEG data URL for the meal diary
+export function createThumbnail(src: string, maxSize = 160): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const image = new window.Image();
+    image.onload = () => {
+      const scale = Math.min(1, maxSize / Math.max(image.width, image.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(image.width * scale);
+      canvas.height = Math.round(image.height * scale);
+
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Canvas is not supported'));
+        return;
+      }
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/jpeg', 0.7));
+    };
+    image.onerror = () => reject(new Error('Failed to load image for thumbnail'));
+    image.src = src;
+  });
+}
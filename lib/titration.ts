@@ -0,0 +1,325 @@
+import { z } from 'zod';
+import { executeWithRetry } from '@/lib/db';
+
+export interface TitrationStep {
+  dose: string;
+  // Minimum days on this step before escalating; null for the maintenance dose
+  durationDays: number | null;
+}
+
+export interface GlpProduct {
+  name: string;
+  ingredient: string;
+  route: 'injection' | 'oral';
+  frequency: string;
+  steps: TitrationStep[];
+}
+
+// Standard step-up schedules from the US prescribing information
+export const GLP1_PRODUCTS = {
+  ozempic: {
+    name: 'Ozempic',
+    ingredient: 'semaglutide',
+    route: 'injection',
+    frequency: 'once weekly',
+    steps: [
+      { dose: '0.25 mg', durationDays: 28 },
+      { dose: '0.5 mg', durationDays: 28 },
+      { dose: '1 mg', durationDays: 28 },
+      { dose: '2 mg', durationDays: null }
+    ]
+  },
+  wegovy: {
+    name: 'Wegovy',
+    ingredient: 'semaglutide',
+    route: 'injection',
+    frequency: 'once weekly',
+    steps: [
+      { dose: '0.25 mg', durationDays: 28 },
+      { dose: '0.5 mg', durationDays: 28 },
+      { dose: '1 mg', durationDays: 28 },
+      { dose: '1.7 mg', durationDays: 28 },
+      { dose: '2.4 mg', durationDays: null }
+    ]
+  },
+  mounjaro: {
+    name: 'Mounjaro',
+    ingredient: 'tirzepatide',
+    route: 'injection',
+    frequency: 'once weekly',
+    steps: [
+      { dose: '2.5 mg', durationDays: 28 },
+      { dose: '5 mg', durationDays: 28 },
+      { dose: '7.5 mg', durationDays: 28 },
+      { dose: '10 mg', durationDays: 28 },
+      { dose: '12.5 mg', durationDays: 28 },
+      { dose: '15 mg', durationDays: null }
+    ]
+  },
+  zepbound: {
+    name: 'Zepbound',
+    ingredient: 'tirzepatide',
+    route: 'injection',
+    frequency: 'once weekly',
+    steps: [
+      { dose: '2.5 mg', durationDays: 28 },
+      { dose: '5 mg', durationDays: 28 },
+      { dose: '7.5 mg', durationDays: 28 },
+      { dose: '10 mg', durationDays: 28 },
+      { dose: '12.5 mg', durationDays: 28 },
+      { dose: '15 mg', durationDays: null }
+    ]
+  },
+  trulicity: {
+    name: 'Trulicity',
+    ingredient: 'dulaglutide',
+    route: 'injection',
+    frequency: 'once weekly',
+    steps: [
+      { dose: '0.75 mg', durationDays: 28 },
+      { dose: '1.5 mg', durationDays: 28 },
+      { dose: '3 mg', durationDays: 28 },
+      { dose: '4.5 mg', durationDays: null }
+    ]
+  },
+  saxenda: {
+    name: 'Saxenda',
+    ingredient: 'liraglutide',
+    route: 'injection',
+    frequency: 'once daily',
+    steps: [
+      { dose: '0.6 mg', durationDays: 7 },
+      { dose: '1.2 mg', durationDays: 7 },
+      { dose: '1.8 mg', durationDays: 7 },
+      { dose: '2.4 mg', durationDays: 7 },
+      { dose: '3 mg', durationDays: null }
+    ]
+  },
+  victoza: {
+    name: 'Victoza',
+    ingredient: 'liraglutide',
+    route: 'injection',
+    frequency: 'once daily',
+    steps: [
+      { dose: '0.6 mg', durationDays: 7 },
+      { dose: '1.2 mg', durationDays: 7 },
+      { dose: '1.8 mg', durationDays: null }
+    ]
+  },
+  rybelsus: {
+    name: 'Rybelsus',
+    ingredient: 'semaglutide',
+    route: 'oral',
+    frequency: 'once daily',
+    steps: [
+      { dose: '3 mg', durationDays: 30 },
+      { dose: '7 mg', durationDays: 30 },
+      { dose: '14 mg', durationDays: null }
+    ]
+  }
+} satisfies Record<string, GlpProduct>;
+
+export type GlpProductId = keyof typeof GLP1_PRODUCTS;
+
+const PRODUCT_IDS = Object.keys(GLP1_PRODUCTS) as [GlpProductId, ...GlpProductId[]];
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date');
+
+export const titrationPlanSchema = z.object({
+  product: z.enum(PRODUCT_IDS),
+  startDate: dateSchema,
+  // Defaults to the step the standard schedule would have reached by today
+  currentStep: z.number().int().min(0).optional(),
+  medicationId: z.string().uuid().optional()
+});
+
+export const titrationUpdateSchema = z.object({
+  action: z.enum(['advance']).optional(),
+  currentStep: z.number().int().min(0).optional(),
+  status: z.enum(['active', 'paused', 'completed']).optional()
+});
+
+export type TitrationPlanInput = z.infer<typeof titrationPlanSchema>;
+export type TitrationUpdate = z.infer<typeof titrationUpdateSchema>;
+export type TitrationStatus = NonNullable<TitrationUpdate['status']>;
+
+export interface TitrationPlan {
+  id: string;
+  product: GlpProductId;
+  productName: string;
+  frequency: string;
+  medicationId: string | null;
+  startDate: string;
+  currentStep: number;
+  stepStartedOn: string;
+  status: TitrationStatus;
+  steps: TitrationStep[];
+  currentDose: string;
+  nextDose: string | null;
+  nextStepDueOn: string | null;
+  isNextStepDue: boolean;
+  // Step the standard schedule would be on today if every escalation happened on time
+  scheduledStep: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDayNumber(date: string) {
+  return Math.floor(Date.parse(`${date}T00:00:00Z`) / DAY_MS);
+}
+
+function fromDayNumber(day: number) {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+export function today() {
+  return new Date().toISOString().slice(0, 10);
+}
+
+// Step index and its start date if every escalation happened on schedule
+export function getScheduledStep(product: GlpProductId, startDate: string, onDate = today()) {
+  const { steps } = GLP1_PRODUCTS[product];
+  const elapsed = toDayNumber(onDate) - toDayNumber(startDate);
+  let stepStart = 0;
+
+  for (let i = 0; i < steps.length; i++) {
+    const duration = steps[i].durationDays;
+    if (duration === null || elapsed < stepStart + duration) {
+      return { step: i, startedOn: fromDayNumber(toDayNumber(startDate) + Math.max(stepStart, 0)) };
+    }
+    stepStart += duration;
+  }
+
+  return { step: steps.length - 1, startedOn: fromDayNumber(toDayNumber(startDate) + stepStart) };
+}
+
+const TITRATION_COLUMNS = `id, medication_id, product, start_date::text AS start_date, current_step,
+  step_started_on::text AS step_started_on, status, created_at, updated_at`;
+
+function toTitrationPlan(row: any): TitrationPlan {
+  const product = GLP1_PRODUCTS[row.product as GlpProductId];
+  const currentStep = Math.min(row.current_step, product.steps.length - 1);
+  const { durationDays } = product.steps[currentStep];
+  const nextStep = product.steps[currentStep + 1];
+  const nextStepDueOn = nextStep && durationDays !== null
+    ? fromDayNumber(toDayNumber(row.step_started_on) + durationDays)
+    : null;
+
+  return {
+    id: row.id,
+    product: row.product,
+    productName: product.name,
+    frequency: product.frequency,
+    medicationId: row.medication_id,
+    startDate: row.start_date,
+    currentStep,
+    stepStartedOn: row.step_started_on,
+    status: row.status,
+    steps: product.steps,
+    currentDose: product.steps[currentStep].dose,
+    nextDose: nextStep?.dose ?? null,
+    nextStepDueOn,
+    isNextStepDue: row.status === 'active' && nextStepDueOn !== null && nextStepDueOn <= today(),
+    scheduledStep: getScheduledStep(row.product, row.start_date).step,
+    createdAt: new Date(row.created_at).toISOString(),
+    updatedAt: new Date(row.updated_at).toISOString()
+  };
+}
+
+export async function listTitrationPlans(userId: string, options: { activeOnly?: boolean } = {}): Promise<TitrationPlan[]> {
+  const result = await executeWithRetry((client) =>
+    client.query(
+      `SELECT ${TITRATION_COLUMNS} FROM titration_plans
+       WHERE user_id = $1 AND (NOT $2::boolean OR status = 'active')
+       ORDER BY created_at DESC`,
+      [userId, options.activeOnly ?? false]
+    )
+  );
+
+  return result.rows.map(toTitrationPlan);
+}
+
+// Null when the linked medication is not one of the user's
+export async function createTitrationPlan(userId: string, input: TitrationPlanInput): Promise<TitrationPlan | null> {
+  const { steps } = GLP1_PRODUCTS[input.product];
+  const scheduled = getScheduledStep(input.product, input.startDate);
+  const currentStep = input.currentStep !== undefined ? Math.min(input.currentStep, steps.length - 1) : scheduled.step;
+  // An explicit step is assumed to have started today unless it matches the schedule
+  const stepStartedOn = currentStep === scheduled.step ? scheduled.startedOn : today();
+
+  const result = await executeWithRetry((client) =>
+    client.query(
+      `INSERT INTO titration_plans (user_id, medication_id, product, start_date, current_step, step_started_on)
+       SELECT $1, $2::uuid, $3, $4, $5, $6
+       WHERE $2::uuid IS NULL OR EXISTS (SELECT 1 FROM medications m WHERE m.id = $2 AND m.user_id = $1)
+       RETURNING ${TITRATION_COLUMNS}`,
+      [userId, input.medicationId || null, input.product, input.startDate, currentStep, stepStartedOn]
+    )
+  );
+
+  return result.rows[0] ? toTitrationPlan(result.rows[0]) : null;
+}
+
+// Moving to another step restarts its clock today; advancing past maintenance is a no-op
+export async function updateTitrationPlan(
+  userId: string,
+  id: string,
+  changes: TitrationUpdate
+): Promise<TitrationPlan | null> {
+  const result = await executeWithRetry(async (client) => {
+    const existing = await client.query(
+      'SELECT product, current_step FROM titration_plans WHERE id = $1 AND user_id = $2',
+      [id, userId]
+    );
+    if (existing.rows.length === 0) return existing;
+
+    const { steps } = GLP1_PRODUCTS[existing.rows[0].product as GlpProductId];
+    const requestedStep = changes.action === 'advance'
+      ? existing.rows[0].current_step + 1
+      : changes.currentStep;
+    const currentStep = requestedStep !== undefined ? Math.min(requestedStep, steps.length - 1) : null;
+
+    return client.query(
+      `UPDATE titration_plans SET
+         current_step = COALESCE($3, current_step),
+         step_started_on = CASE WHEN $3::integer IS NOT NULL AND $3 <> current_step THEN $5::date ELSE step_started_on END,
+         status = COALESCE($4, status),
+         updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND user_id = $2
+       RETURNING ${TITRATION_COLUMNS}`,
+      [id, userId, currentStep, changes.status ?? null, today()]
+    );
+  });
+
+  return result.rows[0] ? toTitrationPlan(result.rows[0]) : null;
+}
+
+export async function deleteTitrationPlan(userId: string, id: string): Promise<boolean> {
+  const result = await executeWithRetry((client) =>
+    client.query('DELETE FROM titration_plans WHERE id = $1 AND user_id = $2', [id, userId])
+  );
+
+  return result.rowCount > 0;
+}
+
+// Plain-text summary of active plans for the chat system prompt
+export function describeTitrationPlans(plans: TitrationPlan[]): string | null {
+  const active = plans.filter(plan => plan.status === 'active');
+  if (active.length === 0) return null;
+
+  return active.map(plan => {
+    const product = GLP1_PRODUCTS[plan.product];
+    const parts = [
+      `${plan.productName} (${product.ingredient}): currently ${plan.currentDose} ${plan.frequency}`,
+      `step ${plan.currentStep + 1} of ${plan.steps.length}, on this dose since ${plan.stepStartedOn}`
+    ];
+    if (plan.nextDose && plan.nextStepDueOn) {
+      parts.push(`next step ${plan.nextDose} ${plan.isNextStepDue ? 'is due now' : `due ${plan.nextStepDueOn}`}`);
+    } else {
+      parts.push('on maintenance dose');
+    }
+    return `- ${parts.join('; ')}`;
+  }).join('\n');
+}
@@ -0,0 +1,94 @@
+import { executeWithRetry } from '@/lib/db';
+
+export const TRIAGE_CATEGORIES = ['pancreatitis', 'hypoglycemia', 'overdose', 'self_harm', 'emergency'] as const;
+export type TriageCategory = typeof TRIAGE_CATEGORIES[number];
+
+interface RedFlagRule {
+  category: TriageCategory;
+  pattern: RegExp;
+}
+
+// Someone describing what is happening to them, or to a person with them, right now; a bare keyword such as
+// "pancreatitis" or "overdose" is usually a question about a side effect and is left to the classifier.
+// Checked before any model runs so they never depend on it
+const RED_FLAG_RULES: RedFlagRule[] = [
+  {
+    category: 'pancreatitis',
+    pattern: /\b(severe|intense|excruciating|unbearable|extreme|worst|sharp)\b[^.?!]{0,40}\b(abdominal|stomach|belly|upper abdomen|tummy)\s*(pain|ache|cramps?)\b|\b(abdominal|stomach|belly)\s*pain\b[^.?!]{0,60}\b(back|won'?t stop|vomiting|throwing up)\b|\b(i|i'?m|i think i|i might)\s+(have|having|got)\b[^.?!]{0,20}\bpancreatitis\b/i
+  },
+  {
+    category: 'hypoglycemia',
+    // A reading right after the word ("glucose 45", "bg: 3.1") or a verb; a unitless one only counts below 4 (mmol/L)
+    // or from 20 to 69 (mg/dL), since 5 or 10 is a normal mmol/L value
+    pattern: /\b(blood sugar|glucose|bg)\b(?:[^.?!]{0,30}\b(below|under|is|was|were|at|of|dropped to|reads?|reading))?\s*:?\s*(?<![\d.,])([0-3](?:[.,]\d)?(?!\s*mg)|[2-6]\d(?!\s*mmol))(?![.,]?\d|\s*(%|hours?|hrs?|min))|\b(hypo|hypoglyc\w*)\b[^.?!]{0,40}\b(shak\w*|sweat\w*|confus\w*|faint\w*|pass(ed|ing)? out|seizure)\b|\b(shaky|shaking|sweating|confused|dizzy)\b[^.?!]{0,40}\b(low blood sugar|sugar is low|blood sugar (crash|drop))/i
+  },
+  {
+    category: 'overdose',
+    pattern: /\b(overdosed|overdosing|took an overdose)\b|\b(took|taken|injected|used)\b[^.?!]{0,30}\b(too much|too many|double|twice|extra|wrong) (dose|doses|shots?|pens?|pills?|amount)\b|\b(took|injected)\b[^.?!]{0,20}\b(whole|entire) (pen|bottle)\b/i
+  },
+  {
+    category: 'self_harm',
+    pattern: /\b(kill myself|end my life|suicid\w*|want to die|self[- ]harm|hurt myself)\b/i
+  },
+  {
+    category: 'emergency',
+    pattern: /\b((can'?t|cannot) breathe|trouble breathing|throat (is )?(closing|swelling)|(having|in) (an )?anaphyla\w*|(have|having|got|feel\w*)\b[^.?!]{0,20}\bchest pains?|chest (hurts|is tight)|passed out|(is|are|am|'s|'m) (unconscious|unresponsive|seizing)|having (a )?seizures?)\b/i
+  }
+];
+
+// "What happens if I took too many pills?" or "can it cause severe stomach pain?" asks about a symptom rather than
+// reporting one. Only the clause holding the match counts, and only when it opens with "if" or a question word or
+// ends in "?", so "I can feel severe stomach pain" and "can you help, I took a double dose" are still flagged
+const QUESTION_OPENER = /^(if|whether|what|how|why|when|where|which|who|can|could|does|do|did|is|are|should|would|will|might)\b(?!')/i;
+
+function isHypothetical(message: string, start: number, end: number) {
+  const clauseStart = Math.max(...['.', '?', '!', ',', ';', '\n'].map(mark => message.lastIndexOf(mark, start - 1))) + 1;
+  const clauseEnd = message.slice(end).search(/[.?!,;\n]/);
+  const clause = message.slice(clauseStart, clauseEnd === -1 ? message.length : end + clauseEnd + 1).trim();
+  return QUESTION_OPENER.test(clause) || clause.endsWith('?');
+}
+
+// First matching rule wins; null when nothing looks like an emergency
+export function detectRedFlags(message: string): TriageCategory | null {
+  const rule = RED_FLAG_RULES.find(({ pattern }) =>
+    [...message.matchAll(new RegExp(pattern, 'gi'))]
+      .some(match => !isHypothetical(message, match.index ?? 0, (match.index ?? 0) + match[0].length))
+  );
+  return rule?.category ?? null;
+}
+
+const EMERGENCY_NUMBERS = 'call your local emergency number now (911 in the US and Canada, 999 in the UK, 112 in the EU, 000 in Australia)';
+
+const CATEGORY_GUIDANCE: Record<TriageCategory, string> = {
+  pancreatitis: 'Severe stomach pain that does not go away, especially if it spreads to your back or comes with vomiting, can be a sign of pancreatitis, a known risk with GLP-1 medications. Do not take your next dose until a clinician has seen you.',
+  hypoglycemia: 'These can be signs of low blood sugar. If you are awake and able to swallow, take 15 g of fast-acting sugar (4 oz of juice or regular soda, or glucose tablets) and recheck in 15 minutes. Do not drive. If you become confused, drowsy or cannot swallow, someone with you should call for help.',
+  overdose: 'Taking more than the prescribed dose can cause severe nausea, vomiting, dehydration or low blood sugar. In the US you can also reach Poison Control at 1-800-222-1222 or poisonhelp.org, any time of day.',
+  self_harm: 'You do not have to go through this alone. In the US you can call or text 988 to reach the Suicide & Crisis Lifeline, any time of day. Outside the US, please contact your local crisis line.',
+  emergency: 'Trouble breathing, chest pain, swelling of the face or throat, fainting or seizures need immediate medical attention.'
+};
+
+// Fixed reply sent instead of a model answer; nothing in it depends on the model or the user's wording
+export function emergencyGuidance(category: TriageCategory): string {
+  return `**This may be a medical emergency.** If you or someone with you is in danger, ${EMERGENCY_NUMBERS}, or go to the nearest emergency department.
+
+${CATEGORY_GUIDANCE[category]}
+
+I can't assess symptoms or tell you whether this is safe to wait out. Please get help from a medical professional right away, and bring your medication with you so they know what you are taking.`;
+}
+
+export interface TriageEvent {
+  category: TriageCategory;
+  detectedBy: 'rules' | 'model';
+  message: string;
+  persona: string;
+}
+
+export async function recordTriageEvent(userId: string, event: TriageEvent): Promise<void> {
+  await executeWithRetry((client) =>
+    client.query(
+      `INSERT INTO triage_events (user_id, category, detected_by, message, persona)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [userId, event.category, event.detectedBy, event.message, event.persona]
+    )
+  );
+}
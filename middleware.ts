@@ -0,0 +1,42 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { corsHeaders } from '@/lib/cors';
+
+// Must match SESSION_COOKIE in lib/auth.ts (not imported: middleware runs on the edge runtime)
+const SESSION_COOKIE = 'medi_session';
+
+// Preflights are answered here, and every other API response (including 401s and 429s) gets the CORS headers on the way out
+function handleApi(request: NextRequest) {
+  const headers = corsHeaders(request);
+
+  if (request.method === 'OPTIONS') {
+    return new NextResponse(null, {
+      status: 204,
+      headers: { ...headers, 'Access-Control-Max-Age': '86400' }
+    });
+  }
+
+  const response = NextResponse.next();
+  for (const [name, value] of Object.entries(headers)) {
+    response.headers.set(name, value);
+  }
+  return response;
+}
+
+// Send visitors without a session to the login page; API routes validate the session themselves
+export function middleware(request: NextRequest) {
+  if (request.nextUrl.pathname.startsWith('/api/')) {
+    return handleApi(request);
+  }
+
+  if (request.cookies.get(SESSION_COOKIE)?.value) {
+    return NextResponse.next();
+  }
+
+  const loginUrl = new URL('/login', request.url);
+  loginUrl.searchParams.set('next', request.nextUrl.pathname);
+  return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+  matcher: ['/api/:path*', '/chat/:path*', '/meds/:path*', '/dashboard/:path*', '/diary/:path*', '/calculator/:path*', '/food-analysis/:path*']
+};
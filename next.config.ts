@@ -1,25 +1,7 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  // Environment variables
-  env: {
-    OPENAI_API_KEY: process.env.OPENAI_API_KEY
-  },
-  
-  // CORS Headers
-  async headers() {
-    return [
-      {
-        source: "/api/:path*",
-        headers: [
-          { key: "Access-Control-Allow-Origin", value: "*" },
-          { key: "Access-Control-Allow-Methods", value: "GET,POST,OPTIONS" },
-          { key: "Access-Control-Allow-Headers", value: "Content-Type" }
-        ]
-      }
-    ];
-  },
-
+  // CORS headers are set by middleware.ts for the origins in CORS_ALLOWED_ORIGINS (lib/cors.ts)
   // Add security headers
   async rewrites() {
     return {
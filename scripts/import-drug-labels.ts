@@ -0,0 +1,47 @@
+// scripts/import-drug-labels.ts
+// Usage: npm run db:import-labels -- drug-label-0001-of-0013.json [more files...]
+// Seeds the drug_labels cache from openFDA's bulk download (https://open.fda.gov/data/downloads/, unzipped first)
+import { readFile } from 'fs/promises';
+import { loadEnvConfig } from '@next/env';
+
+// Same .env files `next dev` reads; must run before the pools read their connection strings
+loadEnvConfig(process.cwd());
+
+// Labels stored per transaction
+const BATCH_SIZE = 500;
+
+async function main() {
+  const files = process.argv.slice(2);
+  if (files.length === 0) {
+    throw new Error('Pass one or more openFDA drug label JSON files');
+  }
+
+  const { closePools } = await import('@/lib/db');
+  const { cacheLabels } = await import('@/lib/drug-catalog');
+
+  try {
+    for (const file of files) {
+      const data = JSON.parse(await readFile(file, 'utf8'));
+      const results = Array.isArray(data.results) ? data.results : [];
+      if (results.length === 0) {
+        throw new Error(`${file} has no results; expected an openFDA drug label file`);
+      }
+
+      // Stamped with the import time; an older download would otherwise start out stale and be re-fetched on search
+      const fetchedAt = new Date();
+
+      let imported = 0;
+      for (let start = 0; start < results.length; start += BATCH_SIZE) {
+        imported += await cacheLabels(results.slice(start, start + BATCH_SIZE), fetchedAt);
+      }
+      console.log(`${file}: imported ${imported} of ${results.length} labels`);
+    }
+  } finally {
+    await closePools();
+  }
+}
+
+main().catch((error) => {
+  console.error('Import failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,64 @@
+// scripts/migrate.ts
+// Usage: npm run db:migrate [-- --store memory]
+//        npm run db:rollback -- --store main [--steps 2]
+//        npm run db:status
+import { loadEnvConfig } from '@next/env';
+
+// Same .env files `next dev` reads; must run before the pools read their connection strings
+loadEnvConfig(process.cwd());
+
+const COMMANDS = ['up', 'down', 'status'] as const;
+type Command = typeof COMMANDS[number];
+
+function option(args: string[], name: string) {
+  const index = args.indexOf(`--${name}`);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+async function main() {
+  const { DB_STORES, closePools } = await import('@/lib/db');
+  const { migrate, migrationStatus, rollback } = await import('@/lib/db/migrate');
+  type Store = typeof DB_STORES[number];
+
+  const args = process.argv.slice(2);
+  const command = (args[0] || 'up') as Command;
+  const store = option(args, 'store') as Store | undefined;
+  const steps = Number(option(args, 'steps') ?? 1);
+
+  if (!COMMANDS.includes(command)) {
+    throw new Error(`Unknown command "${command}", expected one of ${COMMANDS.join(', ')}`);
+  }
+  if (store && !DB_STORES.includes(store)) {
+    throw new Error(`Unknown store "${store}", expected one of ${DB_STORES.join(', ')}`);
+  }
+  // Rolling back every store at once is too easy to do by accident
+  if (command === 'down' && !store) {
+    throw new Error('Pass --store to choose which store to roll back');
+  }
+  if (!Number.isInteger(steps) || steps < 1) {
+    throw new Error('--steps must be a positive integer');
+  }
+
+  try {
+    for (const target of store ? [store] : DB_STORES) {
+      if (command === 'up') {
+        const applied = await migrate(target);
+        console.log(`[${target}] ${applied.length ? `applied ${applied.map(m => `${m.version} ${m.name}`).join(', ')}` : 'up to date'}`);
+      } else if (command === 'down') {
+        const reverted = await rollback(target, steps);
+        console.log(`[${target}] ${reverted.length ? `reverted ${reverted.map(m => `${m.version} ${m.name}`).join(', ')}` : 'nothing to roll back'}`);
+      } else {
+        for (const migration of await migrationStatus(target)) {
+          console.log(`[${target}] ${migration.version} ${migration.name}: ${migration.appliedAt ?? 'pending'}`);
+        }
+      }
+    }
+  } finally {
+    await closePools();
+  }
+}
+
+main().catch((error) => {
+  console.error('Migration failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
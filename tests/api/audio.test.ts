@@ -0,0 +1,43 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { POST as speechToText } from '@/app/api/stt/route';
+import { POST as textToSpeech } from '@/app/api/tts/route';
+import aiFixtures from '@/lib/fixtures/ai.json';
+import { jsonRequest, signIn, type TestSession } from '../support/requests';
+
+function audioRequest(form: FormData, headers: Record<string, string>) {
+  return new Request('http://localhost/api/stt', { method: 'POST', headers, body: form });
+}
+
+describe('audio routes', () => {
+  let session: TestSession;
+
+  beforeAll(async () => {
+    session = await signIn();
+  });
+
+  it('POST /api/tts returns mp3 audio', async () => {
+    const response = await textToSpeech(jsonRequest('/api/tts', { text: 'Take it once a week.' }, session.headers), {});
+    const audio = Buffer.from(await response.arrayBuffer());
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('audio/mpeg');
+    expect(audio.subarray(0, 2)).toEqual(Buffer.from([0xff, 0xfb]));
+  });
+
+  it('POST /api/stt answers 400 without an audio file', async () => {
+    const response = await speechToText(audioRequest(new FormData(), session.headers), {});
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'No audio file provided' });
+  });
+
+  it('POST /api/stt transcribes the recording', async () => {
+    const form = new FormData();
+    form.append('audio', new File([Buffer.from('recording')], 'recording.webm', { type: 'audio/webm' }));
+
+    const response = await speechToText(audioRequest(form, session.headers), {});
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ text: aiFixtures.transcription });
+  });
+});
@@ -0,0 +1,74 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { POST } from '@/app/api/calculator/route';
+import aiFixtures from '@/lib/fixtures/ai.json';
+import { jsonRequest, readEvents, signIn, TEST_IMAGE, type TestSession } from '../support/requests';
+
+const medication = { name: 'Ozempic', dosage: '0.5 mg', frequency: 'weekly', timeOfDay: ['morning'] };
+
+function analysisRequest(headers: Record<string, string>, content: Record<string, unknown> = {}) {
+  return jsonRequest('/api/calculator', {
+    messages: [{
+      role: 'user',
+      content: JSON.stringify({ type: 'analysis_request', image: `data:image/jpeg;base64,${TEST_IMAGE}`, ...content })
+    }]
+  }, headers);
+}
+
+describe('POST /api/calculator', () => {
+  let session: TestSession;
+
+  beforeAll(async () => {
+    session = await signIn();
+  });
+
+  it('answers 400 when the request does not match the schema', async () => {
+    const response = await POST(jsonRequest('/api/calculator', { messages: 'not a list' }, session.headers), {});
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body).toMatchObject({ status: 'error', message: 'Invalid request format' });
+  });
+
+  it('answers 400 when the analysis request has no image', async () => {
+    const response = await POST(jsonRequest('/api/calculator', {
+      messages: [{ role: 'user', content: JSON.stringify({ type: 'analysis_request' }) }]
+    }, session.headers), {});
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).details[0].path).toEqual(['image']);
+  });
+
+  it('analyzes the photo and saves it to the meal diary', async () => {
+    const response = await POST(analysisRequest(session.headers), {});
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body).toMatchObject({
+      status: 'success',
+      analysis: aiFixtures.vision.analysis,
+      category: 'Mixed',
+      confidence: 82,
+      nutrition: aiFixtures.vision.foodAnalysis.nutrition,
+      mealId: expect.any(String),
+      medication_alert: null
+    });
+  });
+
+  it('adds a medication alert when medications are sent', async () => {
+    const response = await POST(analysisRequest(session.headers, { medications: [medication] }), {});
+    expect((await response.json()).medication_alert).toBe(aiFixtures.vision.medicationAlert);
+  });
+
+  it('streams the analysis as server-sent events', async () => {
+    const request = analysisRequest({ ...session.headers, Accept: 'text/event-stream' }, { medications: [medication] });
+    const response = await POST(request, {});
+    const events = await readEvents(response);
+
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+    expect(events.filter(e => e.type === 'analysis').map(e => e.content).join('')).toBe(aiFixtures.vision.analysis);
+    expect(events.find(e => e.type === 'structured')?.content).toMatchObject({ category: 'Mixed' });
+    expect(events.find(e => e.type === 'meal')?.content).toEqual({ id: expect.any(String) });
+    expect(events.filter(e => e.type === 'medication_alert').map(e => e.content).join(''))
+      .toBe(aiFixtures.vision.medicationAlert);
+  });
+});
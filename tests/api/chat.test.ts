@@ -0,0 +1,111 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { POST } from '@/app/api/chat/route';
+import aiFixtures from '@/lib/fixtures/ai.json';
+import { emergencyGuidance } from '@/lib/triage';
+import { db } from '../support/pg';
+import { jsonRequest, readDataStream, signIn, type TestSession } from '../support/requests';
+
+function chatRequest(content: string, headers: Record<string, string>, persona = 'glp1') {
+  return jsonRequest('/api/chat', {
+    messages: [{ role: 'user', content }],
+    data: { persona, includeMemory: false }
+  }, headers);
+}
+
+describe('POST /api/chat', () => {
+  let session: TestSession;
+
+  beforeAll(async () => {
+    session = await signIn();
+  });
+
+  it('requires a session', async () => {
+    const response = await POST(chatRequest('Hello', {}), {});
+    expect(response.status).toBe(401);
+  });
+
+  it('answers 400 for an unknown persona', async () => {
+    const response = await POST(chatRequest('Hello', session.headers, 'dietitian'), {});
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.error).toBe('Invalid request format');
+    expect(body.details[0].path).toEqual(['data', 'persona']);
+  });
+
+  it('answers 400 when messages are missing', async () => {
+    const response = await POST(jsonRequest('/api/chat', { data: { persona: 'glp1' } }, session.headers), {});
+    expect(response.status).toBe(400);
+  });
+
+  it('streams the answer and titles the conversation', async () => {
+    const response = await POST(chatRequest('what r the side effects of ozempic', session.headers), {});
+    const { text, data } = await readDataStream(response);
+
+    expect(response.status).toBe(200);
+    expect(text).toBe(aiFixtures.answers.default);
+    expect(decodeURIComponent(response.headers.get('X-Chat-Title') || '')).toBe('What R The Side Effects');
+    expect(data).toEqual([{ type: 'title', title: 'What R The Side Effects' }]);
+  });
+
+  it('attaches the sources the provider retrieved to answers', async () => {
+    const response = await POST(chatRequest('how should i store ozempic pens', session.headers), {});
+    const { annotations } = await readDataStream(response);
+
+    expect(annotations).toEqual([{
+      type: 'sources',
+      sources: [{ ref: '1', ...aiFixtures.searchResults[0] }],
+      unsupported: []
+    }]);
+  });
+
+  it('grounds general medication answers in the FDA label and cites its sections', async () => {
+    const response = await POST(chatRequest('what adverse reactions are common with my lisinopril medication', session.headers, 'general_med'), {});
+    const { text, annotations } = await readDataStream(response);
+
+    expect(text.startsWith(aiFixtures.answers.labelGrounded)).toBe(true);
+    expect(annotations[0].sources).toEqual([
+      { ref: '1', ...aiFixtures.searchResults[0] },
+      {
+        ref: 'L1',
+        title: 'Lisinopril label: Adverse reactions',
+        url: 'https://dailymed.nlm.nih.gov/dailymed/lookup.cfm?setid=00000000-0000-4000-8000-000000000004'
+      }
+    ]);
+  });
+
+  it('replies to greetings without a title', async () => {
+    const response = await POST(chatRequest('Hello there', session.headers), {});
+    const { text, data } = await readDataStream(response);
+
+    expect(text).toBe(aiFixtures.answers.greeting);
+    expect(response.headers.has('X-Chat-Title')).toBe(false);
+    expect(data).toEqual([]);
+  });
+
+  it('answers red flags with emergency guidance and records them', async () => {
+    const message = 'I have severe stomach pain going into my back after my Ozempic shot';
+    const response = await POST(chatRequest(message, session.headers), {});
+    const { text, data } = await readDataStream(response);
+
+    expect(response.status).toBe(200);
+    expect(text).toBe(emergencyGuidance('pancreatitis'));
+    expect(response.headers.has('X-Chat-Title')).toBe(false);
+    expect(data).toEqual([{ type: 'triage', category: 'pancreatitis' }]);
+
+    const events = await db.query('SELECT category, detected_by, message, persona FROM triage_events WHERE user_id = $1', [session.user.id]);
+    expect(events.rows).toEqual([{ category: 'pancreatitis', detected_by: 'rules', message, persona: 'glp1' }]);
+  });
+
+  it('escalates messages the classifier marks urgent', async () => {
+    const caregiver = await signIn();
+    const response = await POST(chatRequest('my husband collapsed after his wegovy injection', caregiver.headers), {});
+    const { text, data } = await readDataStream(response);
+
+    expect(text).toBe(emergencyGuidance('emergency'));
+    expect(data).toEqual([{ type: 'triage', category: 'emergency' }]);
+
+    const events = await db.query('SELECT detected_by FROM triage_events WHERE user_id = $1', [caregiver.user.id]);
+    expect(events.rows).toEqual([{ detected_by: 'model' }]);
+  });
+});
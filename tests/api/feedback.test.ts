@@ -0,0 +1,105 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { POST } from '@/app/api/feedback/route';
+import { db, failQueries } from '../support/pg';
+import { jsonRequest, signIn, type TestSession } from '../support/requests';
+
+const feedback = {
+  messageId: 'message-1',
+  feedback: 1,
+  messageContent: 'Semaglutide is taken once weekly.',
+  timestamp: '2025-01-15T10:00:00.000Z'
+};
+
+// Lets executeWithRetry's backoff run without waiting for it
+async function settle(response: Promise<Response>) {
+  let done = false;
+  response.finally(() => { done = true; });
+  while (!done) {
+    await vi.advanceTimersByTimeAsync(1000);
+  }
+  return response;
+}
+
+describe('POST /api/feedback', () => {
+  let session: TestSession;
+
+  beforeAll(async () => {
+    session = await signIn();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('rejects a feedback value other than 0 or 1', async () => {
+    const response = await POST(jsonRequest('/api/feedback', { ...feedback, feedback: 5 }, session.headers), {});
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ status: 'error', message: 'Invalid request body' });
+  });
+
+  it('stores feedback', async () => {
+    const response = await POST(jsonRequest('/api/feedback', feedback, session.headers), {});
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body).toMatchObject({ status: 'success', data: { feedback: 1, user_suggestion: null } });
+  });
+
+  it('updates feedback for a message that was already rated', async () => {
+    const response = await POST(
+      jsonRequest('/api/feedback', { ...feedback, feedback: 0, userSuggestion: 'Mention the dose steps' }, session.headers),
+      {}
+    );
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).data).toMatchObject({ feedback: 0, user_suggestion: 'Mention the dose steps' });
+
+    const { rows } = await db.query('SELECT COUNT(*) AS count FROM message_feedback');
+    expect(rows[0]).toEqual({ count: '1' });
+  });
+
+  it("keeps another user's rating of the same message id separate", async () => {
+    const other = await signIn();
+    const response = await POST(jsonRequest('/api/feedback', { ...feedback, feedback: 1 }, other.headers), {});
+
+    expect(response.status).toBe(200);
+    const { rows } = await db.query('SELECT user_id, feedback FROM message_feedback WHERE message_id = $1 ORDER BY created_at', [feedback.messageId]);
+    expect(rows).toEqual([
+      { user_id: session.user.id, feedback: 0 },
+      { user_id: other.user.id, feedback: 1 }
+    ]);
+  });
+
+  it('maps a not-null violation to 400', async () => {
+    const { messageContent, ...withoutContent } = feedback;
+    const response = await POST(
+      jsonRequest('/api/feedback', { ...withoutContent, messageId: 'message-2' }, session.headers),
+      {}
+    );
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ status: 'error', message: 'Missing required fields', code: '23502' });
+  });
+
+  it('maps a unique violation to 409', async () => {
+    failQueries(/INSERT INTO message_feedback/, '23505');
+    const response = await POST(jsonRequest('/api/feedback', feedback, session.headers), {});
+
+    expect(response.status).toBe(409);
+    expect(await response.json()).toMatchObject({ message: 'Duplicate message ID', code: '23505' });
+  });
+
+  it.each([
+    ['ECONNREFUSED', 503, 'Could not connect to database'],
+    ['ETIMEDOUT', 504, 'Database connection timed out'],
+    ['40001', 500, 'Failed to store feedback']
+  ])('maps %s to %i after retrying', async (code, status, message) => {
+    vi.useFakeTimers({ toFake: ['setTimeout'] });
+    failQueries(/INSERT INTO message_feedback/, code, 3);
+
+    const response = await settle(POST(jsonRequest('/api/feedback', feedback, session.headers), {}));
+
+    expect(response.status).toBe(status);
+    expect(await response.json()).toEqual({ status: 'error', message, code });
+  });
+});
@@ -0,0 +1,46 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { POST } from '@/app/api/food-analysis/route';
+import aiFixtures from '@/lib/fixtures/ai.json';
+import { jsonRequest, signIn, TEST_IMAGE, type TestSession } from '../support/requests';
+
+describe('POST /api/food-analysis', () => {
+  let session: TestSession;
+
+  beforeAll(async () => {
+    session = await signIn();
+  });
+
+  it('answers 400 without both photos', async () => {
+    const response = await POST(jsonRequest('/api/food-analysis', { beforeImage: TEST_IMAGE }, session.headers), {});
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ success: false, error: 'Both before and after images are required' });
+  });
+
+  it('summarizes a JSON upload and logs the portion eaten', async () => {
+    const response = await POST(
+      jsonRequest('/api/food-analysis', { beforeImage: TEST_IMAGE, afterImage: TEST_IMAGE }, session.headers),
+      {}
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.analysis).toBe(aiFixtures.vision.mealSummary);
+    expect(body.meal).toMatchObject({ id: expect.any(String), portionConsumed: 0.75 });
+  });
+
+  it('accepts multipart uploads', async () => {
+    const form = new FormData();
+    form.append('beforeImage', new File([Buffer.from('before')], 'before.jpg', { type: 'image/jpeg' }));
+    form.append('afterImage', new File([Buffer.from('after')], 'after.jpg', { type: 'image/jpeg' }));
+
+    const response = await POST(new Request('http://localhost/api/food-analysis', {
+      method: 'POST',
+      headers: session.headers,
+      body: form
+    }), {});
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).success).toBe(true);
+  });
+});
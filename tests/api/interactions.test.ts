@@ -0,0 +1,85 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { POST } from '@/app/api/interactions/route';
+import * as ai from '@/lib/ai';
+import { RATE_LIMITS } from '@/lib/rate-limit';
+import { jsonRequest, signIn, type TestSession } from '../support/requests';
+
+function medication(name: string) {
+  return { name, dosage: '1 unit', frequency: 'daily', timeOfDay: ['morning'] };
+}
+
+function interactionsRequest(names: string[], headers: Record<string, string>) {
+  return jsonRequest('/api/interactions', { medications: names.map(medication) }, headers);
+}
+
+describe('POST /api/interactions', () => {
+  let session: TestSession;
+
+  beforeAll(async () => {
+    session = await signIn();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('uses the model summary for the pairs it returns', async () => {
+    vi.spyOn(ai, 'generateJson').mockResolvedValue({
+      findings: [{ drugs: ['insulin', 'ozempic'], category: 'Direct Interaction', severity: 'High', alert: 'Watch for lows.' }]
+    });
+
+    const response = await POST(interactionsRequest(['Ozempic', 'Insulin'], session.headers), {});
+    const { findings } = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({ drugs: ['Ozempic', 'Insulin'], severity: 'High', alert: 'Watch for lows.' });
+    expect(findings[0].evidence[0]).toMatchObject({ label: 'Ozempic' });
+  });
+
+  it('falls back to the label evidence when the model output is unusable', async () => {
+    vi.spyOn(ai, 'generateJson').mockRejectedValue(new Error('No object generated: could not parse the response.'));
+
+    const response = await POST(interactionsRequest(['Ozempic', 'Insulin', 'Lisinopril'], session.headers), {});
+    const { findings } = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(findings.map((f: { drugs: string[]; category: string }) => [f.drugs.join(' + '), f.category])).toEqual([
+      ['Ozempic + Insulin', 'Direct Interaction'],
+      ['Ozempic + Lisinopril', 'No Known Concern'],
+      ['Insulin + Lisinopril', 'Direct Interaction']
+    ]);
+  });
+
+  it('summarizes long lists in batches', async () => {
+    const generateJson = vi.spyOn(ai, 'generateJson');
+    const names = ['Ozempic', 'Mounjaro', 'Metformin', 'Lisinopril', 'Insulin', 'Aspirin'];
+
+    const response = await POST(interactionsRequest(names, session.headers), {});
+
+    expect((await response.json()).findings).toHaveLength(15);
+    expect(generateJson).toHaveBeenCalledTimes(3);
+  });
+
+  it('limits how many medications are checked at once', async () => {
+    const names = Array.from({ length: 13 }, (_, i) => `Medication ${i + 1}`);
+    const response = await POST(interactionsRequest(names, session.headers), {});
+
+    expect(response.status).toBe(400);
+  });
+
+  it('answers 429 once the chat burst is used up', async () => {
+    const { headers } = await signIn();
+    const limited = { ...headers, 'x-real-ip': '203.0.113.40' };
+    // Over the medication limit, so each request is turned away before any model call
+    const names = Array.from({ length: 13 }, (_, i) => `Medication ${i + 1}`);
+
+    for (let i = 0; i < RATE_LIMITS.chat.user.capacity; i++) {
+      expect((await POST(interactionsRequest(names, limited), {})).status).toBe(400);
+    }
+    const response = await POST(interactionsRequest(names, limited), {});
+
+    expect(response.status).toBe(429);
+    expect(Number(response.headers.get('Retry-After'))).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,38 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { GET } from '@/app/api/meddb/route';
+import { getRequest, signIn, type TestSession } from '../support/requests';
+
+describe('GET /api/meddb', () => {
+  let session: TestSession;
+
+  beforeAll(async () => {
+    session = await signIn();
+  });
+
+  it('asks for a query', async () => {
+    const response = await GET(getRequest('/api/meddb', session.headers), {});
+    expect(await response.json()).toMatchObject({ success: false, suggestions: [] });
+  });
+
+  it('suggests medications by name prefix', async () => {
+    const response = await GET(getRequest('/api/meddb?q=ozem', session.headers), {});
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      success: true,
+      query: 'ozem',
+      total: 1,
+      suggestions: [{ name: 'Ozempic', strength: 'Semaglutide 2 mg in 1.5 mL' }]
+    });
+  });
+
+  it('suggests close matches for misspelled names from the cache', async () => {
+    const response = await GET(getRequest('/api/meddb?q=ozempik', session.headers), {});
+    expect((await response.json()).suggestions).toEqual([{ name: 'Ozempic', strength: 'Semaglutide 2 mg in 1.5 mL' }]);
+  });
+
+  it('reports when nothing matches', async () => {
+    const response = await GET(getRequest('/api/meddb?q=zzz', session.headers), {});
+    expect(await response.json()).toEqual({ success: false, message: 'No results found', suggestions: [] });
+  });
+});
@@ -0,0 +1,70 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { GET, POST } from '@/app/api/memory/route';
+import { getRequest, jsonRequest, signIn, type TestSession } from '../support/requests';
+
+describe('/api/memory', () => {
+  let session: TestSession;
+
+  beforeAll(async () => {
+    session = await signIn();
+  });
+
+  it('requires a session', async () => {
+    const response = await POST(jsonRequest('/api/memory', { question: 'Hi' }), {});
+    expect(response.status).toBe(401);
+  });
+
+  it('rejects a POST without a question', async () => {
+    const response = await POST(jsonRequest('/api/memory', {}, session.headers), {});
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ status: 'error', message: 'Question is required' });
+  });
+
+  it('stores a memory with its summary', async () => {
+    const response = await POST(
+      jsonRequest('/api/memory', { question: 'What are the side effects of Ozempic?' }, session.headers),
+      {}
+    );
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      status: 'success',
+      summary: expect.stringContaining('Ozempic')
+    });
+  });
+
+  it('lists stored memories with a total', async () => {
+    const response = await GET(getRequest('/api/memory?page=1&pageSize=10', session.headers), {});
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body).toMatchObject({ status: 'success', page: 1, pageSize: 10, total: 1 });
+    expect(body.memories[0].question).toBe('What are the side effects of Ozempic?');
+  });
+
+  it('finds related memories by similarity', async () => {
+    const response = await GET(
+      getRequest('/api/memory?query=side%20effects%20of%20ozempic&threshold=0.5', session.headers),
+      {}
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.memories).toHaveLength(1);
+    expect(body.memories[0].similarity).toBeGreaterThan(0.5);
+  });
+
+  it('does not return memories of other users', async () => {
+    const other = await signIn();
+    const response = await GET(getRequest('/api/memory?query=ozempic&threshold=0', other.headers), {});
+    expect((await response.json()).memories).toEqual([]);
+  });
+
+  it('answers 400 for invalid search parameters', async () => {
+    const response = await GET(getRequest('/api/memory?query=ozempic&threshold=2', session.headers), {});
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body).toMatchObject({ status: 'error', message: 'Invalid request format' });
+    expect(body.details[0].path).toEqual(['threshold']);
+  });
+});
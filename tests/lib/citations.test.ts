@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { isAllowedSourceUrl, validateCitations } from '@/lib/citations';
+
+describe('isAllowedSourceUrl', () => {
+  it.each([
+    ['https://www.fda.gov/drugs/ozempic', true],
+    ['https://pubmed.ncbi.nlm.nih.gov/12345/', true],
+    ['https://medlineplus.gov/druginfo/meds/a618008.html', true],
+    ['https://www.mayoclinic.org/drugs-supplements/semaglutide', true],
+    ['http://www.fda.gov/drugs', false],
+    ['https://fda.gov.example.com/ozempic', false],
+    ['https://notfda.gov/ozempic', false],
+    ['https://www.healthblog.com/ozempic', false],
+    ['not a url', false]
+  ])('%s -> %s', (url, allowed) => {
+    expect(isAllowedSourceUrl(url)).toBe(allowed);
+  });
+});
+
+describe('validateCitations', () => {
+  it('keeps cited sources on allowed sites in citation order', () => {
+    const report = validateCitations(`Semaglutide can help with weight loss [[2]](#2) and nausea is common [[1]](#1).
+
+Sources:
+1. [FDA Ozempic Information](https://www.fda.gov/ozempic)
+2. [Clinical Study](https://pubmed.ncbi.nlm.nih.gov/example)
+3. [Unused](https://medlineplus.gov/unused)`);
+
+    expect(report.sources).toEqual([
+      { ref: '1', title: 'FDA Ozempic Information', url: 'https://www.fda.gov/ozempic' },
+      { ref: '2', title: 'Clinical Study', url: 'https://pubmed.ncbi.nlm.nih.gov/example' }
+    ]);
+    expect(report.unsupported).toEqual([]);
+    expect(report.rejected).toEqual([]);
+  });
+
+  it('reports numbers without a source and sources off the allowlist', () => {
+    const report = validateCitations(`Take it with food [1, 2]. Avoid alcohol [3].
+
+[1]: https://www.mayoclinic.org/semaglutide
+[2]: https://www.wellness-blog.com/ozempic-tips`);
+
+    expect(report.sources).toEqual([
+      { ref: '1', title: 'mayoclinic.org', url: 'https://www.mayoclinic.org/semaglutide' }
+    ]);
+    expect(report.unsupported).toEqual(['2', '3']);
+    expect(report.rejected.map(source => source.ref)).toEqual(['2']);
+  });
+
+  it('prefers the sources the provider retrieved over the ones typed into the answer', () => {
+    const report = validateCitations('Nausea is common [1].\n\n[1]: https://www.fda.gov/made-up-page', {
+      retrieved: [{ ref: '1', title: 'Ozempic label', url: 'https://www.fda.gov/ozempic', snippet: 'Once weekly.' }]
+    });
+
+    expect(report.sources).toEqual([
+      { ref: '1', title: 'Ozempic label', url: 'https://www.fda.gov/ozempic', snippet: 'Once weekly.' }
+    ]);
+  });
+
+  it('checks label excerpts cited as [L1] alongside numbered web sources', () => {
+    const label = { ref: 'L1', title: 'Ozempic label: Warnings and precautions', url: 'https://dailymed.nlm.nih.gov/dailymed/lookup.cfm?setid=1' };
+    const report = validateCitations('Stop if you get pancreatitis [L1], [L2]. Nausea is common [1].\n\n[1]: https://medlineplus.gov/nausea', {
+      labels: [label]
+    });
+
+    expect(report.sources).toEqual([
+      { ref: '1', title: 'medlineplus.gov', url: 'https://medlineplus.gov/nausea' },
+      label
+    ]);
+    expect(report.unsupported).toEqual(['L2']);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { parseConfig } from '@/lib/config';
+
+const DATABASE_URL = 'postgresql://app@db.example.com/main';
+
+describe('parseConfig', () => {
+  it('lists every missing or malformed setting', () => {
+    expect(() => parseConfig({ MEMORY_DATABASE_URL: 'not a url' })).toThrow(
+      'Invalid server configuration:\n- DATABASE_URL: Required\n- MEMORY_DATABASE_URL: Invalid url\n- FDA_API_KEY: Required unless MOCK_PROVIDERS=true'
+    );
+  });
+
+  it('points every store at DATABASE_URL unless given its own', () => {
+    const config = parseConfig({ DATABASE_URL, FEEDBACK_DATABASE_URL: 'postgresql://app@db.example.com/feedback', FDA_API_KEY: 'fda' });
+
+    expect(config.database.urls).toEqual({
+      main: DATABASE_URL,
+      memory: DATABASE_URL,
+      feedback: 'postgresql://app@db.example.com/feedback'
+    });
+    expect(config.database.autoMigrate).toBe(true);
+  });
+
+  it('does not need an openFDA key in mock mode', () => {
+    const config = parseConfig({ DATABASE_URL, MOCK_PROVIDERS: '1' });
+    expect(config.mockProviders).toBe(true);
+    expect(config.fdaApiKey).toBeUndefined();
+  });
+
+  it('collects per-task model overrides', () => {
+    const config = parseConfig({
+      DATABASE_URL,
+      MOCK_PROVIDERS: 'true',
+      AI_ANSWER_PROVIDER: 'local',
+      AI_ANSWER_MODEL: 'llama3.1',
+      AI_EMBED_MODEL: 'text-embedding-3-small'
+    });
+
+    expect(config.ai.taskOverrides).toEqual({
+      answer: { provider: 'local', model: 'llama3.1' },
+      embed: { model: 'text-embedding-3-small' }
+    });
+    expect(config.ai.perplexityModel).toBe('sonar');
+  });
+});
@@ -0,0 +1,34 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { appendMessages, conversationMessageSchema, createConversation, getConversation } from '@/lib/conversations';
+import { signIn, type TestSession } from '../support/requests';
+
+const sources = [
+  { ref: '1', title: 'Ozempic label', url: 'https://dailymed.nlm.nih.gov/ozempic', snippet: 'Start at 0.25 mg weekly.' }
+];
+
+describe('conversation messages', () => {
+  let session: TestSession;
+
+  beforeAll(async () => {
+    session = await signIn();
+  });
+
+  it('keeps the sources saved with an answer', async () => {
+    const { id } = await createConversation(session.user.id, {
+      messages: [{ role: 'user', content: 'What dose do I start on?' }]
+    });
+    await appendMessages(session.user.id, id, [
+      { role: 'assistant', content: 'Most people start at 0.25 mg [1].', sources },
+      { role: 'user', content: 'Thanks' }
+    ]);
+
+    const conversation = await getConversation(session.user.id, id);
+    expect(conversation?.messages.map(m => m.sources)).toEqual([undefined, sources, undefined]);
+  });
+
+  it('rejects sources outside the allowed sites', () => {
+    const message = { role: 'assistant', content: 'See [1].', sources: [{ ref: '1', title: 'Blog', url: 'https://example.com/ozempic' }] };
+
+    expect(conversationMessageSchema.safeParse(message).success).toBe(false);
+  });
+});
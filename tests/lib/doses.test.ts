@@ -0,0 +1,46 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { computeAdherence, listDoseLogs, logDose } from '@/lib/doses';
+import { createMedication, type Medication } from '@/lib/medications';
+import { generateDoseEvents } from '@/lib/schedule';
+import { signIn, type TestSession } from '../support/requests';
+
+describe('dose logs across a DST change', () => {
+  let session: TestSession;
+  let medication: Medication;
+
+  // The 08:00 slot as expanded with a UTC-4 offset when the dose was logged, and with UTC-5 once the clocks went back
+  const beforeChange = new Date('2030-11-01T12:00:00Z');
+  const afterChange = new Date('2030-11-01T13:00:00Z');
+
+  beforeAll(async () => {
+    session = await signIn();
+    medication = await createMedication(session.user.id, {
+      name: 'Metformin', dosage: '500 mg', frequency: 'Once daily', timeOfDay: ['Morning']
+    });
+    medication.createdAt = '2030-10-31T00:00:00Z';
+  });
+
+  it('matches logs stored under the old offset to the same slot', async () => {
+    await logDose(session.user.id, { medicationId: medication.id, scheduledAt: beforeChange, action: 'take', takenAt: beforeChange });
+
+    const from = new Date('2030-11-01T00:00:00Z');
+    const to = new Date('2030-11-01T23:59:59Z');
+    const events = generateDoseEvents([medication], from, to, 300);
+    const logs = await listDoseLogs(session.user.id, { from, to, margin: true });
+
+    expect(events.map(event => event.scheduledAt)).toEqual([afterChange]);
+    expect(computeAdherence(events, logs, to)[0]).toMatchObject({ expected: 1, taken: 1, missed: 0 });
+  });
+
+  it('updates the existing log instead of adding a second one', async () => {
+    const log = await logDose(session.user.id, { medicationId: medication.id, scheduledAt: afterChange, action: 'skip' });
+
+    const logs = await listDoseLogs(session.user.id, {
+      from: new Date('2030-11-01T00:00:00Z'),
+      to: new Date('2030-11-02T00:00:00Z'),
+      medicationId: medication.id
+    });
+    expect(logs).toHaveLength(1);
+    expect(logs[0]).toMatchObject({ id: log?.id, status: 'skipped', scheduledAt: beforeChange.toISOString() });
+  });
+});
@@ -0,0 +1,91 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { cacheLabels, searchCatalog, searchDrugCatalog } from '@/lib/drug-catalog';
+import * as fda from '@/lib/fda';
+import fdaLabels from '@/lib/fixtures/fda-labels.json';
+import { db } from '../support/pg';
+
+const LABELS = fdaLabels as fda.FdaLabel[];
+
+function names(entries: { brandName: string | null }[]) {
+  return entries.map(entry => entry.brandName);
+}
+
+describe('drug catalog', () => {
+  beforeAll(async () => {
+    await cacheLabels(LABELS);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('keeps the searchable names and the label sections', async () => {
+    const [entry] = await searchCatalog('ozempic');
+
+    expect(entry).toMatchObject({
+      setId: LABELS[0].set_id,
+      brandName: 'Ozempic',
+      genericName: 'semaglutide',
+      strength: 'Semaglutide 2 mg in 1.5 mL'
+    });
+    expect(entry.label.warnings_and_cautions).toEqual(LABELS[0].warnings_and_cautions);
+  });
+
+  it('finds brand and generic prefixes, then names containing the query', async () => {
+    expect(names(await searchCatalog('MOUN'))).toEqual(['Mounjaro']);
+    expect(names(await searchCatalog('tirz'))).toEqual(['Mounjaro']);
+    expect(names(await searchCatalog('hydrochloride'))).toEqual(['Metformin Hydrochloride']);
+  });
+
+  it('tolerates typos', async () => {
+    expect(names(await searchCatalog('ozempik'))).toEqual(['Ozempic']);
+    expect(names(await searchCatalog('lisinoprill'))).toEqual(['Lisinopril']);
+  });
+
+  it('treats LIKE wildcards in the query literally', async () => {
+    expect(await searchCatalog('%')).toEqual([]);
+  });
+
+  it('serves fresh hits without calling openFDA', async () => {
+    const search = vi.spyOn(fda, 'searchDrugLabels');
+
+    expect(names(await searchDrugCatalog('ozem'))).toEqual(['Ozempic']);
+    expect(search).not.toHaveBeenCalled();
+  });
+
+  it('refreshes stale hits by set id', async () => {
+    await db.query(`UPDATE drug_labels SET fetched_at = now() - interval '30 days' WHERE brand_name = 'Lisinopril'`);
+    const search = vi.spyOn(fda, 'searchDrugLabels');
+    const refresh = vi.spyOn(fda, 'fetchDrugLabelsBySetId');
+
+    const [entry] = await searchDrugCatalog('lisin');
+
+    expect(search).not.toHaveBeenCalled();
+    expect(refresh).toHaveBeenCalledWith([LABELS[3].set_id]);
+    expect(Date.now() - new Date(entry.fetchedAt).getTime()).toBeLessThan(60000);
+  });
+
+  it('marks stale hits openFDA no longer has as checked', async () => {
+    await db.query(`UPDATE drug_labels SET fetched_at = now() - interval '30 days' WHERE brand_name = 'Ozempic'`);
+    const refresh = vi.spyOn(fda, 'fetchDrugLabelsBySetId').mockResolvedValue([]);
+
+    await searchDrugCatalog('ozem');
+    const [entry] = await searchDrugCatalog('ozem');
+
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(entry.brandName).toBe('Ozempic');
+  });
+
+  it('serves stale hits when openFDA is unavailable', async () => {
+    await db.query(`UPDATE drug_labels SET fetched_at = now() - interval '30 days' WHERE brand_name = 'Mounjaro'`);
+    vi.spyOn(fda, 'fetchDrugLabelsBySetId').mockRejectedValue(new Error('openFDA request failed with status 503'));
+
+    expect(names(await searchDrugCatalog('mounj'))).toEqual(['Mounjaro']);
+  });
+
+  it('fails on a miss when openFDA is unavailable', async () => {
+    vi.spyOn(fda, 'searchDrugLabels').mockRejectedValue(new Error('openFDA request failed with status 503'));
+
+    await expect(searchDrugCatalog('atorvastatin')).rejects.toThrow('status 503');
+  });
+});
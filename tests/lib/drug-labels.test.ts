@@ -0,0 +1,86 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import * as ai from '@/lib/ai';
+import { candidateDrugNames, chunkLabel, describeLabelExcerpts, findMentionedLabels, labelCitations, retrieveLabelExcerpts } from '@/lib/drug-labels';
+import * as fda from '@/lib/fda';
+import fdaLabels from '@/lib/fixtures/fda-labels.json';
+import { mockEmbeddingModel } from '@/lib/mock';
+import { db } from '../support/pg';
+
+describe('candidateDrugNames', () => {
+  it('drops short and common question words', () => {
+    expect(candidateDrugNames('What are the side effects of Metformin with lisinopril?')).toEqual(['metformin', 'lisinopril']);
+  });
+});
+
+describe('chunkLabel', () => {
+  it('splits long sections on sentence boundaries and tags every chunk', () => {
+    const sentence = 'Nausea was reported in clinical trials of this medication. ';
+    const chunks = chunkLabel({ set_id: 'abc', openfda: { brand_name: ['Testdrug'] }, adverse_reactions: [sentence.repeat(30)] });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every(chunk => chunk.text.length <= 800 && chunk.text.endsWith('.'))).toBe(true);
+    expect(chunks[0]).toMatchObject({
+      drug: 'Testdrug',
+      section: 'adverse_reactions',
+      url: 'https://dailymed.nlm.nih.gov/dailymed/lookup.cfm?setid=abc'
+    });
+  });
+});
+
+describe('retrieveLabelExcerpts', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('finds only the labels the question names', async () => {
+    const labels = await findMentionedLabels('can i take metformin before breakfast');
+    expect(labels.map(label => label.openfda?.brand_name?.[0])).toEqual(['Metformin Hydrochloride']);
+  });
+
+  it('ranks the sections of the named drug against the question', async () => {
+    const excerpts = await retrieveLabelExcerpts('What adverse reactions does lisinopril cause?');
+
+    expect(excerpts.map(excerpt => excerpt.ref)).toEqual(['L1', 'L2', 'L3', 'L4']);
+    expect(excerpts.every(excerpt => excerpt.drug === 'Lisinopril')).toBe(true);
+    expect(excerpts[0].section).toBe('adverse_reactions');
+    expect(describeLabelExcerpts(excerpts)).toContain('[L1] Lisinopril label, Adverse reactions: ');
+    expect(labelCitations(excerpts)[0]).toEqual({
+      ref: 'L1',
+      title: 'Lisinopril label: Adverse reactions',
+      url: `https://dailymed.nlm.nih.gov/dailymed/lookup.cfm?setid=${fdaLabels[3].set_id}`
+    });
+  });
+
+  it('returns nothing when no drug is named', async () => {
+    expect(await retrieveLabelExcerpts('how much water should i drink')).toEqual([]);
+  });
+
+  it('embeds a label once and reuses the stored chunk embeddings', async () => {
+    const model = mockEmbeddingModel();
+    const doEmbed = vi.spyOn(model, 'doEmbed');
+    vi.spyOn(ai, 'getEmbeddingModel').mockReturnValue(model);
+    const question = 'Is Mounjaro dosing different for older adults?';
+
+    const first = await retrieveLabelExcerpts(question);
+    const lookup = vi.spyOn(fda, 'findDrugLabels');
+    const second = await retrieveLabelExcerpts(question);
+
+    expect(second).toEqual(first);
+    expect(lookup).not.toHaveBeenCalled();
+    const [embedded, reused] = doEmbed.mock.calls.map(([{ values }]) => values.length);
+    expect(embedded).toBeGreaterThan(1);
+    expect(reused).toBe(1);
+    const stored = await db.query(`SELECT chunk_embeddings->>'model' AS model FROM drug_labels WHERE set_id = $1`, [fdaLabels[1].set_id]);
+    expect(stored.rows).toEqual([{ model: 'mock-embed' }]);
+  });
+
+  it('looks up words that are not drug names on openFDA only once', async () => {
+    const lookup = vi.spyOn(fda, 'findDrugLabels');
+
+    await retrieveLabelExcerpts('is kombucha okay with oatmeal');
+    await retrieveLabelExcerpts('is kombucha okay with oatmeal');
+
+    expect(lookup).toHaveBeenCalledTimes(1);
+    expect(lookup).toHaveBeenCalledWith(['kombucha', 'okay', 'oatmeal'], 6);
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { measurementSchema } from '@/lib/measurements';
+
+function bloodPressure(value: number, secondaryValue?: number) {
+  return measurementSchema.safeParse({ kind: 'blood_pressure', value, secondaryValue });
+}
+
+describe('measurementSchema', () => {
+  it('accepts a plausible blood pressure reading', () => {
+    expect(bloodPressure(128, 82).success).toBe(true);
+  });
+
+  it.each([
+    [120, undefined, 'Diastolic value is required'],
+    [120, 8, 'Diastolic value must be between 40 and 300 mmHg'],
+    [120, 800, 'Diastolic value must be between 40 and 300 mmHg'],
+    [80, 120, 'Diastolic value must be lower than the systolic value']
+  ])('rejects %d/%s', (value, secondaryValue, message) => {
+    const result = bloodPressure(value, secondaryValue);
+
+    expect(result.success).toBe(false);
+    expect(result.error?.errors).toEqual([expect.objectContaining({ path: ['secondaryValue'], message })]);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { MIGRATIONS } from '@/lib/db/migrations';
+import { migrate, migrationStatus, rollback } from '@/lib/db/migrate';
+import { db } from '../support/pg';
+
+async function tableExists(name: string) {
+  const { rows } = await db.query<{ table: string | null }>('SELECT to_regclass($1) AS table', [name]);
+  return rows[0].table !== null;
+}
+
+describe('migrations', () => {
+  it('use unique, increasing versions', () => {
+    const versions = MIGRATIONS.map(migration => migration.version);
+    expect(versions).toEqual([...versions].sort((a, b) => a - b));
+    expect(new Set(versions).size).toBe(versions.length);
+  });
+
+  it('apply every pending migration once', async () => {
+    const applied = await migrate('main');
+
+    expect(applied.map(m => m.name)).toContain('users_and_sessions');
+    expect(await migrate('main')).toEqual([]);
+    expect((await migrationStatus('main')).every(m => m.appliedAt !== null)).toBe(true);
+  });
+
+  it('roll back and reapply a store', async () => {
+    await migrate('feedback');
+    expect(await tableExists('message_feedback')).toBe(true);
+
+    const reverted = await rollback('feedback', 2);
+    expect(reverted.map(m => m.name)).toEqual(['message_feedback_owner', 'message_feedback']);
+    expect(await tableExists('message_feedback')).toBe(false);
+    expect(await migrationStatus('feedback')).toEqual([
+      { version: 9, name: 'message_feedback', appliedAt: null },
+      { version: 15, name: 'message_feedback_owner', appliedAt: null }
+    ]);
+
+    await migrate('feedback');
+    expect(await tableExists('message_feedback')).toBe(true);
+  });
+
+  it('roll back several steps newest first', async () => {
+    const newest = MIGRATIONS.filter(migration => migration.store === 'main').slice(-2).reverse();
+    const reverted = await rollback('main', 2);
+
+    expect(reverted.map(m => m.name)).toEqual(newest.map(m => m.name));
+    const pending = (await migrationStatus('main')).filter(m => m.appliedAt === null);
+    expect(pending.map(m => m.version)).toEqual(newest.map(m => m.version).reverse());
+    expect(await tableExists('users')).toBe(true);
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import aiFixtures from '@/lib/fixtures/ai.json';
+import { foodAnalysisSchema } from '@/lib/nutrition';
+
+function withCalories(value: unknown) {
+  const analysis = aiFixtures.vision.foodAnalysis;
+  return { ...analysis, nutrition: { ...analysis.nutrition, calories: { value, unit: 'kcal' } } };
+}
+
+describe('foodAnalysisSchema', () => {
+  it.each([
+    ['300-350', 325],
+    ['300 – 350 kcal', 325],
+    ['300 to 350', 325],
+    ['1,200', 1200],
+    ['1,200 mg', 1200],
+    ['2 cups (480 ml)', 2],
+    ['12 g', 12],
+    [480, 480]
+  ])('reads %j as %d', (value, expected) => {
+    expect(foodAnalysisSchema.parse(withCalories(value)).nutrition.calories.value).toBe(expected);
+  });
+
+  it.each(['unknown', '-20', -20, Number.NaN, null])('rejects %j instead of logging zero', (value) => {
+    expect(foodAnalysisSchema.safeParse(withCalories(value)).success).toBe(false);
+  });
+});
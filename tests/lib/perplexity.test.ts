@@ -0,0 +1,65 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { captureSearchResults, parseSearchResults } from '@/lib/perplexity';
+
+const SEARCH_RESULTS = [
+  { title: 'Ozempic label', url: 'https://www.fda.gov/ozempic', snippet: 'Once weekly.', date: '2024-01-01' },
+  { title: '', url: 'https://medlineplus.gov/druginfo/meds/a618008.html' }
+];
+
+describe('parseSearchResults', () => {
+  it('reads search_results with titles and snippets', () => {
+    expect(parseSearchResults({ search_results: SEARCH_RESULTS })).toEqual([
+      { title: 'Ozempic label', url: 'https://www.fda.gov/ozempic', snippet: 'Once weekly.' },
+      { title: 'medlineplus.gov', url: 'https://medlineplus.gov/druginfo/meds/a618008.html' }
+    ]);
+  });
+
+  it('falls back to the plain citations list', () => {
+    expect(parseSearchResults({ citations: ['https://www.mayoclinic.org/semaglutide', 42] })).toEqual([
+      { title: 'mayoclinic.org', url: 'https://www.mayoclinic.org/semaglutide' }
+    ]);
+  });
+});
+
+describe('captureSearchResults', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reports results from a streamed completion and passes the body through', async () => {
+    const events = [
+      `data: ${JSON.stringify({ choices: [{ delta: { content: 'Hello' } }], search_results: SEARCH_RESULTS.slice(0, 1) })}\n\n`,
+      `data: ${JSON.stringify({ choices: [{ delta: { content: ' there' } }], search_results: SEARCH_RESULTS })}\n\n`,
+      'data: [DONE]\n\n'
+    ];
+    // Split mid-event to exercise the line buffering
+    const body = events.join('');
+    const chunks = [body.slice(0, 40), body.slice(40)];
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(
+      new ReadableStream({
+        start(controller) {
+          chunks.forEach(chunk => controller.enqueue(new TextEncoder().encode(chunk)));
+          controller.close();
+        }
+      }),
+      { headers: { 'Content-Type': 'text/event-stream' } }
+    )));
+
+    const onSearchResults = vi.fn();
+    const response = await captureSearchResults(onSearchResults)('https://api.perplexity.ai/chat/completions');
+
+    expect(await response.text()).toBe(body);
+    expect(onSearchResults).toHaveBeenCalledTimes(2);
+    expect(onSearchResults.mock.lastCall?.[0]).toHaveLength(2);
+  });
+
+  it('reports results from a JSON completion', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => Response.json({ choices: [], citations: ['https://www.fda.gov/ozempic'] })));
+
+    const onSearchResults = vi.fn();
+    const response = await captureSearchResults(onSearchResults)('https://api.perplexity.ai/chat/completions');
+
+    expect(onSearchResults).toHaveBeenCalledWith([{ title: 'fda.gov', url: 'https://www.fda.gov/ozempic' }]);
+    expect((await response.json()).citations).toHaveLength(1);
+  });
+});
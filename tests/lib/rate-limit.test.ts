@@ -0,0 +1,121 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { getClientIp, RATE_LIMITS, takeToken, withRateLimit } from '@/lib/rate-limit';
+import { db, failQueries } from '../support/pg';
+import { signIn, type TestSession } from '../support/requests';
+
+const handler = withRateLimit('image', async () => new Response('ok'));
+
+function request(ip: string) {
+  return new Request('http://localhost/api/calculator', { method: 'POST', headers: { 'x-real-ip': ip } });
+}
+
+describe('getClientIp', () => {
+  it('prefers the address set by the platform', () => {
+    const headers = { 'x-real-ip': '203.0.113.9', 'x-forwarded-for': '10.9.9.9, 203.0.113.9' };
+    expect(getClientIp(new Request('http://localhost/', { headers }))).toBe('203.0.113.9');
+  });
+
+  it('ignores hops the client could have written itself', () => {
+    const headers = { 'x-forwarded-for': '10.9.9.9, 198.51.100.3' };
+    expect(getClientIp(new Request('http://localhost/', { headers }))).toBe('198.51.100.3');
+  });
+});
+
+describe('takeToken', () => {
+  const limit = { capacity: 2, refillPerMinute: 6 };
+
+  it('starts full and refills over time', () => {
+    const first = takeToken(null, limit, 0);
+    const second = takeToken(first.state, limit, 0);
+    const third = takeToken(second.state, limit, 0);
+
+    expect([first.retryAfter, second.retryAfter]).toEqual([0, 0]);
+    expect(third.retryAfter).toBe(10);
+    expect(takeToken(third.state, limit, 10000).retryAfter).toBe(0);
+  });
+
+  it('never holds more than its capacity', () => {
+    expect(takeToken({ tokens: 0, updatedAt: 0 }, limit, 3600000).state.tokens).toBe(1);
+  });
+});
+
+describe('withRateLimit', () => {
+  let session: TestSession;
+
+  beforeAll(async () => {
+    session = await signIn();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('answers 429 with Retry-After once the burst is used up', async () => {
+    const { capacity } = RATE_LIMITS.image.user;
+    for (let i = 0; i < capacity; i++) {
+      expect((await handler(request('203.0.113.1'), session.user, {})).status).toBe(200);
+    }
+
+    const response = await handler(request('203.0.113.1'), session.user, {});
+    expect(response.status).toBe(429);
+    expect(Number(response.headers.get('Retry-After'))).toBeGreaterThan(0);
+    expect(await response.json()).toEqual({ status: 'error', message: 'Too many requests, please slow down' });
+  });
+
+  it('limits each address across accounts', async () => {
+    const { capacity } = RATE_LIMITS.image.ip;
+    const users = await Promise.all(Array.from({ length: 4 }, () => signIn()));
+
+    const statuses: number[] = [];
+    for (let i = 0; i <= capacity; i++) {
+      statuses.push((await handler(request('198.51.100.7'), users[i % users.length].user, {})).status);
+    }
+
+    expect(statuses.slice(0, capacity).every(status => status === 200)).toBe(true);
+    expect(statuses[capacity]).toBe(429);
+  });
+
+  it('enforces the daily quota until midnight UTC', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-03-01T23:00:00Z'));
+    const { user } = await signIn();
+    const audio = withRateLimit('audio', async () => new Response('ok'), { cost: async () => 1000 });
+
+    expect((await audio(request('192.0.2.10'), user, {})).status).toBe(200);
+    const response = await audio(request('192.0.2.10'), user, {});
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toBe('3600');
+    expect((await response.json()).message).toBe('Daily limit of 1800 seconds of audio reached');
+
+    vi.setSystemTime(new Date('2025-03-02T00:00:01Z'));
+    expect((await audio(request('192.0.2.10'), user, {})).status).toBe(200);
+  });
+
+  it('keeps limiting in memory when Postgres is unavailable', async () => {
+    const { user } = await signIn();
+    failQueries(/rate_limit_/, 'ECONNREFUSED', 100);
+
+    const statuses: number[] = [];
+    for (let i = 0; i <= RATE_LIMITS.image.user.capacity; i++) {
+      statuses.push((await handler(request('192.0.2.20'), user, {})).status);
+    }
+
+    expect(statuses.filter(status => status === 429)).toHaveLength(1);
+    expect(console.error).toHaveBeenCalledWith('Rate limit store unavailable, using in-memory buckets:', expect.anything());
+  });
+
+  it('deletes refilled buckets and past quotas', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2030-01-01T12:00:00Z'));
+    await db.query(`INSERT INTO rate_limit_buckets (key, tokens, updated_at) VALUES ('image:ip:old', 0, '2030-01-01T11:00:00Z')`);
+    await db.query(`INSERT INTO rate_limit_quotas (key, day, used) VALUES ('image:user:old', '2029-12-31', 5)`);
+
+    expect((await handler(request('192.0.2.30'), session.user, {})).status).toBe(200);
+
+    const buckets = await db.query(`SELECT key FROM rate_limit_buckets WHERE key = 'image:ip:old'`);
+    const quotas = await db.query(`SELECT key FROM rate_limit_quotas WHERE key = 'image:user:old'`);
+    expect([buckets.rows, quotas.rows]).toEqual([[], []]);
+    expect((await db.query(`SELECT key FROM rate_limit_buckets WHERE key = 'image:ip:192.0.2.30'`)).rows).toHaveLength(1);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import type { Medication } from '@/lib/medications';
+import { buildICalendar, generateDoseEvents, parseFrequency } from '@/lib/schedule';
+
+function medication(frequency: string, createdAt: string): Medication {
+  return {
+    id: 'med-1',
+    name: 'Ozempic',
+    dosage: '0.5 mg',
+    frequency,
+    timeOfDay: ['Morning'],
+    position: 0,
+    createdAt,
+    updatedAt: createdAt
+  };
+}
+
+describe('parseFrequency', () => {
+  it.each([
+    ['Once daily', { kind: 'daily', timesPerDay: 1 }],
+    ['every 12 hours', { kind: 'daily', timesPerDay: 2 }],
+    ['Three times a day', { kind: 'daily', timesPerDay: 3 }],
+    ['every other day', { kind: 'interval', everyDays: 2 }],
+    ['Once weekly', { kind: 'interval', everyDays: 7 }],
+    ['every other week', { kind: 'interval', everyDays: 14 }],
+    ['every 2 weeks', { kind: 'interval', everyDays: 14 }],
+    ['biweekly', { kind: 'interval', everyDays: 14 }],
+    ['Bi-weekly', { kind: 'interval', everyDays: 14 }],
+    ['fortnightly', { kind: 'interval', everyDays: 14 }],
+    ['twice a week', { kind: 'weekly', timesPerWeek: 2 }],
+    ['twice weekly', { kind: 'weekly', timesPerWeek: 2 }],
+    ['3 times a week', { kind: 'weekly', timesPerWeek: 3 }],
+    ['three times per week', { kind: 'weekly', timesPerWeek: 3 }],
+    ['once a week', { kind: 'interval', everyDays: 7 }],
+    ['Monthly', { kind: 'monthly', everyMonths: 1 }],
+    ['every 3 months', { kind: 'monthly', everyMonths: 3 }],
+    ['as needed for nausea', { kind: 'as_needed' }],
+    ['every few days', { kind: 'unrecognized' }],
+    ['every 5 hours', { kind: 'unrecognized' }],
+    ['with meals', { kind: 'unrecognized' }]
+  ])('reads "%s"', (frequency, rule) => {
+    expect(parseFrequency(frequency)).toEqual(rule);
+  });
+});
+
+describe('generateDoseEvents', () => {
+  it('falls back to the last day of shorter months for monthly doses', () => {
+    const events = generateDoseEvents(
+      [medication('monthly', '2030-01-31T07:00:00Z')],
+      new Date('2030-01-01T00:00:00Z'),
+      new Date('2030-04-30T23:59:59Z')
+    );
+
+    expect(events.map(event => event.scheduledAt.toISOString().slice(0, 10)))
+      .toEqual(['2030-01-31', '2030-02-28', '2030-03-31', '2030-04-30']);
+  });
+
+  it('spreads weekly doses over the week', () => {
+    const events = generateDoseEvents(
+      [medication('3 times a week', '2030-01-07T07:00:00Z')],
+      new Date('2030-01-07T00:00:00Z'),
+      new Date('2030-01-20T23:59:59Z')
+    );
+
+    expect(events.map(event => event.scheduledAt.toISOString().slice(0, 10)))
+      .toEqual(['2030-01-07', '2030-01-09', '2030-01-12', '2030-01-14', '2030-01-16', '2030-01-19']);
+  });
+
+  it('leaves unrecognized frequencies off the schedule', () => {
+    const events = generateDoseEvents(
+      [medication('with meals', '2030-01-01T07:00:00Z')],
+      new Date('2030-01-01T00:00:00Z'),
+      new Date('2030-01-08T00:00:00Z')
+    );
+
+    expect(events).toEqual([]);
+  });
+});
+
+describe('buildICalendar', () => {
+  it('repeats monthly doses on the same day, or the last day of shorter months', () => {
+    const calendar = buildICalendar([medication('monthly', '2030-01-31T07:00:00Z')]);
+
+    expect(calendar).toContain('DTSTART:20300131T080000\r\n');
+    expect(calendar).toContain('RRULE:FREQ=MONTHLY;INTERVAL=1;BYMONTHDAY=28,29,30,31;BYSETPOS=-1\r\n');
+  });
+
+  it('repeats weekly doses on the same weekdays', () => {
+    // 2030-01-07 is a Monday
+    const calendar = buildICalendar([medication('twice a week', '2030-01-07T07:00:00Z')]);
+
+    expect(calendar).toContain('RRULE:FREQ=WEEKLY;BYDAY=MO,FR\r\n');
+  });
+});
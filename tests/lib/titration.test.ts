@@ -0,0 +1,36 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { createMedication, deleteMedication, type Medication } from '@/lib/medications';
+import { createTitrationPlan, listTitrationPlans } from '@/lib/titration';
+import { signIn, type TestSession } from '../support/requests';
+
+describe('titration plans linked to a medication', () => {
+  let session: TestSession;
+  let medication: Medication;
+
+  beforeAll(async () => {
+    session = await signIn();
+    medication = await createMedication(session.user.id, {
+      name: 'Ozempic', dosage: '0.25 mg', frequency: 'Once weekly', timeOfDay: ['Morning']
+    });
+  });
+
+  it("refuses another user's medication", async () => {
+    const other = await signIn();
+    const plan = await createTitrationPlan(other.user.id, {
+      product: 'ozempic', startDate: '2030-01-01', medicationId: medication.id
+    });
+
+    expect(plan).toBeNull();
+    expect(await listTitrationPlans(other.user.id)).toEqual([]);
+  });
+
+  it('is removed with its medication', async () => {
+    const plan = await createTitrationPlan(session.user.id, {
+      product: 'ozempic', startDate: '2030-01-01', medicationId: medication.id
+    });
+    expect(plan?.medicationId).toBe(medication.id);
+
+    await deleteMedication(session.user.id, medication.id);
+    expect(await listTitrationPlans(session.user.id)).toEqual([]);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { detectRedFlags, emergencyGuidance } from '@/lib/triage';
+
+describe('detectRedFlags', () => {
+  it.each([
+    ['I have severe stomach pain that goes through to my back since my last Ozempic shot', 'pancreatitis'],
+    ['my blood sugar is 48 and I feel shaky', 'hypoglycemia'],
+    ['hypo again, sweating and confused', 'hypoglycemia'],
+    ['I accidentally took a double dose of Mounjaro today', 'overdose'],
+    ['I think I overdosed on metformin', 'overdose'],
+    ['I want to end my life', 'self_harm'],
+    ['I think I have pancreatitis, the pain is getting worse', 'pancreatitis'],
+    ['bg is 3.1 and dropping', 'hypoglycemia'],
+    ['my glucose just dropped to 52 mg/dl', 'hypoglycemia'],
+    ['can you help, I took a double dose of Ozempic', 'overdose'],
+    ['my throat is swelling after the injection', 'emergency'],
+    ['I have crushing chest pain right now', 'emergency'],
+    ["I don't know what caused it but I have severe abdominal pain and I'm vomiting", 'pancreatitis'],
+    ['I can feel severe stomach pain going to my back', 'pancreatitis'],
+    ["my blood sugar was 45 and I'm shaking", 'hypoglycemia'],
+    ['glucose 45', 'hypoglycemia'],
+    ['bg reading: 2.9', 'hypoglycemia'],
+    ['I have chest pain, should I go to the ER?', 'emergency']
+  ])('flags "%s" as %s', (message, category) => {
+    expect(detectRedFlags(message)).toBe(category);
+  });
+
+  it.each([
+    'what r the side effects of ozempic',
+    'is mild stomach pain normal when starting wegovy?',
+    'my fasting glucose is 5.5 mmol, is that ok?',
+    'my blood sugar is 120 after lunch',
+    'what happens if I miss a dose?',
+    'Can Ozempic cause pancreatitis?',
+    'what happens if I overdose on metformin?',
+    'what if I took a double dose by mistake?',
+    'is anaphylaxis a risk with Mounjaro?',
+    'can semaglutide cause chest pain or seizures?',
+    'could it cause severe stomach pain that spreads to my back?',
+    'my blood sugar is 5 this morning',
+    'my glucose is 10 after dinner',
+    'my blood sugar 2 hours after eating was 140',
+    'glucose 110 with 2 units of insulin'
+  ])('lets "%s" through', (message) => {
+    expect(detectRedFlags(message)).toBeNull();
+  });
+});
+
+describe('emergencyGuidance', () => {
+  it('always gives emergency numbers and adds category advice', () => {
+    const guidance = emergencyGuidance('overdose');
+
+    expect(guidance).toContain('911');
+    expect(guidance).toContain('112');
+    expect(guidance).toContain('Poison Control');
+  });
+});
@@ -0,0 +1,51 @@
+import { NextRequest } from 'next/server';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { middleware } from '@/middleware';
+
+function apiRequest(method: string, origin?: string) {
+  return new NextRequest('http://localhost/api/calculator', {
+    method,
+    headers: origin ? { origin } : {}
+  });
+}
+
+describe('middleware', () => {
+  beforeAll(() => {
+    vi.stubEnv('CORS_ALLOWED_ORIGINS', 'https://app.example.com');
+  });
+
+  it('answers preflights from allowed origins', async () => {
+    const response = middleware(apiRequest('OPTIONS', 'https://app.example.com'));
+
+    expect(response.status).toBe(204);
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe('https://app.example.com');
+    expect(response.headers.get('Access-Control-Allow-Methods')).toContain('POST');
+    expect(response.headers.get('Access-Control-Max-Age')).toBe('86400');
+  });
+
+  it('gives other origins no CORS headers', async () => {
+    const preflight = middleware(apiRequest('OPTIONS', 'https://evil.example.com'));
+    const request = middleware(apiRequest('POST', 'https://evil.example.com'));
+
+    expect(preflight.headers.has('Access-Control-Allow-Origin')).toBe(false);
+    expect(request.headers.has('Access-Control-Allow-Origin')).toBe(false);
+  });
+
+  it('passes API requests on with headers for the route response, whatever its status', async () => {
+    const response = middleware(apiRequest('POST', 'https://app.example.com'));
+
+    expect(response.headers.get('x-middleware-next')).toBe('1');
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe('https://app.example.com');
+    expect(response.headers.get('Access-Control-Expose-Headers')).toContain('Retry-After');
+  });
+
+  it('does not redirect API requests without a session', async () => {
+    const response = middleware(apiRequest('GET'));
+    expect(response.headers.get('location')).toBeNull();
+  });
+
+  it('sends pages without a session to the login page', async () => {
+    const response = middleware(new NextRequest('http://localhost/chat'));
+    expect(response.headers.get('location')).toBe('http://localhost/login?next=%2Fchat');
+  });
+});
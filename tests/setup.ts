@@ -0,0 +1,16 @@
+import { afterEach, beforeEach, vi } from 'vitest';
+import { resetQueryFailures } from './support/pg';
+
+// Every Pool in the app talks to the in-memory database instead of a real server
+vi.mock('pg', () => import('./support/pg'));
+
+// Routes log every request and every handled error; keep the test output readable
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  resetQueryFailures();
+  vi.restoreAllMocks();
+});
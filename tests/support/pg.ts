@@ -0,0 +1,88 @@
+import { PGlite, types, type Results } from '@electric-sql/pglite';
+import { pg_trgm } from '@electric-sql/pglite/contrib/pg_trgm';
+import { vector } from '@electric-sql/pglite/vector';
+
+// In-process Postgres shared by every Pool the app creates; node-postgres returns bigint and numeric as strings
+export const db = new PGlite({
+  extensions: { vector, pg_trgm },
+  parsers: {
+    [types.INT8]: (value: string) => value,
+    [types.NUMERIC]: (value: string) => value
+  }
+});
+
+interface QueryFailure {
+  pattern: RegExp;
+  code: string;
+  remaining: number;
+}
+
+let queryFailures: QueryFailure[] = [];
+
+// The next `count` queries matching `pattern` fail with a driver or SQLSTATE error code
+export function failQueries(pattern: RegExp, code: string, count = 1) {
+  queryFailures.push({ pattern, code, remaining: count });
+}
+
+export function resetQueryFailures() {
+  queryFailures = [];
+}
+
+function takeFailure(text: string) {
+  const failure = queryFailures.find(f => f.remaining > 0 && f.pattern.test(text));
+  if (!failure) return null;
+  failure.remaining--;
+  return Object.assign(new Error(`Simulated ${failure.code}`), { code: failure.code });
+}
+
+function toQueryResult(result: Results) {
+  return {
+    rows: result.rows,
+    rowCount: result.affectedRows || result.rows.length,
+    fields: result.fields
+  };
+}
+
+// node-postgres accepts several statements in one unparameterized query, the extended protocol does not
+async function query(text: string, params?: unknown[]) {
+  const failure = takeFailure(text);
+  if (failure) throw failure;
+
+  if (params && params.length > 0) {
+    return toQueryResult(await db.query(text, params));
+  }
+  const results = await db.exec(text);
+  return toQueryResult(results[results.length - 1] || { rows: [], fields: [] });
+}
+
+// PGlite has a single connection, so clients are handed out one at a time like a pool with max: 1
+let lastRelease: Promise<void> = Promise.resolve();
+
+export class Pool {
+  on() {
+    return this;
+  }
+
+  async connect() {
+    const previous = lastRelease;
+    let release!: () => void;
+    lastRelease = new Promise(resolve => { release = resolve; });
+    await previous;
+    return { query, release };
+  }
+
+  async query(text: string, params?: unknown[]) {
+    const client = await this.connect();
+    try {
+      return await client.query(text, params);
+    } finally {
+      client.release();
+    }
+  }
+
+  async end() {}
+}
+
+export type PoolClient = Awaited<ReturnType<Pool['connect']>>;
+
+export default { Pool };
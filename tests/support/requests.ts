@@ -0,0 +1,52 @@
+import { randomUUID } from 'crypto';
+import { createSession, createUser, SESSION_COOKIE, type AuthUser } from '@/lib/auth';
+
+export interface TestSession {
+  user: AuthUser;
+  headers: Record<string, string>;
+}
+
+// A fresh user with a valid session cookie
+export async function signIn(): Promise<TestSession> {
+  const user = await createUser(`user-${randomUUID()}@example.com`, 'correct-horse-battery');
+  const session = await createSession(user.id);
+  return { user, headers: { cookie: `${SESSION_COOKIE}=${session.token}` } };
+}
+
+export function jsonRequest(path: string, body: unknown, headers: Record<string, string> = {}) {
+  return new Request(`http://localhost${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: typeof body === 'string' ? body : JSON.stringify(body)
+  });
+}
+
+export function getRequest(path: string, headers: Record<string, string> = {}) {
+  return new Request(`http://localhost${path}`, { headers });
+}
+
+// Concatenated text of a server-sent event stream, e.g. the calculator's analysis events
+export async function readEvents(response: Response) {
+  const text = await response.text();
+  return text
+    .split('\n\n')
+    .filter(chunk => chunk.startsWith('data: ') && chunk !== 'data: [DONE]')
+    .map(chunk => JSON.parse(chunk.slice('data: '.length)) as { type: string; content: unknown });
+}
+
+// Text, data and message annotation parts of an AI SDK data stream, as sent by the chat route
+export async function readDataStream(response: Response) {
+  const lines = (await response.text()).split('\n').filter(Boolean);
+  const part = (prefix: string) => lines
+    .filter(line => line.startsWith(prefix))
+    .map(line => JSON.parse(line.slice(prefix.length)));
+
+  return {
+    text: part('0:').join(''),
+    data: part('2:').flat(),
+    annotations: part('8:').flat()
+  };
+}
+
+// Tiny JPEG-like payload; the mock vision model never decodes it
+export const TEST_IMAGE = Buffer.from('test image').toString('base64');
@@ -0,0 +1,24 @@
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname)
+    }
+  },
+  test: {
+    environment: 'node',
+    include: ['tests/**/*.test.ts'],
+    setupFiles: ['tests/setup.ts'],
+    env: {
+      // pg is replaced by an in-memory database, so this URL is never dialed
+      DATABASE_URL: 'postgresql://test@localhost:5432/test',
+      MOCK_PROVIDERS: 'true'
+    },
+    // Each file boots its own in-memory Postgres, so run them one at a time
+    fileParallelism: false,
+    testTimeout: 30000,
+    hookTimeout: 30000
+  }
+});